@@ -0,0 +1,384 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  IDisposable
+} from 'phosphor/lib/core/disposable';
+
+import {
+  ISignal, clearSignalData, defineSignal
+} from 'phosphor/lib/core/signaling';
+
+import {
+  Contents
+} from './index';
+
+
+/**
+ * A manager which saves a file after it is changed.
+ *
+ * #### Notes
+ * The file is saved when it has not been changed for the save interval,
+ * and a checkpoint is created after a save if the checkpoint interval
+ * has passed since the last checkpoint, including after the first save.
+ * Only one save is in flight at a time: a change made during a save
+ * schedules another save after it.
+ */
+export
+class AutosaveManager implements IDisposable {
+  /**
+   * Construct a new autosave manager.
+   *
+   * @param options - The options used to create the manager.
+   */
+  constructor(options: AutosaveManager.IOptions) {
+    this._manager = options.manager;
+    this._path = options.path;
+    this._getModel = options.getModel;
+    this._saveInterval = (
+      options.saveInterval || AutosaveManager.DEFAULT_SAVE_INTERVAL
+    );
+    this._checkpointInterval = (
+      options.checkpointInterval || AutosaveManager.DEFAULT_CHECKPOINT_INTERVAL
+    );
+    this._maxCheckpoints = (
+      options.maxCheckpoints || AutosaveManager.DEFAULT_MAX_CHECKPOINTS
+    );
+  }
+
+  /**
+   * A signal emitted when the dirty state of the file changes.
+   */
+  dirtyChanged: ISignal<AutosaveManager, boolean>;
+
+  /**
+   * A signal emitted when the file is saved.
+   */
+  saved: ISignal<AutosaveManager, Contents.IModel>;
+
+  /**
+   * A signal emitted when a save or a checkpoint fails.
+   */
+  saveFailed: ISignal<AutosaveManager, Error>;
+
+  /**
+   * The path of the file.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get path(): string {
+    return this._path;
+  }
+
+  /**
+   * Whether the file has changes which are not saved.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDirty(): boolean {
+    return this._isDirty;
+  }
+
+  /**
+   * Whether a save is in flight.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isSaving(): boolean {
+    return this._saving !== null;
+  }
+
+  /**
+   * Test whether the manager is disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Dispose of the resources used by the manager.
+   *
+   * #### Notes
+   * Unsaved changes are not saved, and a save which is waiting for the
+   * save in flight is cancelled.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    clearTimeout(this._timer);
+    this._timer = -1;
+    clearSignalData(this);
+  }
+
+  /**
+   * Mark the file as changed, and schedule a save.
+   *
+   * #### Notes
+   * The save is delayed by the save interval after the last change.
+   */
+  markDirty(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._changes++;
+    this._setDirty(true);
+    this._schedule();
+  }
+
+  /**
+   * Save the file now.
+   *
+   * @returns A promise which resolves with the saved model.
+   *
+   * #### Notes
+   * If a save is in flight, the file is saved again after it.  The calls
+   * made during a save share that next save.
+   *
+   * The promise is rejected if the manager is disposed.
+   */
+  save(): Promise<Contents.IModel> {
+    if (this.isDisposed) {
+      return Promise.reject(new Error('Autosave manager is disposed'));
+    }
+    clearTimeout(this._timer);
+    if (this._saving) {
+      if (!this._pending) {
+        let next = () => {
+          this._pending = null;
+          return this.save();
+        };
+        this._pending = this._saving.then(next, next);
+      }
+      return this._pending;
+    }
+    let changes = this._changes;
+    let saving = Promise.resolve(void 0).then(() => {
+      return this._manager.save(this._path, this._getModel());
+    }).then(model => {
+      if (this._changes === changes) {
+        this._setDirty(false);
+      }
+      if (!this.isDisposed) {
+        this.saved.emit(model);
+      }
+      return this._maybeCheckpoint().then(() => model, error => {
+        // The file is saved even if the checkpoint fails.
+        if (!this.isDisposed) {
+          this.saveFailed.emit(error);
+        }
+        return model;
+      });
+    });
+    this._saving = saving;
+    saving.then(() => this._finishSave(), () => this._finishSave());
+    return saving.catch((error): Contents.IModel => {
+      if (!this.isDisposed) {
+        this.saveFailed.emit(error);
+      }
+      throw error;
+    });
+  }
+
+  /**
+   * Create a checkpoint of the file, and delete the old checkpoints.
+   *
+   * @returns A promise which resolves with the new checkpoint.
+   *
+   * #### Notes
+   * The newest `maxCheckpoints` checkpoints are kept.
+   *
+   * The promise is rejected if the manager is disposed.
+   */
+  checkpoint(): Promise<Contents.ICheckpointModel> {
+    if (this.isDisposed) {
+      return Promise.reject(new Error('Autosave manager is disposed'));
+    }
+    let path = this._path;
+    let manager = this._manager;
+    this._lastCheckpoint = Date.now();
+    return manager.createCheckpoint(path).then(checkpoint => {
+      return manager.listCheckpoints(path).then(checkpoints => {
+        let old = Private.sortCheckpoints(checkpoints).slice(
+          0, Math.max(checkpoints.length - this._maxCheckpoints, 0)
+        );
+        let chain = Promise.resolve(void 0);
+        for (let model of old) {
+          chain = chain.then(() => manager.deleteCheckpoint(path, model.id));
+        }
+        return chain;
+      }).then(() => checkpoint as Contents.ICheckpointModel);
+    });
+  }
+
+  /**
+   * Set the dirty state, and emit the change.
+   */
+  private _setDirty(value: boolean): void {
+    if (this._isDirty === value) {
+      return;
+    }
+    this._isDirty = value;
+    if (!this.isDisposed) {
+      this.dirtyChanged.emit(value);
+    }
+  }
+
+  /**
+   * Schedule a save after the save interval.
+   */
+  private _schedule(): void {
+    clearTimeout(this._timer);
+    this._timer = setTimeout(() => {
+      // A save in flight schedules the next save when it finishes.
+      if (!this._saving && !this.isDisposed) {
+        this.save().catch(() => { /* no-op */ });
+      }
+    }, this._saveInterval);
+  }
+
+  /**
+   * Finish a save, and schedule a save for the changes made during it.
+   *
+   * #### Notes
+   * No save is scheduled if a save was requested during the save.
+   */
+  private _finishSave(): void {
+    this._saving = null;
+    if (this._isDirty && !this._pending && !this.isDisposed) {
+      this._schedule();
+    }
+  }
+
+  /**
+   * Create a checkpoint if the checkpoint interval has passed.
+   */
+  private _maybeCheckpoint(): Promise<void> {
+    if (this.isDisposed) {
+      return Promise.resolve(void 0);
+    }
+    if (Date.now() - this._lastCheckpoint < this._checkpointInterval) {
+      return Promise.resolve(void 0);
+    }
+    return this.checkpoint().then(() => void 0);
+  }
+
+  private _manager: Contents.IManager;
+  private _path: string;
+  private _getModel: () => Contents.IModel;
+  private _saveInterval: number;
+  private _checkpointInterval: number;
+  private _maxCheckpoints: number;
+  private _lastCheckpoint = 0;
+  private _changes = 0;
+  private _isDirty = false;
+  private _isDisposed = false;
+  private _saving: Promise<Contents.IModel> = null;
+  private _pending: Promise<Contents.IModel> = null;
+  private _timer = -1;
+}
+
+
+// Define the signals for the `AutosaveManager` class.
+defineSignal(AutosaveManager.prototype, 'dirtyChanged');
+defineSignal(AutosaveManager.prototype, 'saved');
+defineSignal(AutosaveManager.prototype, 'saveFailed');
+
+
+/**
+ * The namespace for `AutosaveManager` class statics.
+ */
+export
+namespace AutosaveManager {
+  /**
+   * The options used to create an autosave manager.
+   */
+  export
+  interface IOptions {
+    /**
+     * The contents manager used to save the file.
+     */
+    manager: Contents.IManager;
+
+    /**
+     * The path of the file.
+     */
+    path: string;
+
+    /**
+     * A function which gives the model to save, with its content.
+     */
+    getModel: () => Contents.IModel;
+
+    /**
+     * The time in milliseconds after the last change before the file is
+     * saved.
+     *
+     * #### Notes
+     * Defaults to [[DEFAULT_SAVE_INTERVAL]].
+     */
+    saveInterval?: number;
+
+    /**
+     * The minimum time in milliseconds between checkpoints.
+     *
+     * #### Notes
+     * Defaults to [[DEFAULT_CHECKPOINT_INTERVAL]].
+     */
+    checkpointInterval?: number;
+
+    /**
+     * The number of checkpoints to keep.
+     *
+     * #### Notes
+     * Defaults to [[DEFAULT_MAX_CHECKPOINTS]].
+     */
+    maxCheckpoints?: number;
+  }
+
+  /**
+   * The default time after the last change before the file is saved.
+   */
+  export
+  const DEFAULT_SAVE_INTERVAL = 2000;
+
+  /**
+   * The default minimum time between checkpoints.
+   */
+  export
+  const DEFAULT_CHECKPOINT_INTERVAL = 5 * 60 * 1000;
+
+  /**
+   * The default number of checkpoints to keep.
+   */
+  export
+  const DEFAULT_MAX_CHECKPOINTS = 10;
+}
+
+
+/**
+ * A namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Sort checkpoints from the oldest to the newest.
+   *
+   * #### Notes
+   * Checkpoints with the same timestamp keep their order.
+   */
+  export
+  function sortCheckpoints(checkpoints: Contents.ICheckpointModel[]): Contents.ICheckpointModel[] {
+    let entries = checkpoints.map((model, index) => {
+      return { model, index, time: Date.parse(model.last_modified) || 0 };
+    });
+    entries.sort((a, b) => (a.time - b.time) || (a.index - b.index));
+    return entries.map(entry => entry.model);
+  }
+}
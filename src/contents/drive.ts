@@ -0,0 +1,55 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+
+/**
+ * The pattern of a drive prefix, such as `'drive:'`.
+ *
+ * #### Notes
+ * A drive name does not contain `/` or `:`, and the prefix is not
+ * followed by `//`, so that urls are not mistaken for drive paths.
+ */
+const DRIVE_PATTERN = /^([^\/:]+):(?!\/\/)/;
+
+
+/**
+ * Get the name of the drive of a path.
+ *
+ * @param path - A path, which may have a drive prefix.
+ *
+ * @returns The name of the drive, or an empty string for a path without
+ *   a drive prefix.
+ */
+export
+function driveName(path: string): string {
+  let match = path.match(DRIVE_PATTERN);
+  return match ? match[1] : '';
+}
+
+
+/**
+ * Get the path of a file within its drive.
+ *
+ * @param path - A path, which may have a drive prefix.
+ *
+ * @returns The path without the drive prefix.
+ */
+export
+function localPath(path: string): string {
+  return path.replace(DRIVE_PATTERN, '');
+}
+
+
+/**
+ * Add a drive prefix to a path within the drive.
+ *
+ * @param drive - The name of the drive, or an empty string for no drive.
+ *
+ * @param path - The path within the drive.
+ *
+ * @returns The path with the drive prefix.
+ */
+export
+function globalPath(drive: string, path: string): string {
+  return drive ? `${drive}:${path}` : path;
+}
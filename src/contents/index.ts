@@ -8,16 +8,56 @@ import {
   JSONObject
 } from 'phosphor/lib/algorithm/json';
 
+import {
+  DisposableDelegate, IDisposable
+} from 'phosphor/lib/core/disposable';
+
+import {
+  ISignal, defineSignal
+} from 'phosphor/lib/core/signaling';
+
+import {
+  ConflictError, ResponseError
+} from '../errors';
+
 import * as utils
   from '../utils';
 
 import {
-  IAjaxSettings
+  BinaryData, CancellationToken, IAjaxSettings, IRequestOptions
 } from '../utils';
 
+import * as drives
+  from './drive';
+
+import {
+  nbformat
+} from './nbformat';
+
+import {
+  downloadTree
+} from './tree';
+
+import {
+  upgradeNotebook
+} from './upgrade';
+
+import {
+  uploadChunks
+} from './upload';
+
 import * as validate
   from './validate';
 
+import {
+  ZipWriter
+} from './zip';
+
+export * from './autosave';
+export * from './nbformat';
+export * from './tree';
+export * from './upgrade';
+
 
 /**
  * The url for the contents service.
@@ -96,6 +136,28 @@ namespace Contents {
      * Only relevant for type: 'file'
      */
     format?: FileFormat;
+
+    /**
+     * The number of the chunk of the file `content` being saved.
+     *
+     * #### Notes
+     * Chunks are numbered from `1`, and the last chunk is `-1`.  The
+     * first chunk creates the file and later chunks are appended to it.
+     * Only relevant for saving a file in chunks, see
+     * [[ContentsManager.upload]].
+     */
+    chunk?: number;
+  }
+
+  /**
+   * A contents model of a notebook, with its typed content.
+   */
+  export
+  interface INotebookModel extends IModel {
+    /**
+     * The content of the notebook.
+     */
+    content?: nbformat.INotebookContent;
   }
 
   /**
@@ -158,6 +220,115 @@ namespace Contents {
     type?: FileType;
   }
 
+  /**
+   * The options used to upload a file.
+   */
+  export
+  interface IUploadOptions {
+    /**
+     * The number of bytes in each chunk of the file.
+     *
+     * #### Notes
+     * Defaults to [[ContentsManager.DEFAULT_CHUNK_SIZE]].
+     */
+    chunkSize?: number;
+
+    /**
+     * The number of the chunk from which to start the upload.
+     * Defaults to `1`.
+     *
+     * #### Notes
+     * This is used to resume a failed upload after the last chunk
+     * reported to [[onProgress]].
+     */
+    startChunk?: number;
+
+    /**
+     * A function called with the progress of the upload after each
+     * chunk is saved.
+     */
+    onProgress?: (progress: IUploadProgress) => void;
+
+    /**
+     * The optional token used to cancel the upload.
+     */
+    cancelToken?: CancellationToken;
+  }
+
+  /**
+   * The options used to save a file.
+   */
+  export
+  interface ISaveOptions extends IRequestOptions {
+    /**
+     * The `last_modified` timestamp of the file when it was loaded, to
+     * only save the file if it is unchanged.
+     *
+     * #### Notes
+     * A file which was changed or deleted since the timestamp is not
+     * saved, and the save is rejected with a [[ConflictError]].
+     */
+    lastModified?: string;
+  }
+
+  /**
+   * The type of a change of a file.
+   */
+  export
+  type ChangeType = 'created' | 'modified' | 'deleted';
+
+  /**
+   * The arguments of the `fileChanged` signal of a contents manager.
+   */
+  export
+  interface IChangedArgs {
+    /**
+     * The type of the change.
+     */
+    type: ChangeType;
+
+    /**
+     * The path of the changed file.
+     */
+    path: string;
+
+    /**
+     * The model of the file without content, or `null` if it was deleted.
+     */
+    model: IModel;
+  }
+
+  /**
+   * The progress of a file upload.
+   */
+  export
+  interface IUploadProgress extends JSONObject {
+    /**
+     * The path of the uploaded file.
+     */
+    path: string;
+
+    /**
+     * The number of the last chunk saved, starting at `1`.
+     */
+    chunk: number;
+
+    /**
+     * The total number of chunks.
+     */
+    chunks: number;
+
+    /**
+     * The number of bytes saved.
+     */
+    loaded: number;
+
+    /**
+     * The total number of bytes in the file.
+     */
+    total: number;
+  }
+
   /**
    * Checkpoint model.
    */
@@ -186,9 +357,12 @@ namespace Contents {
      *
      * @param options: The options used to fetch the file.
      *
+     * @param requestOptions - The optional token used to cancel the
+     *   request, and function called with the progress of the request.
+     *
      * @returns A promise which resolves with the file content.
      */
-    get(path: string, options?: IFetchOptions): Promise<IModel>;
+    get(path: string, options?: IFetchOptions, requestOptions?: IRequestOptions): Promise<IModel>;
 
     /**
      * Get an encoded download url given a file path.
@@ -202,19 +376,23 @@ namespace Contents {
      *
      * @param options: The options used to create the file.
      *
+     * @param cancelToken - The optional token used to cancel the request.
+     *
      * @returns A promise which resolves with the created file content when the
      *    file is created.
      */
-    newUntitled(options?: ICreateOptions): Promise<IModel>;
+    newUntitled(options?: ICreateOptions, cancelToken?: CancellationToken): Promise<IModel>;
 
     /**
      * Delete a file.
      *
      * @param path - The path to the file.
      *
+     * @param cancelToken - The optional token used to cancel the request.
+     *
      * @returns A promise which resolves when the file is deleted.
      */
-    delete(path: string): Promise<void>;
+    delete(path: string, cancelToken?: CancellationToken): Promise<void>;
 
     /**
      * Rename a file or directory.
@@ -223,10 +401,12 @@ namespace Contents {
      *
      * @param newPath - The new file path.
      *
+     * @param cancelToken - The optional token used to cancel the request.
+     *
      * @returns A promise which resolves with the new file content model when the
      *   file is renamed.
      */
-    rename(path: string, newPath: string): Promise<IModel>;
+    rename(path: string, newPath: string, cancelToken?: CancellationToken): Promise<IModel>;
 
     /**
      * Save a file.
@@ -235,10 +415,26 @@ namespace Contents {
      *
      * @param options - Optional overrrides to the model.
      *
+     * @param saveOptions - The optional options used to save the file.
+     *
      * @returns A promise which resolves with the file content model when the
      *   file is saved.
      */
-    save(path: string, options?: IModel): Promise<IModel>;
+    save(path: string, options?: IModel, saveOptions?: ISaveOptions): Promise<IModel>;
+
+    /**
+     * Upload binary data to a file in chunks.
+     *
+     * @param path - The desired file path.
+     *
+     * @param data - The binary data of the file.
+     *
+     * @param options - The options used to upload the file.
+     *
+     * @returns A promise which resolves with the file content model when the
+     *   last chunk is saved.
+     */
+    upload(path: string, data: BinaryData, options?: IUploadOptions): Promise<IModel>;
 
     /**
      * Copy a file into a given directory.
@@ -247,30 +443,36 @@ namespace Contents {
      *
      * @param toDir - The destination directory path.
      *
+     * @param cancelToken - The optional token used to cancel the request.
+     *
      * @returns A promise which resolves with the new content model when the
      *  file is copied.
      */
-    copy(path: string, toDir: string): Promise<IModel>;
+    copy(path: string, toDir: string, cancelToken?: CancellationToken): Promise<IModel>;
 
     /**
      * Create a checkpoint for a file.
      *
      * @param path - The path of the file.
      *
+     * @param cancelToken - The optional token used to cancel the request.
+     *
      * @returns A promise which resolves with the new checkpoint model when the
      *   checkpoint is created.
      */
-    createCheckpoint(path: string): Promise<IModel>;
+    createCheckpoint(path: string, cancelToken?: CancellationToken): Promise<IModel>;
 
     /**
      * List available checkpoints for a file.
      *
      * @param path - The path of the file.
      *
+     * @param cancelToken - The optional token used to cancel the request.
+     *
      * @returns A promise which resolves with a list of checkpoint models for
      *    the file.
      */
-    listCheckpoints(path: string): Promise<ICheckpointModel[]>;
+    listCheckpoints(path: string, cancelToken?: CancellationToken): Promise<ICheckpointModel[]>;
 
     /**
      * Restore a file to a known checkpoint state.
@@ -279,9 +481,11 @@ namespace Contents {
      *
      * @param checkpointID - The id of the checkpoint to restore.
      *
+     * @param cancelToken - The optional token used to cancel the request.
+     *
      * @returns A promise which resolves when the checkpoint is restored.
      */
-    restoreCheckpoint(path: string, checkpointID: string): Promise<void>;
+    restoreCheckpoint(path: string, checkpointID: string, cancelToken?: CancellationToken): Promise<void>;
 
     /**
      * Delete a checkpoint for a file.
@@ -290,15 +494,37 @@ namespace Contents {
      *
      * @param checkpointID - The id of the checkpoint to delete.
      *
+     * @param cancelToken - The optional token used to cancel the request.
+     *
      * @returns A promise which resolves when the checkpoint is deleted.
      */
-    deleteCheckpoint(path: string, checkpointID: string): Promise<void>;
+    deleteCheckpoint(path: string, checkpointID: string, cancelToken?: CancellationToken): Promise<void>;
 
     /**
      * Optional default settings for ajax requests, if applicable.
      */
     ajaxSettings?: IAjaxSettings;
   }
+
+  /**
+   * A drive which provides contents for the paths with its prefix.
+   *
+   * #### Notes
+   * A drive is added to a [[ContentsManager]], which passes the paths
+   * with the `'name:'` prefix of the drive to the drive, without the
+   * prefix.  The paths of the models given by the drive are relative to
+   * the drive.
+   */
+  export
+  interface IDrive extends IManager {
+    /**
+     * The name of the drive.
+     *
+     * #### Notes
+     * The name cannot contain `/` or `:`.
+     */
+    name: string;
+  }
 }
 
 
@@ -306,6 +532,10 @@ namespace Contents {
  * A contents manager that passes file operations to the server.
  *
  * This includes checkpointing with the normal file operations.
+ *
+ * #### Notes
+ * Paths with the prefix of an added drive, such as `'drive:path/to/file'`,
+ * are passed to the drive instead of the server.  See [[addDrive]].
  */
 export
 class ContentsManager implements Contents.IManager {
@@ -333,6 +563,79 @@ class ContentsManager implements Contents.IManager {
     this._ajaxSettings = utils.copy(value);
   }
 
+  /**
+   * A signal emitted when a file is changed.
+   *
+   * #### Notes
+   * This is emitted for the changes made by the manager, and for the
+   * changes of the watched files, see [[watch]].
+   */
+  fileChanged: ISignal<ContentsManager, Contents.IChangedArgs>;
+
+  /**
+   * Watch a file or directory for changes.
+   *
+   * @param path - The path of the file.
+   *
+   * @param options - The options used to watch the file.
+   *
+   * @returns A disposable which stops the watch.
+   *
+   * #### Notes
+   * The file is polled with `get(path, { content: false })`, and the
+   * [[fileChanged]] signal is emitted when the file is created, deleted
+   * or has a new `last_modified` timestamp.  The polling interval is
+   * doubled up to the `maxInterval` while the file is unchanged, and is
+   * reset when the file changes.  A failed poll is retried at the next
+   * interval.
+   */
+  watch(path: string, options: ContentsManager.IWatchOptions = {}): IDisposable {
+    let interval = options.interval || ContentsManager.WATCH_INTERVAL;
+    let watch: Private.IWatch = {
+      path: Private.normalizePath(path),
+      model: void 0,
+      interval,
+      minInterval: interval,
+      maxInterval: Math.max(
+        options.maxInterval || ContentsManager.MAX_WATCH_INTERVAL, interval
+      ),
+      timer: null
+    };
+    this._watches.push(watch);
+    this._poll(watch);
+    return new DisposableDelegate(() => {
+      let index = this._watches.indexOf(watch);
+      if (index !== -1) {
+        this._watches.splice(index, 1);
+        clearTimeout(watch.timer);
+      }
+    });
+  }
+
+  /**
+   * Add a drive to the contents manager.
+   *
+   * @param drive - The drive to add.
+   *
+   * @returns A disposable which removes the drive.
+   *
+   * #### Notes
+   * An added drive replaces a drive with the same name.  Paths with the
+   * prefix of a drive which is not added are passed to the server.
+   */
+  addDrive(drive: Contents.IDrive): IDisposable {
+    let name = drive.name;
+    if (!name || drives.driveName(`${name}:`) !== name) {
+      throw new Error(`Invalid drive name: '${name}'`);
+    }
+    this._drives[name] = drive;
+    return new DisposableDelegate(() => {
+      if (this._drives[name] === drive) {
+        delete this._drives[name];
+      }
+    });
+  }
+
   /**
    * Get a file or directory.
    *
@@ -340,11 +643,22 @@ class ContentsManager implements Contents.IManager {
    *
    * @param options: The options used to fetch the file.
    *
+   * @param requestOptions - The optional token used to cancel the
+   *   request, and function called with the progress of the request.
+   *
    * @returns A promise which resolves with the file content.
    *
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents) and validates the response model.
    */
-  get(path: string, options?: Contents.IFetchOptions): Promise<Contents.IModel> {
+  get(path: string, options?: Contents.IFetchOptions, requestOptions?: IRequestOptions): Promise<Contents.IModel> {
+    requestOptions = requestOptions || {};
+    let drive = this._getDrive(path);
+    if (drive) {
+      let local = Private.toLocalPath(path);
+      return drive.get(local, options, requestOptions).then(model => {
+        return Private.toGlobalModel(drive, model);
+      });
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'GET';
     ajaxSettings.dataType = 'json';
@@ -362,19 +676,44 @@ class ContentsManager implements Contents.IManager {
       url += utils.jsonToQueryString(params);
     }
 
-    return utils.ajaxRequest(url, ajaxSettings).then((success: utils.IAjaxSuccess): Contents.IModel => {
+    return utils.ajaxRequest(url, ajaxSettings, requestOptions).then((success: utils.IAjaxSuccess): Contents.IModel => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
       try {
          validate.validateContentsModel(success.data);
        } catch (err) {
-         return utils.makeAjaxError(success, err.message);
+         return utils.makeValidationError(success, err);
        }
       return success.data;
     });
   }
 
+  /**
+   * Get a notebook with its typed content.
+   *
+   * @param path: The path to the notebook.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves with the notebook model, or rejects
+   *   with a [[ValidationError]] if its content is not a valid notebook.
+   *
+   * #### Notes
+   * The content is upgraded with [[upgradeNotebook]], so that an nbformat
+   * v3 notebook is converted to nbformat v4, and is then validated as an
+   * nbformat v4 notebook.
+   */
+  getNotebook(path: string, cancelToken?: CancellationToken): Promise<Contents.INotebookModel> {
+    let options: Contents.IFetchOptions = { type: 'notebook', content: true };
+    return this.get(path, options, { cancelToken }).then(model => {
+      let content = upgradeNotebook(model.content);
+      validate.validateNotebook(content);
+      model.content = content;
+      return model as Contents.INotebookModel;
+    });
+  }
+
   /**
    * Get an encoded download url given a file path.
    *
@@ -386,6 +725,10 @@ class ContentsManager implements Contents.IManager {
    * path if necessary.
    */
   getDownloadUrl(path: string): string {
+    let drive = this._getDrive(path);
+    if (drive) {
+      return drive.getDownloadUrl(Private.toLocalPath(path));
+    }
     return utils.urlPathJoin(this._baseUrl, FILES_URL,
                              utils.urlEncodeParts(path));
   }
@@ -395,13 +738,23 @@ class ContentsManager implements Contents.IManager {
    *
    * @param options: The options used to create the file.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * @returns A promise which resolves with the created file content when the
    *    file is created.
    *
    * #### Notes
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents) and validates the response model.
    */
-  newUntitled(options: Contents.ICreateOptions = {}): Promise<Contents.IModel> {
+  newUntitled(options: Contents.ICreateOptions = {}, cancelToken?: CancellationToken): Promise<Contents.IModel> {
+    let drive = this._getDrive(options.path || '');
+    if (drive) {
+      let localOptions = utils.copy(options) as Contents.ICreateOptions;
+      localOptions.path = Private.toLocalPath(options.path);
+      return drive.newUntitled(localOptions, cancelToken).then(model => {
+        return this._changed('created', Private.toGlobalModel(drive, model));
+      });
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'POST';
     ajaxSettings.dataType = 'json';
@@ -413,16 +766,16 @@ class ContentsManager implements Contents.IManager {
       ajaxSettings.contentType = 'application/json';
     }
     let url = this._getUrl(options.path || '');
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 201) {
         return utils.makeAjaxError(success);
       }
       try {
         validate.validateContentsModel(success.data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
-      return success.data;
+      return this._changed('created', success.data);
     });
   }
 
@@ -431,26 +784,35 @@ class ContentsManager implements Contents.IManager {
    *
    * @param path - The path to the file.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * @returns A promise which resolves when the file is deleted.
    *
    * #### Notes
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents).
    */
-  delete(path: string): Promise<void> {
+  delete(path: string, cancelToken?: CancellationToken): Promise<void> {
+    let drive = this._getDrive(path);
+    if (drive) {
+      return drive.delete(Private.toLocalPath(path), cancelToken).then(() => {
+        this._changed('deleted', null, path);
+      });
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'DELETE';
     ajaxSettings.dataType = 'json';
 
     let url = this._getUrl(path);
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 204) {
         return utils.makeAjaxError(success);
       }
+      this._changed('deleted', null, path);
     }, error => {
         // Translate certain errors to more specific ones.
         // TODO: update IPEP27 to specify errors more precisely, so
         // that error types can be detected here with certainty.
-        if (error.xhr.status === 400) {
+        if (error.xhr && error.xhr.status === 400) {
           let err = JSON.parse(error.xhr.response);
           if (err.message) {
             error.throwError = err.message;
@@ -468,13 +830,28 @@ class ContentsManager implements Contents.IManager {
    *
    * @param newPath - The new file path.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * @returns A promise which resolves with the new file contents model when
    *   the file is renamed.
    *
    * #### Notes
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents) and validates the response model.
    */
-  rename(path: string, newPath: string): Promise<Contents.IModel> {
+  rename(path: string, newPath: string, cancelToken?: CancellationToken): Promise<Contents.IModel> {
+    let drive = this._getDrive(path);
+    if (drive !== this._getDrive(newPath)) {
+      let message = `Cannot rename between drives: '${path}' to '${newPath}'`;
+      return Promise.reject(new Error(message));
+    }
+    if (drive) {
+      let local = Private.toLocalPath(path);
+      let newLocal = Private.toLocalPath(newPath);
+      return drive.rename(local, newLocal, cancelToken).then(model => {
+        this._changed('deleted', null, path);
+        return this._changed('created', Private.toGlobalModel(drive, model));
+      });
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'PATCH';
     ajaxSettings.dataType = 'json';
@@ -482,16 +859,17 @@ class ContentsManager implements Contents.IManager {
     ajaxSettings.data = JSON.stringify({ path: newPath });
 
     let url = this._getUrl(path);
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
       try {
         validate.validateContentsModel(success.data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
-      return success.data;
+      this._changed('deleted', null, path);
+      return this._changed('created', success.data);
     });
   }
 
@@ -502,34 +880,178 @@ class ContentsManager implements Contents.IManager {
    *
    * @param options - Optional overrrides to the model.
    *
+   * @param saveOptions - The optional options used to save the file.
+   *
    * @returns A promise which resolves with the file content model when the
-   *   file is saved.
+   *   file is saved, or rejects with a [[ConflictError]] if the file was
+   *   changed or deleted since the `lastModified` timestamp.
    *
    * #### Notes
    * Ensure that `model.content` is populated for the file.
    *
+   * The file is checked with `get(path, { content: false })` before it is
+   * saved, so a change made between the two requests is not detected.
+   *
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents) and validates the response model.
    */
-  save(path: string, options: Contents.IModel = {}): Promise<Contents.IModel> {
-    let ajaxSettings = this.ajaxSettings;
-    ajaxSettings.method = 'PUT';
-    ajaxSettings.dataType = 'json';
-    ajaxSettings.data = JSON.stringify(options);
-    ajaxSettings.contentType = 'application/json';
-    ajaxSettings.cache = false;
+  save(path: string, options: Contents.IModel = {}, saveOptions?: Contents.ISaveOptions): Promise<Contents.IModel> {
+    saveOptions = saveOptions || {};
+    let lastModified = saveOptions.lastModified;
+    let cancelToken = saveOptions.cancelToken;
+    let onProgress = saveOptions.onProgress;
+    if (lastModified !== void 0) {
+      let fetchOptions: Contents.IFetchOptions = { content: false };
+      return this.get(path, fetchOptions, { cancelToken }).catch(error => {
+        if (error instanceof ResponseError && error.status === 404) {
+          return null;
+        }
+        throw error;
+      }).then(current => {
+        if (!current || Private.isModified(current, lastModified)) {
+          throw new ConflictError(path, options, current);
+        }
+        return this.save(path, options, { cancelToken, onProgress });
+      });
+    }
+    let changed = (model: Contents.IModel) => {
+      // Only the last chunk of a file saved in chunks changes the file.
+      return options.chunk > 0 ? model : this._changed('modified', model);
+    };
+    let drive = this._getDrive(path);
+    if (drive) {
+      let local = Private.toLocalPath(path);
+      return drive.save(local, options, { cancelToken, onProgress }).then(model => {
+        return changed(Private.toGlobalModel(drive, model));
+      });
+    }
+    return this._save(path, options, this.ajaxSettings, { cancelToken, onProgress }).then(changed);
+  }
 
-    let url = this._getUrl(path);
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
-      // will return 200 for an existing file and 201 for a new file
-      if (success.xhr.status !== 200 && success.xhr.status !== 201) {
-        return utils.makeAjaxError(success);
+  /**
+   * Save the typed content of a notebook.
+   *
+   * @param path - The desired notebook path.
+   *
+   * @param content - The content of the notebook.
+   *
+   * @param saveOptions - The optional options used to save the notebook.
+   *
+   * @returns A promise which resolves with the notebook model when it is
+   *   saved, or rejects with a [[ValidationError]] if the content is not
+   *   a valid notebook.
+   *
+   * #### Notes
+   * The content is validated as an nbformat v4 notebook before it is
+   * saved, see [[save]].
+   */
+  saveNotebook(path: string, content: nbformat.INotebookContent, saveOptions?: Contents.ISaveOptions): Promise<Contents.INotebookModel> {
+    return Promise.resolve(void 0).then(() => {
+      validate.validateNotebook(content);
+      let model: Contents.INotebookModel = {
+        type: 'notebook', format: 'json', content
+      };
+      return this.save(path, model, saveOptions);
+    });
+  }
+
+  /**
+   * Upload binary data to a file in chunks.
+   *
+   * @param path - The desired file path.
+   *
+   * @param data - The binary data of the file.
+   *
+   * @param options - The options used to upload the file.
+   *
+   * @returns A promise which resolves with the file content model when the
+   *   last chunk is saved.
+   *
+   * #### Notes
+   * The data is saved as base64 chunks of `chunkSize` bytes.  Data which
+   * fits in a single chunk is saved without a `chunk` number.
+   *
+   * A failed upload can be resumed by passing the chunk after the last
+   * chunk reported to `onProgress` as the `startChunk`.  Chunks after the
+   * first are appended to the file, so they are not retried by the
+   * `retryPolicy`.
+   *
+   * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents) and validates the response model.
+   */
+  upload(path: string, data: BinaryData, options: Contents.IUploadOptions = {}): Promise<Contents.IModel> {
+    let drive = this._getDrive(path);
+    if (drive) {
+      let localOptions = utils.copyOptions(options);
+      if (options.onProgress) {
+        localOptions.onProgress = progress => {
+          progress.path = path;
+          options.onProgress(progress);
+        };
       }
-      try {
-        validate.validateContentsModel(success.data);
-      } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+      let local = Private.toLocalPath(path);
+      return drive.upload(local, data, localOptions).then(model => {
+        return this._changed('modified', Private.toGlobalModel(drive, model));
+      });
+    }
+    let cancelToken = options.cancelToken;
+    return uploadChunks(path, data, options, (model, chunk) => {
+      let ajaxSettings = this.ajaxSettings;
+      if (chunk > 1) {
+        ajaxSettings.retryPolicy = null;
       }
-      return success.data;
+      return this._save(path, model, ajaxSettings, { cancelToken });
+    }).then(model => {
+      return this._changed('modified', model);
+    });
+  }
+
+  /**
+   * Archive a directory as a zip file.
+   *
+   * @param path - The path of the directory.
+   *
+   * @param cancelToken - The optional token used to cancel the requests.
+   *
+   * @returns A promise which resolves with the bytes of the zip file.
+   *
+   * #### Notes
+   * The entries of the archive are placed in a directory named after
+   * the archived directory.  Notebooks are stored as JSON, and other
+   * files are stored as text or binary data according to their format.
+   *
+   * The promise is rejected with the first error if any file of the
+   * directory cannot be fetched.
+   *
+   * The bytes can be wrapped in a `Blob` to be downloaded in a browser,
+   * using `new Blob([buffer], { type: 'application/zip' })`.
+   *
+   * Each file is added to the archive as soon as it is downloaded, so
+   * the models of the files are not all held at once.  The archive is
+   * still built in memory, so the memory used grows with the total size
+   * of the files, which cannot exceed the 4 GiB limit of a zip archive.
+   */
+  archive(path: string, cancelToken?: CancellationToken): Promise<ArrayBuffer> {
+    let root = ContentsManager.getAbsolutePath(path);
+    let name = ContentsManager.basename(root);
+    let writer = new ZipWriter();
+    let onEntry = (model: Contents.IModel) => {
+      let relative = posix.relative(
+        `/${drives.localPath(root)}`, `/${drives.localPath(model.path)}`
+      );
+      let entryPath = posix.join(name, relative);
+      if (model.type === 'directory') {
+        entryPath += '/';
+      }
+      writer.add({
+        path: entryPath,
+        data: Private.getBytes(model),
+        date: Private.getDate(model)
+      });
+    };
+    return downloadTree(this, path, { cancelToken, onEntry }).then(result => {
+      if (result.errors.length) {
+        throw result.errors[0].error;
+      }
+      return writer.finish();
     });
   }
 
@@ -540,6 +1062,8 @@ class ContentsManager implements Contents.IManager {
    *
    * @param toDir - The destination directory path.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * @returns A promise which resolves with the new contents model when the
    *  file is copied.
    *
@@ -548,7 +1072,19 @@ class ContentsManager implements Contents.IManager {
    *
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents) and validates the response model.
    */
-  copy(fromFile: string, toDir: string): Promise<Contents.IModel> {
+  copy(fromFile: string, toDir: string, cancelToken?: CancellationToken): Promise<Contents.IModel> {
+    let drive = this._getDrive(fromFile);
+    if (drive !== this._getDrive(toDir)) {
+      let message = `Cannot copy between drives: '${fromFile}' to '${toDir}'`;
+      return Promise.reject(new Error(message));
+    }
+    if (drive) {
+      let local = Private.toLocalPath(fromFile);
+      let localDir = Private.toLocalPath(toDir);
+      return drive.copy(local, localDir, cancelToken).then(model => {
+        return this._changed('created', Private.toGlobalModel(drive, model));
+      });
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'POST';
     ajaxSettings.data = JSON.stringify({ copy_from: fromFile });
@@ -556,16 +1092,16 @@ class ContentsManager implements Contents.IManager {
     ajaxSettings.dataType = 'json';
 
     let url = this._getUrl(toDir);
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 201) {
         return utils.makeAjaxError(success);
       }
       try {
         validate.validateContentsModel(success.data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
-      return success.data;
+      return this._changed('created', success.data);
     });
   }
 
@@ -574,26 +1110,32 @@ class ContentsManager implements Contents.IManager {
    *
    * @param path - The path of the file.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * @returns A promise which resolves with the new checkpoint model when the
    *   checkpoint is created.
    *
    * #### Notes
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents) and validates the response model.
    */
-  createCheckpoint(path: string): Promise<Contents.ICheckpointModel> {
+  createCheckpoint(path: string, cancelToken?: CancellationToken): Promise<Contents.ICheckpointModel> {
+    let drive = this._getDrive(path);
+    if (drive) {
+      return drive.createCheckpoint(Private.toLocalPath(path), cancelToken);
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'POST';
     ajaxSettings.dataType = 'json';
 
     let url = this._getUrl(path, 'checkpoints');
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 201) {
         return utils.makeAjaxError(success);
       }
       try {
         validate.validateCheckpointModel(success.data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
       return success.data;
     });
@@ -604,20 +1146,26 @@ class ContentsManager implements Contents.IManager {
    *
    * @param path - The path of the file.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * @returns A promise which resolves with a list of checkpoint models for
    *    the file.
    *
    * #### Notes
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents) and validates the response model.
    */
-  listCheckpoints(path: string): Promise<Contents.ICheckpointModel[]> {
+  listCheckpoints(path: string, cancelToken?: CancellationToken): Promise<Contents.ICheckpointModel[]> {
+    let drive = this._getDrive(path);
+    if (drive) {
+      return drive.listCheckpoints(Private.toLocalPath(path), cancelToken);
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'GET';
     ajaxSettings.dataType = 'json';
     ajaxSettings.cache = false;
 
     let url = this._getUrl(path, 'checkpoints');
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
@@ -628,7 +1176,7 @@ class ContentsManager implements Contents.IManager {
         try {
         validate.validateCheckpointModel(success.data[i]);
         } catch (err) {
-          return utils.makeAjaxError(success, err.message);
+          return utils.makeValidationError(success, err);
         }
       }
       return success.data;
@@ -642,18 +1190,25 @@ class ContentsManager implements Contents.IManager {
    *
    * @param checkpointID - The id of the checkpoint to restore.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * @returns A promise which resolves when the checkpoint is restored.
    *
    * #### Notes
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents).
    */
-  restoreCheckpoint(path: string, checkpointID: string): Promise<void> {
+  restoreCheckpoint(path: string, checkpointID: string, cancelToken?: CancellationToken): Promise<void> {
+    let drive = this._getDrive(path);
+    if (drive) {
+      let local = Private.toLocalPath(path);
+      return drive.restoreCheckpoint(local, checkpointID, cancelToken);
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'POST';
     ajaxSettings.dataType = 'json';
 
     let url = this._getUrl(path, 'checkpoints', checkpointID);
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 204) {
         return utils.makeAjaxError(success);
       }
@@ -668,24 +1223,115 @@ class ContentsManager implements Contents.IManager {
    *
    * @param checkpointID - The id of the checkpoint to delete.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * @returns A promise which resolves when the checkpoint is deleted.
    *
    * #### Notes
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/contents).
    */
-  deleteCheckpoint(path: string, checkpointID: string): Promise<void> {
+  deleteCheckpoint(path: string, checkpointID: string, cancelToken?: CancellationToken): Promise<void> {
+    let drive = this._getDrive(path);
+    if (drive) {
+      let local = Private.toLocalPath(path);
+      return drive.deleteCheckpoint(local, checkpointID, cancelToken);
+    }
     let ajaxSettings = this.ajaxSettings;
     ajaxSettings.method = 'DELETE';
     ajaxSettings.dataType = 'json';
 
     let url = this._getUrl(path, 'checkpoints', checkpointID);
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 204) {
         return utils.makeAjaxError(success);
       }
     });
   }
 
+  /**
+   * Save a file model using the given ajax settings and request options.
+   */
+  private _save(path: string, model: Contents.IModel, ajaxSettings: IAjaxSettings, requestOptions: utils.IRequestOptions): Promise<Contents.IModel> {
+    ajaxSettings.method = 'PUT';
+    ajaxSettings.dataType = 'json';
+    ajaxSettings.data = JSON.stringify(model);
+    ajaxSettings.contentType = 'application/json';
+    ajaxSettings.cache = false;
+
+    let url = this._getUrl(path);
+    return utils.ajaxRequest(url, ajaxSettings, requestOptions).then(success => {
+      // will return 200 for an existing file and 201 for a new file
+      if (success.xhr.status !== 200 && success.xhr.status !== 201) {
+        return utils.makeAjaxError(success);
+      }
+      try {
+        validate.validateContentsModel(success.data);
+      } catch (err) {
+        return utils.makeValidationError(success, err);
+      }
+      return success.data;
+    });
+  }
+
+  /**
+   * Emit the [[fileChanged]] signal for a change made by the manager.
+   *
+   * @returns The model of the changed file.
+   *
+   * #### Notes
+   * The watches of the path are updated, so that they do not report the
+   * change again.
+   */
+  private _changed(type: Contents.ChangeType, model: Contents.IModel, path = model.path): Contents.IModel {
+    path = Private.normalizePath(path);
+    for (let watch of this._watches) {
+      if (watch.path === path) {
+        watch.model = model;
+      }
+    }
+    this.fileChanged.emit({ type, path, model });
+    return model;
+  }
+
+  /**
+   * Poll a watched file, and schedule the next poll.
+   */
+  private _poll(watch: Private.IWatch): void {
+    let options: Contents.IFetchOptions = { content: false };
+    this.get(watch.path, options).catch(error => {
+      if (error instanceof ResponseError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }).then(model => {
+      if (this._watches.indexOf(watch) === -1) {
+        return;
+      }
+      let type = Private.getChangeType(watch.model, model);
+      watch.model = model;
+      if (type) {
+        watch.interval = watch.minInterval;
+        this.fileChanged.emit({ type, path: watch.path, model });
+      } else {
+        watch.interval = Math.min(watch.interval * 2, watch.maxInterval);
+      }
+    }, () => {
+      watch.interval = Math.min(watch.interval * 2, watch.maxInterval);
+    }).then(() => {
+      if (this._watches.indexOf(watch) !== -1) {
+        watch.timer = setTimeout(() => this._poll(watch), watch.interval);
+      }
+    });
+  }
+
+  /**
+   * Get the added drive for a path, or `null` for a server path.
+   */
+  private _getDrive(path: string): Contents.IDrive {
+    let name = drives.driveName(path);
+    return (name && this._drives[name]) || null;
+  }
+
   /**
    * Get a REST url for a file given a path.
    */
@@ -697,9 +1343,15 @@ class ContentsManager implements Contents.IManager {
 
   private _baseUrl = '';
   private _ajaxSettings: IAjaxSettings = null;
+  private _drives: { [key: string]: Contents.IDrive } = Object.create(null);
+  private _watches: Private.IWatch[] = [];
 }
 
 
+// Define the signals for the `ContentsManager` class.
+defineSignal(ContentsManager.prototype, 'fileChanged');
+
+
 /**
  * A namespace for ContentsManager statics.
  */
@@ -721,6 +1373,46 @@ namespace ContentsManager {
     ajaxSettings?: IAjaxSettings;
   }
 
+  /**
+   * The options used to watch a file.
+   */
+  export
+  interface IWatchOptions {
+    /**
+     * The initial polling interval in milliseconds.
+     *
+     * #### Notes
+     * Defaults to [[WATCH_INTERVAL]].
+     */
+    interval?: number;
+
+    /**
+     * The maximum polling interval in milliseconds.
+     *
+     * #### Notes
+     * Defaults to [[MAX_WATCH_INTERVAL]].
+     */
+    maxInterval?: number;
+  }
+
+  /**
+   * The default number of bytes in each chunk of an uploaded file.
+   */
+  export
+  const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+  /**
+   * The default initial polling interval of a watched file.
+   */
+  export
+  const WATCH_INTERVAL = 1000;
+
+  /**
+   * The default maximum polling interval of a watched file.
+   */
+  export
+  const MAX_WATCH_INTERVAL = 30000;
+
   /**
    * Get the absolute POSIX path to a file on the server.
    *
@@ -734,35 +1426,78 @@ namespace ContentsManager {
    * the initial `'/'` because IPEP 27 paths denote `''` as the root.
    * If the resulting path is not contained within the server root,
    * returns `null`, since it cannot be served.
+   *
+   * A relative path with a drive prefix is resolved from the root of the
+   * drive.  Otherwise, the result has the drive prefix of the `cwd`.
    */
   export
   function getAbsolutePath(relativePath: string, cwd = ''): string {
-    // Bail if it looks like a url.
-    let urlObj = utils.urlParse(relativePath);
-    if (urlObj.protocol) {
-      return relativePath;
+    let drive = driveName(relativePath);
+    if (drive) {
+      relativePath = localPath(relativePath);
+      cwd = '';
+    } else {
+      // Bail if it looks like a url.
+      let urlObj = utils.urlParse(relativePath);
+      if (urlObj.protocol) {
+        return relativePath;
+      }
+      drive = driveName(cwd);
+      cwd = localPath(cwd);
     }
     let norm = posix.normalize(posix.join(cwd, relativePath));
-    if (norm.indexOf('../') === 0) {
+    if (norm.indexOf('../') === 0 || norm === '..') {
       return null;
     }
-    return posix.resolve('/', cwd, relativePath).slice(1);
+    let path = posix.resolve('/', cwd, relativePath).slice(1);
+    return drives.globalPath(drive, path);
+  }
+
+  /**
+   * Get the name of the drive of a path.
+   *
+   * #### Notes
+   * Returns an empty string for a path without a drive prefix.
+   */
+  export
+  function driveName(path: string): string {
+    return drives.driveName(path);
+  }
+
+  /**
+   * Get the path of a file within its drive, without the drive prefix.
+   */
+  export
+  function localPath(path: string): string {
+    return drives.localPath(path);
   }
 
   /**
    * Get the last portion of a path, similar to the Unix basename command.
+   *
+   * #### Notes
+   * The drive prefix of the path is ignored.
    */
   export
   function basename(path: string, ext?: string): string {
-    return posix.basename(path, ext);
+    return posix.basename(drives.localPath(path), ext);
   }
 
   /**
    * Get the directory name of a path, similar to the Unix dirname command.
+   *
+   * #### Notes
+   * The drive prefix of the path is kept, and the root directory of a
+   * drive is given by the prefix alone, such as `'drive:'`.
    */
   export
   function dirname(path: string): string {
-    return posix.dirname(path);
+    let name = drives.driveName(path);
+    let dir = posix.dirname(drives.localPath(path));
+    if (!name) {
+      return dir;
+    }
+    return drives.globalPath(name, dir === '.' || dir === '/' ? '' : dir);
   }
 
   /**
@@ -777,7 +1512,7 @@ namespace ContentsManager {
    */
   export
   function extname(path: string): string {
-    return posix.extname(path);
+    return posix.extname(drives.localPath(path));
   }
 
   /**
@@ -793,3 +1528,154 @@ namespace ContentsManager {
     return extension;
   }
 }
+
+
+/**
+ * A namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The state of a watched file.
+   */
+  export
+  interface IWatch {
+    /**
+     * The normalized path of the file.
+     */
+    path: string;
+
+    /**
+     * The last known model of the file, `null` if the file does not
+     * exist, or `undefined` before the first poll.
+     */
+    model: Contents.IModel;
+
+    /**
+     * The current polling interval.
+     */
+    interval: number;
+
+    /**
+     * The initial polling interval.
+     */
+    minInterval: number;
+
+    /**
+     * The maximum polling interval.
+     */
+    maxInterval: number;
+
+    /**
+     * The timer of the next poll.
+     */
+    timer: any;
+  }
+
+  /**
+   * Normalize a path, keeping its drive prefix.
+   */
+  export
+  function normalizePath(path: string): string {
+    return ContentsManager.getAbsolutePath(path) || path;
+  }
+
+  /**
+   * Test whether a file was modified since a timestamp.
+   *
+   * #### Notes
+   * The timestamps are compared as dates if they can be parsed, so that
+   * differently formatted timestamps of the same time are equal.
+   */
+  export
+  function isModified(model: Contents.IModel, lastModified: string): boolean {
+    let current = Date.parse(model.last_modified);
+    let previous = Date.parse(lastModified);
+    if (isNaN(current) || isNaN(previous)) {
+      return model.last_modified !== lastModified;
+    }
+    return current !== previous;
+  }
+
+  /**
+   * Get the type of the change between two models of a file.
+   *
+   * #### Notes
+   * Returns `null` if the file is unchanged, or if the previous model is
+   * not known.
+   */
+  export
+  function getChangeType(previous: Contents.IModel, model: Contents.IModel): Contents.ChangeType {
+    if (previous === void 0 || (!previous && !model)) {
+      return null;
+    }
+    if (!previous) {
+      return 'created';
+    }
+    if (!model) {
+      return 'deleted';
+    }
+    if (previous.last_modified !== model.last_modified) {
+      return 'modified';
+    }
+    return null;
+  }
+
+  /**
+   * Get the path of a file within its drive, relative to the drive root.
+   */
+  export
+  function toLocalPath(path: string): string {
+    return drives.localPath(path || '').replace(/^\/+/, '');
+  }
+
+  /**
+   * Add the drive prefix to the paths of a model given by a drive.
+   *
+   * #### Notes
+   * The paths of the models in the content of a directory are also
+   * prefixed.
+   */
+  export
+  function toGlobalModel(drive: Contents.IDrive, model: Contents.IModel): Contents.IModel {
+    let result = utils.copy(model as any) as Contents.IModel;
+    result.path = drives.globalPath(drive.name, model.path);
+    if (model.type === 'directory' && Array.isArray(model.content)) {
+      result.content = (model.content as Contents.IModel[]).map(child => {
+        return toGlobalModel(drive, child);
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Get the bytes of the content of a file model.
+   *
+   * #### Notes
+   * Returns `null` for a directory.
+   */
+  export
+  function getBytes(model: Contents.IModel): Uint8Array {
+    if (model.type === 'directory') {
+      return null;
+    }
+    if (model.format === 'base64') {
+      return utils.decodeBytes(model.content);
+    }
+    if (model.format === 'json' || model.type === 'notebook') {
+      return utils.encodeUtf8(JSON.stringify(model.content, null, 1) + '\n');
+    }
+    return utils.encodeUtf8(String(model.content));
+  }
+
+  /**
+   * Get the last modified date of a model.
+   *
+   * #### Notes
+   * Defaults to the current date if the timestamp cannot be parsed.
+   */
+  export
+  function getDate(model: Contents.IModel): Date {
+    let date = new Date(model.last_modified);
+    return isNaN(date.getTime()) ? new Date() : date;
+  }
+}
@@ -0,0 +1,1208 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import * as posix
+ from 'path-posix';
+
+import {
+  CancellationError, ResponseError
+} from '../errors';
+
+import {
+  BinaryData, CancellationToken, IRequestOptions, decodeBytes, decodeUtf8,
+  encodeBytes, encodeUtf8
+} from '../utils';
+
+import {
+  Contents
+} from './index';
+
+import {
+  uploadChunks
+} from './upload';
+
+
+/**
+ * A drive which keeps its files in a local store.
+ *
+ * #### Notes
+ * The drive follows the behavior of the contents service of the server:
+ * untitled files are named like `'untitled1.txt'`, copies like
+ * `'foo-Copy1.txt'`, a rename does not replace an existing file, and a
+ * file has a single checkpoint with the id `'checkpoint'`, which is kept
+ * in a hidden `.ipynb_checkpoints` directory.  Hidden files are not
+ * listed in directories.
+ *
+ * Errors are given as a [[ResponseError]] with the status which the
+ * server would give.  The `onProgress` functions given to `get` and
+ * `save` are not called, since no data is transferred.
+ */
+export
+class LocalDrive implements Contents.IDrive {
+  /**
+   * Construct a new local drive.
+   *
+   * @param options - The options used to create the drive.
+   */
+  constructor(options: LocalDrive.IOptions) {
+    this.name = options.name || 'local';
+    this._store = options.store;
+  }
+
+  /**
+   * The name of the drive.
+   */
+  name: string;
+
+  /**
+   * The store of the drive.
+   */
+  get store(): LocalDrive.IStore {
+    return this._store;
+  }
+
+  /**
+   * Get a file or directory.
+   *
+   * @param path: The path to the file.
+   *
+   * @param options: The options used to fetch the file.
+   *
+   * @param requestOptions - The optional token used to cancel the
+   *   request.  The progress function is not used by a local drive.
+   *
+   * @returns A promise which resolves with the file content.
+   *
+   * #### Notes
+   * The content of the file is included unless `content` is `false`.
+   */
+  get(path: string, options: Contents.IFetchOptions = {}, requestOptions?: IRequestOptions): Promise<Contents.IModel> {
+    let token = requestOptions && requestOptions.cancelToken;
+    return Private.run(token, () => {
+      path = Private.normalize(path);
+      let content = options.content !== false;
+      let stat = this._stat(path);
+      let type = options.type;
+      if (stat.type === 'directory') {
+        if (type && type !== 'directory') {
+          throw Private.createError(400, `${path} is a directory, not a ${type}`);
+        }
+        return this._getDirectory(path, content);
+      }
+      if (type === 'directory') {
+        throw Private.createError(400, `${path} is not a directory`);
+      }
+      if (type === 'notebook' || (!type && Private.isNotebook(path))) {
+        return this._getNotebook(path, content);
+      }
+      return this._getFile(path, content, options.format);
+    });
+  }
+
+  /**
+   * Get a download url given a file path.
+   *
+   * #### Notes
+   * The files of a local drive are not served, so this returns an empty
+   * string.
+   */
+  getDownloadUrl(path: string): string {
+    return '';
+  }
+
+  /**
+   * Create a new untitled file or directory in the specified directory path.
+   *
+   * @param options: The options used to create the file.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves with the created file model, without
+   *   content.
+   *
+   * #### Notes
+   * The type defaults to `'notebook'` for the `.ipynb` extension, and to
+   * `'file'` otherwise.
+   */
+  newUntitled(options: Contents.ICreateOptions = {}, cancelToken?: CancellationToken): Promise<Contents.IModel> {
+    return Private.run(cancelToken, () => {
+      let dir = Private.normalize(options.path || '');
+      this._checkDirectory(dir);
+      let ext = options.ext || '';
+      let type = options.type || (ext === '.ipynb' ? 'notebook' : 'file');
+      let name: string;
+      if (type === 'directory') {
+        name = this._incrementName(`Untitled Folder${ext}`, dir, ' ');
+      } else if (type === 'notebook') {
+        name = this._incrementName('Untitled.ipynb', dir, '');
+      } else if (type === 'file') {
+        name = this._incrementName(`untitled${ext}`, dir, '');
+      } else {
+        throw Private.createError(400, `Unexpected model type: ${type}`);
+      }
+      let path = Private.join(dir, name);
+      if (type === 'directory') {
+        this._store.mkdir(path);
+      } else if (type === 'notebook') {
+        this._store.write(path, Private.encodeNotebook(Private.newNotebook()));
+      } else {
+        this._store.write(path, new Uint8Array(0));
+      }
+      return this._getModel(path);
+    });
+  }
+
+  /**
+   * Delete a file or an empty directory.
+   *
+   * @param path - The path to the file.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves when the file is deleted.
+   *
+   * #### Notes
+   * The checkpoints of the file are also deleted.
+   */
+  delete(path: string, cancelToken?: CancellationToken): Promise<void> {
+    return Private.run(cancelToken, () => {
+      path = Private.normalize(path);
+      let stat = this._stat(path);
+      if (!path) {
+        throw Private.createError(400, 'Cannot delete the root directory');
+      }
+      if (stat.type === 'directory') {
+        let names = this._store.list(path).filter(name => {
+          return name !== Private.CHECKPOINT_DIR;
+        });
+        if (names.length) {
+          throw Private.createError(400, `Directory ${path} not empty`);
+        }
+      } else {
+        this._removeCheckpoint(path);
+      }
+      this._store.remove(path);
+    });
+  }
+
+  /**
+   * Rename a file or directory.
+   *
+   * @param path - The original file path.
+   *
+   * @param newPath - The new file path.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves with the new file model, without
+   *   content.
+   *
+   * #### Notes
+   * The promise is rejected if the new path exists.  The checkpoint of a
+   * file is moved with the file.
+   */
+  rename(path: string, newPath: string, cancelToken?: CancellationToken): Promise<Contents.IModel> {
+    return Private.run(cancelToken, () => {
+      path = Private.normalize(path);
+      newPath = Private.normalize(newPath);
+      let stat = this._stat(path);
+      if (newPath === path) {
+        return this._getModel(path);
+      }
+      if (this._store.stat(newPath)) {
+        throw Private.createError(409, `File already exists: ${newPath}`);
+      }
+      this._checkDirectory(Private.dirname(newPath));
+      this._store.move(path, newPath);
+      if (stat.type !== 'directory') {
+        let checkpoint = Private.checkpointPath(path);
+        if (this._store.stat(checkpoint)) {
+          let newCheckpoint = Private.checkpointPath(newPath);
+          this._ensureDirectory(Private.dirname(newCheckpoint));
+          this._store.move(checkpoint, newCheckpoint);
+        }
+      }
+      return this._getModel(newPath);
+    });
+  }
+
+  /**
+   * Save a file.
+   *
+   * @param path - The desired file path.
+   *
+   * @param options - The model to save, which needs a `type`, and a
+   *   `content` unless it is a directory.
+   *
+   * @param requestOptions - The optional token used to cancel the
+   *   request.  The progress function is not used by a local drive.
+   *
+   * @returns A promise which resolves with the file model, without
+   *   content.
+   *
+   * #### Notes
+   * A file model needs a `format` of `'text'` or `'base64'`.  A `chunk`
+   * other than `1` is appended to the file.
+   */
+  save(path: string, options: Contents.IModel = {}, requestOptions?: IRequestOptions): Promise<Contents.IModel> {
+    let token = requestOptions && requestOptions.cancelToken;
+    return Private.run(token, () => {
+      path = Private.normalize(path);
+      if (!options.type) {
+        throw Private.createError(400, 'No file type provided');
+      }
+      if (options.content === void 0 && options.type !== 'directory') {
+        throw Private.createError(400, 'No file content provided');
+      }
+      this._checkDirectory(Private.dirname(path));
+      let stat = this._store.stat(path);
+      if (options.type === 'directory') {
+        if (stat && stat.type !== 'directory') {
+          throw Private.createError(400, `Not a directory: ${path}`);
+        }
+        if (!stat) {
+          this._store.mkdir(path);
+        }
+        return this._getModel(path);
+      }
+      if (stat && stat.type === 'directory') {
+        throw Private.createError(400, `${path} is a directory`);
+      }
+      let bytes: Uint8Array;
+      if (options.type === 'notebook') {
+        bytes = Private.encodeNotebook(options.content);
+      } else if (options.type === 'file' && options.format === 'text') {
+        bytes = encodeUtf8(String(options.content));
+      } else if (options.type === 'file' && options.format === 'base64') {
+        bytes = decodeBytes(options.content);
+      } else if (options.type === 'file') {
+        let message = "Must specify format of file contents as 'text' or 'base64'";
+        throw Private.createError(400, message);
+      } else {
+        throw Private.createError(400, `Unexpected model type: ${options.type}`);
+      }
+      let chunk = options.chunk;
+      this._writeFile(path, bytes, !!chunk && chunk !== 1);
+      return this._getModel(path);
+    });
+  }
+
+  /**
+   * Upload binary data to a file in chunks.
+   *
+   * @param path - The desired file path.
+   *
+   * @param data - The binary data of the file.
+   *
+   * @param options - The options used to upload the file.
+   *
+   * @returns A promise which resolves with the file model, without
+   *   content, when the last chunk is saved.
+   *
+   * #### Notes
+   * The chunks are saved like the chunks of [[ContentsManager.upload]],
+   * so that an upload can be resumed with the same `startChunk`.
+   */
+  upload(path: string, data: BinaryData, options: Contents.IUploadOptions = {}): Promise<Contents.IModel> {
+    let cancelToken = options.cancelToken;
+    return uploadChunks(path, data, options, model => {
+      return this.save(path, model, { cancelToken });
+    });
+  }
+
+  /**
+   * Copy a file into a given directory.
+   *
+   * @param path - The original file path.
+   *
+   * @param toDir - The destination directory path, or the path of the
+   *   copy if it is not a directory.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves with the new file model, without
+   *   content.
+   *
+   * #### Notes
+   * A copy in a directory is named like `'foo-Copy1.txt'`.  Directories
+   * cannot be copied.
+   */
+  copy(path: string, toDir: string, cancelToken?: CancellationToken): Promise<Contents.IModel> {
+    return Private.run(cancelToken, () => {
+      path = Private.normalize(path);
+      let stat = this._stat(path);
+      if (stat.type === 'directory') {
+        throw Private.createError(400, "Can't copy directories");
+      }
+      let toPath = Private.normalize(toDir);
+      let toStat = this._store.stat(toPath);
+      if (toStat && toStat.type === 'directory') {
+        let name = posix.basename(path).replace(/\-Copy\d*\./, '.');
+        toPath = Private.join(toPath, this._incrementName(name, toPath, '-Copy'));
+      } else {
+        this._checkDirectory(Private.dirname(toPath));
+      }
+      this._store.write(toPath, this._store.read(path));
+      return this._getModel(toPath);
+    });
+  }
+
+  /**
+   * Create a checkpoint for a file.
+   *
+   * @param path - The path of the file.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves with the new checkpoint model when the
+   *   checkpoint is created.
+   *
+   * #### Notes
+   * The checkpoint replaces the previous checkpoint of the file.
+   */
+  createCheckpoint(path: string, cancelToken?: CancellationToken): Promise<Contents.ICheckpointModel> {
+    return Private.run(cancelToken, () => {
+      path = Private.normalize(path);
+      let stat = this._stat(path);
+      if (stat.type === 'directory') {
+        throw Private.createError(400, `Cannot checkpoint a directory: ${path}`);
+      }
+      let checkpoint = Private.checkpointPath(path);
+      this._ensureDirectory(Private.dirname(checkpoint));
+      this._writeFile(checkpoint, this._store.read(path), false);
+      return this._getCheckpoint(path);
+    });
+  }
+
+  /**
+   * List available checkpoints for a file.
+   *
+   * @param path - The path of the file.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves with a list of checkpoint models for
+   *    the file.
+   */
+  listCheckpoints(path: string, cancelToken?: CancellationToken): Promise<Contents.ICheckpointModel[]> {
+    return Private.run(cancelToken, () => {
+      path = Private.normalize(path);
+      this._stat(path);
+      let checkpoint = this._getCheckpoint(path);
+      return checkpoint ? [checkpoint] : [];
+    });
+  }
+
+  /**
+   * Restore a file to a known checkpoint state.
+   *
+   * @param path - The path of the file.
+   *
+   * @param checkpointID - The id of the checkpoint to restore.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves when the checkpoint is restored.
+   */
+  restoreCheckpoint(path: string, checkpointID: string, cancelToken?: CancellationToken): Promise<void> {
+    return Private.run(cancelToken, () => {
+      path = Private.normalize(path);
+      let checkpoint = this._findCheckpoint(path, checkpointID);
+      this._writeFile(path, this._store.read(checkpoint), false);
+    });
+  }
+
+  /**
+   * Delete a checkpoint for a file.
+   *
+   * @param path - The path of the file.
+   *
+   * @param checkpointID - The id of the checkpoint to delete.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * @returns A promise which resolves when the checkpoint is deleted.
+   */
+  deleteCheckpoint(path: string, checkpointID: string, cancelToken?: CancellationToken): Promise<void> {
+    return Private.run(cancelToken, () => {
+      path = Private.normalize(path);
+      this._store.remove(this._findCheckpoint(path, checkpointID));
+    });
+  }
+
+  /**
+   * Get the stat of a path, or throw a not found error.
+   */
+  private _stat(path: string): LocalDrive.IStat {
+    let stat = this._store.stat(path);
+    if (!stat) {
+      throw Private.createError(404, `No such file or directory: ${path}`);
+    }
+    return stat;
+  }
+
+  /**
+   * Throw a not found error if a path is not a directory.
+   */
+  private _checkDirectory(path: string): void {
+    let stat = this._store.stat(path);
+    if (!stat || stat.type !== 'directory') {
+      throw Private.createError(404, `No such directory: ${path}`);
+    }
+  }
+
+  /**
+   * Create a directory if it does not exist.
+   */
+  private _ensureDirectory(path: string): void {
+    if (!this._store.stat(path)) {
+      this._store.mkdir(path);
+    }
+  }
+
+  /**
+   * Write the bytes of a file, or append them to the file.
+   */
+  private _writeFile(path: string, bytes: Uint8Array, append: boolean): void {
+    if (append && this._store.stat(path)) {
+      let saved = this._store.read(path);
+      let data = new Uint8Array(saved.length + bytes.length);
+      data.set(saved, 0);
+      data.set(bytes, saved.length);
+      bytes = data;
+    }
+    this._store.write(path, bytes);
+  }
+
+  /**
+   * Remove the checkpoint of a file, if any.
+   */
+  private _removeCheckpoint(path: string): void {
+    let checkpoint = Private.checkpointPath(path);
+    if (this._store.stat(checkpoint)) {
+      this._store.remove(checkpoint);
+    }
+  }
+
+  /**
+   * Get the path of a checkpoint, or throw a not found error.
+   */
+  private _findCheckpoint(path: string, checkpointID: string): string {
+    let checkpoint = Private.checkpointPath(path);
+    if (checkpointID !== Private.CHECKPOINT_ID || !this._store.stat(checkpoint)) {
+      let message = `Checkpoint does not exist: ${path}@${checkpointID}`;
+      throw Private.createError(404, message);
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Get the checkpoint model of a file, or `null`.
+   */
+  private _getCheckpoint(path: string): Contents.ICheckpointModel {
+    let stat = this._store.stat(Private.checkpointPath(path));
+    if (!stat) {
+      return null;
+    }
+    return {
+      id: Private.CHECKPOINT_ID,
+      last_modified: stat.modified.toISOString()
+    };
+  }
+
+  /**
+   * Get a name which does not exist in a directory.
+   *
+   * #### Notes
+   * The `insert` and a number are added before the extension of the
+   * name, like the server, e.g. `'untitled1.txt'`.
+   */
+  private _incrementName(name: string, dir: string, insert: string): string {
+    let ext = posix.extname(name);
+    if (ext !== '.ipynb') {
+      let index = name.indexOf('.');
+      ext = index === -1 ? '' : name.slice(index);
+    }
+    let stem = name.slice(0, name.length - ext.length);
+    for (let i = 0; ; i++) {
+      let suffix = i ? `${insert}${i}` : '';
+      let newName = `${stem}${suffix}${ext}`;
+      if (!this._store.stat(Private.join(dir, newName))) {
+        return newName;
+      }
+    }
+  }
+
+  /**
+   * Get the model of a path without content.
+   */
+  private _getModel(path: string): Contents.IModel {
+    let stat = this._stat(path);
+    if (stat.type === 'directory') {
+      return this._getDirectory(path, false);
+    }
+    if (Private.isNotebook(path)) {
+      return this._getNotebook(path, false);
+    }
+    return this._getFile(path, false);
+  }
+
+  /**
+   * Get the model of a directory.
+   */
+  private _getDirectory(path: string, content: boolean): Contents.IModel {
+    let model = Private.createModel(path, 'directory', this._stat(path));
+    if (content) {
+      model.format = 'json';
+      model.content = this._store.list(path).filter(name => {
+        return name[0] !== '.';
+      }).sort().map(name => this._getModel(Private.join(path, name)));
+    }
+    return model;
+  }
+
+  /**
+   * Get the model of a notebook.
+   */
+  private _getNotebook(path: string, content: boolean): Contents.IModel {
+    let model = Private.createModel(path, 'notebook', this._stat(path));
+    if (content) {
+      try {
+        model.content = JSON.parse(decodeUtf8(this._store.read(path)));
+      } catch (error) {
+        throw Private.createError(400, `Unreadable Notebook: ${path} ${error.message}`);
+      }
+      model.format = 'json';
+    }
+    return model;
+  }
+
+  /**
+   * Get the model of a file.
+   *
+   * #### Notes
+   * Without a format, the file is given as text if it is valid UTF-8,
+   * and as base64 otherwise.
+   */
+  private _getFile(path: string, content: boolean, format?: Contents.FileFormat): Contents.IModel {
+    let model = Private.createModel(path, 'file', this._stat(path));
+    if (!content) {
+      return model;
+    }
+    let bytes = this._store.read(path);
+    if (format !== 'base64') {
+      try {
+        model.content = decodeUtf8(bytes);
+        model.format = 'text';
+        model.mimetype = 'text/plain';
+        return model;
+      } catch (error) {
+        if (format === 'text') {
+          throw Private.createError(400, `${path} is not UTF-8 encoded`);
+        }
+      }
+    }
+    model.content = encodeBytes(bytes);
+    model.format = 'base64';
+    model.mimetype = 'application/octet-stream';
+    return model;
+  }
+
+  private _store: LocalDrive.IStore;
+}
+
+
+/**
+ * The namespace for `LocalDrive` class statics.
+ */
+export
+namespace LocalDrive {
+  /**
+   * The options used to create a local drive.
+   */
+  export
+  interface IOptions {
+    /**
+     * The name of the drive.
+     *
+     * #### Notes
+     * Defaults to `'local'`.
+     */
+    name?: string;
+
+    /**
+     * The store of the files of the drive.
+     */
+    store: IStore;
+  }
+
+  /**
+   * The status of a file in a store.
+   */
+  export
+  interface IStat {
+    /**
+     * The type of the entry.
+     */
+    type: 'file' | 'directory';
+
+    /**
+     * Whether the entry can be written.
+     */
+    writable: boolean;
+
+    /**
+     * The date the entry was created.
+     */
+    created: Date;
+
+    /**
+     * The date the entry was last modified.
+     */
+    modified: Date;
+  }
+
+  /**
+   * A synchronous store of files, used by a local drive.
+   *
+   * #### Notes
+   * The paths are `/`-delimited, without leading or trailing slashes,
+   * and the root directory is `''`.  The drive checks the paths before
+   * calling the store, so that the parent directory of a new entry
+   * exists.
+   */
+  export
+  interface IStore {
+    /**
+     * Get the status of an entry, or `null` if it does not exist.
+     */
+    stat(path: string): IStat;
+
+    /**
+     * List the names of the entries of a directory.
+     */
+    list(path: string): string[];
+
+    /**
+     * Read the bytes of a file.
+     */
+    read(path: string): Uint8Array;
+
+    /**
+     * Write a file, replacing an existing file.
+     */
+    write(path: string, data: Uint8Array): void;
+
+    /**
+     * Create a new directory.
+     */
+    mkdir(path: string): void;
+
+    /**
+     * Remove a file, or a directory and its entries.
+     */
+    remove(path: string): void;
+
+    /**
+     * Move an entry to a new path which does not exist.
+     */
+    move(path: string, newPath: string): void;
+  }
+}
+
+
+/**
+ * A store which keeps files in memory.
+ */
+export
+class MemoryStore implements LocalDrive.IStore {
+  /**
+   * Construct a new memory store with an empty root directory.
+   */
+  constructor() {
+    this._entries[''] = Private.createEntry(null);
+  }
+
+  /**
+   * Get the status of an entry, or `null` if it does not exist.
+   */
+  stat(path: string): LocalDrive.IStat {
+    let entry = this._entries[path];
+    if (!entry) {
+      return null;
+    }
+    return {
+      type: entry.data ? 'file' : 'directory',
+      writable: true,
+      created: new Date(entry.created.getTime()),
+      modified: new Date(entry.modified.getTime())
+    };
+  }
+
+  /**
+   * List the names of the entries of a directory.
+   */
+  list(path: string): string[] {
+    let names: string[] = [];
+    for (let key in this._entries) {
+      if (key && Private.dirname(key) === path) {
+        names.push(posix.basename(key));
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Read the bytes of a file.
+   */
+  read(path: string): Uint8Array {
+    return new Uint8Array(this._entries[path].data);
+  }
+
+  /**
+   * Write a file, replacing an existing file.
+   */
+  write(path: string, data: Uint8Array): void {
+    let entry = this._entries[path];
+    if (entry) {
+      entry.data = new Uint8Array(data);
+      entry.modified = new Date();
+    } else {
+      this._entries[path] = Private.createEntry(new Uint8Array(data));
+      this._touch(Private.dirname(path));
+    }
+  }
+
+  /**
+   * Create a new directory.
+   */
+  mkdir(path: string): void {
+    this._entries[path] = Private.createEntry(null);
+    this._touch(Private.dirname(path));
+  }
+
+  /**
+   * Remove a file, or a directory and its entries.
+   */
+  remove(path: string): void {
+    for (let key of Object.keys(this._entries)) {
+      if (key === path || key.indexOf(`${path}/`) === 0) {
+        delete this._entries[key];
+      }
+    }
+    this._touch(Private.dirname(path));
+  }
+
+  /**
+   * Move an entry to a new path which does not exist.
+   */
+  move(path: string, newPath: string): void {
+    for (let key of Object.keys(this._entries)) {
+      if (key === path || key.indexOf(`${path}/`) === 0) {
+        let entry = this._entries[key];
+        delete this._entries[key];
+        this._entries[newPath + key.slice(path.length)] = entry;
+      }
+    }
+    this._touch(Private.dirname(path));
+    this._touch(Private.dirname(newPath));
+  }
+
+  /**
+   * Update the modification date of a directory.
+   */
+  private _touch(path: string): void {
+    let entry = this._entries[path];
+    if (entry) {
+      entry.modified = new Date();
+    }
+  }
+
+  private _entries: { [key: string]: Private.IEntry } = Object.create(null);
+}
+
+
+/**
+ * A store which keeps files in a directory of the local filesystem.
+ *
+ * #### Notes
+ * The store uses the synchronous functions of the Node `fs` module,
+ * which is given in the options, so that the module is not needed in a
+ * browser.
+ */
+export
+class FileSystemStore implements LocalDrive.IStore {
+  /**
+   * Construct a new filesystem store.
+   *
+   * @param options - The options used to create the store.
+   */
+  constructor(options: FileSystemStore.IOptions) {
+    this._root = options.root;
+    this._fs = options.fs;
+  }
+
+  /**
+   * The root directory of the store.
+   */
+  get root(): string {
+    return this._root;
+  }
+
+  /**
+   * Get the status of an entry, or `null` if it does not exist.
+   */
+  stat(path: string): LocalDrive.IStat {
+    let stat: FileSystemStore.IStats;
+    try {
+      stat = this._fs.statSync(this._resolve(path));
+    } catch (error) {
+      if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+        return null;
+      }
+      throw error;
+    }
+    return {
+      type: stat.isDirectory() ? 'directory' : 'file',
+      // Whether the owner write bit (0o200) is set.
+      writable: (stat.mode & 128) !== 0,
+      created: stat.birthtime || stat.ctime,
+      modified: stat.mtime
+    };
+  }
+
+  /**
+   * List the names of the entries of a directory.
+   */
+  list(path: string): string[] {
+    return this._fs.readdirSync(this._resolve(path));
+  }
+
+  /**
+   * Read the bytes of a file.
+   */
+  read(path: string): Uint8Array {
+    return new Uint8Array(this._fs.readFileSync(this._resolve(path)));
+  }
+
+  /**
+   * Write a file, replacing an existing file.
+   */
+  write(path: string, data: Uint8Array): void {
+    this._fs.writeFileSync(this._resolve(path), data);
+  }
+
+  /**
+   * Create a new directory.
+   */
+  mkdir(path: string): void {
+    this._fs.mkdirSync(this._resolve(path));
+  }
+
+  /**
+   * Remove a file, or a directory and its entries.
+   */
+  remove(path: string): void {
+    let target = this._resolve(path);
+    if (!this._fs.statSync(target).isDirectory()) {
+      this._fs.unlinkSync(target);
+      return;
+    }
+    for (let name of this.list(path)) {
+      this.remove(Private.join(path, name));
+    }
+    this._fs.rmdirSync(target);
+  }
+
+  /**
+   * Move an entry to a new path which does not exist.
+   */
+  move(path: string, newPath: string): void {
+    this._fs.renameSync(this._resolve(path), this._resolve(newPath));
+  }
+
+  /**
+   * Get the filesystem path of a store path.
+   */
+  private _resolve(path: string): string {
+    return path ? `${this._root}/${path}` : this._root;
+  }
+
+  private _root: string;
+  private _fs: FileSystemStore.IFileSystem;
+}
+
+
+/**
+ * The namespace for `FileSystemStore` class statics.
+ */
+export
+namespace FileSystemStore {
+  /**
+   * The options used to create a filesystem store.
+   */
+  export
+  interface IOptions {
+    /**
+     * The directory of the local filesystem which is the root of the
+     * store.
+     */
+    root: string;
+
+    /**
+     * The Node `fs` module, or an object with the same functions.
+     */
+    fs: IFileSystem;
+  }
+
+  /**
+   * The status of an entry given by the Node `fs` module.
+   */
+  export
+  interface IStats {
+    /**
+     * Whether the entry is a directory.
+     */
+    isDirectory(): boolean;
+
+    /**
+     * The mode bits of the entry.
+     */
+    mode: number;
+
+    /**
+     * The creation date of the entry, if it is known.
+     */
+    birthtime?: Date;
+
+    /**
+     * The date of the last change of the status of the entry.
+     */
+    ctime: Date;
+
+    /**
+     * The date of the last modification of the entry.
+     */
+    mtime: Date;
+  }
+
+  /**
+   * The functions of the Node `fs` module used by the store.
+   *
+   * #### Notes
+   * A Node `Buffer` is a `Uint8Array`, so the module can be given as is.
+   */
+  export
+  interface IFileSystem {
+    /**
+     * Get the status of an entry.
+     */
+    statSync(path: string): IStats;
+
+    /**
+     * List the names of the entries of a directory.
+     */
+    readdirSync(path: string): string[];
+
+    /**
+     * Read the bytes of a file.
+     */
+    readFileSync(path: string): Uint8Array;
+
+    /**
+     * Write the bytes of a file.
+     */
+    writeFileSync(path: string, data: Uint8Array): void;
+
+    /**
+     * Create a directory.
+     */
+    mkdirSync(path: string): void;
+
+    /**
+     * Remove a file.
+     */
+    unlinkSync(path: string): void;
+
+    /**
+     * Remove an empty directory.
+     */
+    rmdirSync(path: string): void;
+
+    /**
+     * Rename an entry.
+     */
+    renameSync(oldPath: string, newPath: string): void;
+  }
+}
+
+
+/**
+ * A namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The name of the directory of the checkpoints of its parent.
+   */
+  export
+  const CHECKPOINT_DIR = '.ipynb_checkpoints';
+
+  /**
+   * The id of the checkpoint of a file.
+   */
+  export
+  const CHECKPOINT_ID = 'checkpoint';
+
+  /**
+   * An entry of a memory store.
+   */
+  export
+  interface IEntry {
+    /**
+     * The bytes of a file, or `null` for a directory.
+     */
+    data: Uint8Array;
+
+    /**
+     * The date the entry was created.
+     */
+    created: Date;
+
+    /**
+     * The date the entry was last modified.
+     */
+    modified: Date;
+  }
+
+  /**
+   * Create an entry of a memory store.
+   */
+  export
+  function createEntry(data: Uint8Array): IEntry {
+    let now = new Date();
+    return { data, created: now, modified: now };
+  }
+
+  /**
+   * Run a synchronous operation of a drive.
+   *
+   * #### Notes
+   * The promise is rejected with a [[CancellationError]] if the token is
+   * cancelled, and an unexpected error of the store is given as a
+   * [[ResponseError]] with the status `500`, like the server.
+   */
+  export
+  function run<T>(token: CancellationToken, operation: () => T): Promise<T> {
+    if (token && token.isCancelled) {
+      return Promise.reject(new CancellationError({
+        event: null, xhr: null, ajaxSettings: null, throwError: token.reason
+      }));
+    }
+    try {
+      return Promise.resolve(operation());
+    } catch (error) {
+      if (!(error instanceof ResponseError)) {
+        error = createError(500, `Unexpected error: ${error.message}`);
+      }
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Create an error with the status and message which the server gives.
+   */
+  export
+  function createError(status: number, message: string): ResponseError {
+    let text = JSON.stringify({ message, reason: null });
+    let xhr = {
+      readyState: 4,
+      status,
+      statusText: '',
+      response: text,
+      responseText: text,
+      getResponseHeader: (name: string): string => null
+    };
+    return new ResponseError({
+      event: null, xhr: xhr as XMLHttpRequest, ajaxSettings: null
+    });
+  }
+
+  /**
+   * Normalize a path to a path without leading or trailing slashes.
+   */
+  export
+  function normalize(path: string): string {
+    return posix.resolve('/', path || '').slice(1);
+  }
+
+  /**
+   * Get the directory of a normalized path, which is `''` for the root.
+   */
+  export
+  function dirname(path: string): string {
+    let dir = posix.dirname(path);
+    return dir === '.' || dir === '/' ? '' : dir;
+  }
+
+  /**
+   * Join a name to a normalized directory.
+   */
+  export
+  function join(dir: string, name: string): string {
+    return dir ? `${dir}/${name}` : name;
+  }
+
+  /**
+   * Get the path of the checkpoint of a file.
+   */
+  export
+  function checkpointPath(path: string): string {
+    let name = posix.basename(path);
+    let ext = posix.extname(name);
+    let stem = name.slice(0, name.length - ext.length);
+    let dir = join(dirname(path), CHECKPOINT_DIR);
+    return join(dir, `${stem}-checkpoint${ext}`);
+  }
+
+  /**
+   * Test whether a path is a notebook.
+   */
+  export
+  function isNotebook(path: string): boolean {
+    return posix.extname(path) === '.ipynb';
+  }
+
+  /**
+   * Create a model of an entry, without content.
+   */
+  export
+  function createModel(path: string, type: Contents.FileType, stat: LocalDrive.IStat): Contents.IModel {
+    return {
+      name: posix.basename(path),
+      path,
+      type,
+      writable: stat.writable,
+      created: stat.created.toISOString(),
+      last_modified: stat.modified.toISOString(),
+      mimetype: null,
+      content: null,
+      format: null
+    };
+  }
+
+  /**
+   * Create the content of an empty notebook.
+   */
+  export
+  function newNotebook(): any {
+    return { cells: [], metadata: {}, nbformat: 4, nbformat_minor: 1 };
+  }
+
+  /**
+   * Encode the content of a notebook as the bytes of its file.
+   */
+  export
+  function encodeNotebook(content: any): Uint8Array {
+    return encodeUtf8(JSON.stringify(content, null, 1) + '\n');
+  }
+}
@@ -0,0 +1,351 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONObject, JSONValue
+} from 'phosphor/lib/algorithm/json';
+
+
+/**
+ * A namespace for nbformat v4 interfaces.
+ *
+ * #### Notes
+ * The interfaces follow the [nbformat v4 schema](https://github.com/jupyter/nbformat/blob/master/nbformat/v4/nbformat.v4.schema.json).
+ */
+export
+namespace nbformat {
+  /**
+   * The major version of the notebook format.
+   */
+  export
+  const MAJOR_VERSION = 4;
+
+  /**
+   * The minor version of the notebook format.
+   */
+  export
+  const MINOR_VERSION = 1;
+
+  /**
+   * A multiline string, stored as a string or an array of lines.
+   *
+   * #### Notes
+   * Each line of an array of lines ends with its `\n`, except the last.
+   */
+  export
+  type MultilineString = string | string[];
+
+  /**
+   * A mime bundle, keyed by mime type.
+   *
+   * #### Notes
+   * The value of a JSON mime type is any JSON value, and the value of
+   * any other mime type is a multiline string.
+   */
+  export
+  interface IMimeBundle extends JSONObject {
+    [key: string]: MultilineString | JSONValue;
+  }
+
+  /**
+   * Attachments of a markdown or raw cell, keyed by file name.
+   */
+  export
+  interface IAttachments extends JSONObject {
+    [key: string]: IMimeBundle;
+  }
+
+  /**
+   * The kernel spec metadata of a notebook.
+   */
+  export
+  interface IKernelspecMetadata extends JSONObject {
+    /**
+     * The name of the kernel spec.
+     */
+    name: string;
+
+    /**
+     * The name of the kernel spec shown to the user.
+     */
+    display_name: string;
+  }
+
+  /**
+   * The language info metadata of a notebook.
+   */
+  export
+  interface ILanguageInfoMetadata extends JSONObject {
+    /**
+     * The programming language of the kernel.
+     */
+    name: string;
+
+    /**
+     * The CodeMirror mode used for the language.
+     */
+    codemirror_mode?: string | JSONObject;
+
+    /**
+     * The file extension of files in the language.
+     */
+    file_extension?: string;
+
+    /**
+     * The mime type of files in the language.
+     */
+    mimetype?: string;
+
+    /**
+     * The Pygments lexer used for the language.
+     */
+    pygments_lexer?: string;
+  }
+
+  /**
+   * The metadata of a notebook.
+   */
+  export
+  interface INotebookMetadata extends JSONObject {
+    /**
+     * The kernel spec used by the notebook.
+     */
+    kernelspec?: IKernelspecMetadata;
+
+    /**
+     * The language of the kernel used by the notebook.
+     */
+    language_info?: ILanguageInfoMetadata;
+
+    /**
+     * The major version of the notebook format the notebook was
+     * converted from.
+     */
+    orig_nbformat?: number;
+  }
+
+  /**
+   * The content of a notebook.
+   */
+  export
+  interface INotebookContent extends JSONObject {
+    /**
+     * The metadata of the notebook.
+     */
+    metadata: INotebookMetadata;
+
+    /**
+     * The major version of the notebook format, which is `4`.
+     */
+    nbformat: number;
+
+    /**
+     * The minor version of the notebook format.
+     */
+    nbformat_minor: number;
+
+    /**
+     * The cells of the notebook.
+     */
+    cells: ICell[];
+  }
+
+  /**
+   * A cell type.
+   */
+  export
+  type CellType = 'code' | 'markdown' | 'raw';
+
+  /**
+   * The metadata of a cell.
+   */
+  export
+  interface ICellMetadata extends JSONObject {
+    /**
+     * The name of the cell.
+     */
+    name?: string;
+
+    /**
+     * The tags of the cell.
+     */
+    tags?: string[];
+
+    /**
+     * Whether the cell is collapsed.
+     */
+    collapsed?: boolean;
+
+    /**
+     * Whether the cell can be deleted.
+     */
+    deletable?: boolean;
+
+    /**
+     * Whether the cell can be edited.
+     */
+    editable?: boolean;
+  }
+
+  /**
+   * The base cell interface.
+   */
+  export
+  interface IBaseCell extends JSONObject {
+    /**
+     * The type of the cell.
+     */
+    cell_type: CellType;
+
+    /**
+     * The metadata of the cell.
+     */
+    metadata: ICellMetadata;
+
+    /**
+     * The source of the cell.
+     */
+    source: MultilineString;
+  }
+
+  /**
+   * A raw cell.
+   */
+  export
+  interface IRawCell extends IBaseCell {
+    /**
+     * The files attached to the cell.
+     */
+    attachments?: IAttachments;
+  }
+
+  /**
+   * A markdown cell.
+   */
+  export
+  interface IMarkdownCell extends IBaseCell {
+    /**
+     * The files attached to the cell.
+     */
+    attachments?: IAttachments;
+  }
+
+  /**
+   * A code cell.
+   */
+  export
+  interface ICodeCell extends IBaseCell {
+    /**
+     * The execution count of the cell, or `null` if it was not executed.
+     */
+    execution_count: number;
+
+    /**
+     * The outputs of the cell.
+     */
+    outputs: IOutput[];
+  }
+
+  /**
+   * A cell of any type.
+   */
+  export
+  type ICell = IRawCell | IMarkdownCell | ICodeCell;
+
+  /**
+   * An output type.
+   */
+  export
+  type OutputType = 'execute_result' | 'display_data' | 'stream' | 'error';
+
+  /**
+   * The base output interface.
+   */
+  export
+  interface IBaseOutput extends JSONObject {
+    /**
+     * The type of the output.
+     */
+    output_type: OutputType;
+  }
+
+  /**
+   * The result of executing a code cell.
+   */
+  export
+  interface IExecuteResult extends IBaseOutput {
+    /**
+     * The execution count of the result.
+     */
+    execution_count: number;
+
+    /**
+     * The data of the result, keyed by mime type.
+     */
+    data: IMimeBundle;
+
+    /**
+     * The metadata of the result.
+     */
+    metadata: JSONObject;
+  }
+
+  /**
+   * Data displayed by a code cell.
+   */
+  export
+  interface IDisplayData extends IBaseOutput {
+    /**
+     * The data displayed, keyed by mime type.
+     */
+    data: IMimeBundle;
+
+    /**
+     * The metadata of the data.
+     */
+    metadata: JSONObject;
+  }
+
+  /**
+   * Text written to a stream by a code cell.
+   */
+  export
+  interface IStream extends IBaseOutput {
+    /**
+     * The name of the stream, `'stdout'` or `'stderr'`.
+     */
+    name: string;
+
+    /**
+     * The text written to the stream.
+     */
+    text: MultilineString;
+  }
+
+  /**
+   * An error raised by a code cell.
+   */
+  export
+  interface IError extends IBaseOutput {
+    /**
+     * The name of the error.
+     */
+    ename: string;
+
+    /**
+     * The message of the error.
+     */
+    evalue: string;
+
+    /**
+     * The lines of the traceback of the error.
+     */
+    traceback: string[];
+  }
+
+  /**
+   * An output of any type.
+   */
+  export
+  type IOutput = IExecuteResult | IDisplayData | IStream | IError;
+}
@@ -0,0 +1,917 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import * as posix
+ from 'path-posix';
+
+import {
+  JSONObject
+} from 'phosphor/lib/algorithm/json';
+
+import {
+  CancellationError, ResponseError
+} from '../errors';
+
+import {
+  BinaryData, CancellationToken
+} from '../utils';
+
+import {
+  driveName, globalPath, localPath
+} from './drive';
+
+import {
+  Contents
+} from './index';
+
+
+/**
+ * An entry of a directory tree to upload.
+ */
+export
+interface IUploadEntry {
+  /**
+   * The `/`-delimited path of the entry, relative to the target directory.
+   */
+  path: string;
+
+  /**
+   * The binary data of a file.
+   *
+   * #### Notes
+   * An entry without data is created as a directory.
+   */
+  data?: BinaryData;
+}
+
+
+/**
+ * The options used to upload a directory tree.
+ */
+export
+interface IUploadTreeOptions {
+  /**
+   * The number of bytes in each chunk of an uploaded file.
+   *
+   * #### Notes
+   * Defaults to [[ContentsManager.DEFAULT_CHUNK_SIZE]].
+   */
+  chunkSize?: number;
+
+  /**
+   * The optional token used to cancel the upload.
+   */
+  cancelToken?: CancellationToken;
+}
+
+
+/**
+ * The options used to download a directory tree.
+ */
+export
+interface IDownloadTreeOptions {
+  /**
+   * The optional token used to cancel the download.
+   */
+  cancelToken?: CancellationToken;
+
+  /**
+   * A function called with the model of each entry as it is downloaded.
+   *
+   * #### Notes
+   * The models given to this function are not added to the result, so
+   * that the content of a file can be released once it is handled.
+   */
+  onEntry?: (model: Contents.IModel) => void;
+}
+
+
+/**
+ * An error for an entry of a directory tree.
+ */
+export
+interface ITreeError {
+  /**
+   * The path of the entry.
+   */
+  path: string;
+
+  /**
+   * The error raised for the entry.
+   */
+  error: Error;
+}
+
+
+/**
+ * The result of an operation on a directory tree.
+ */
+export
+interface ITreeResult {
+  /**
+   * The models of the entries which succeeded, in the order they were
+   * processed.
+   */
+  models: Contents.IModel[];
+
+  /**
+   * The errors for the entries which failed.
+   */
+  errors: ITreeError[];
+}
+
+
+/**
+ * The strategy used when an entry of a tree already exists at its
+ * destination.
+ *
+ * #### Notes
+ * With `'skip'` the existing file is kept, and with `'overwrite'` it is
+ * replaced.  Existing directories are merged with both strategies.
+ *
+ * With `'rename'` the entry is given a new name with a `-Copy` suffix,
+ * so that nothing is merged or replaced.
+ */
+export
+type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+
+/**
+ * The type of an action on an entry of a tree.
+ *
+ * #### Notes
+ * The actions are:
+ * - `'directory'`: create the directory at `path`.
+ * - `'copy'`: copy the file at `source` to `path`.
+ * - `'rename'`: rename the entry at `source` to `path`.
+ * - `'delete'`: delete the entry at `path`.
+ * - `'skip'`: leave the entry at `source`, as `path` already exists.
+ */
+export
+type TreeActionType = 'directory' | 'copy' | 'rename' | 'delete' | 'skip';
+
+
+/**
+ * An action on an entry of a tree.
+ */
+export
+interface ITreeAction extends JSONObject {
+  /**
+   * The type of the action.
+   */
+  type: TreeActionType;
+
+  /**
+   * The path of the entry affected by the action.
+   */
+  path: string;
+
+  /**
+   * The source path of a `'copy'`, `'rename'` or `'skip'` action.
+   */
+  source?: string;
+}
+
+
+/**
+ * The progress of an operation on a tree.
+ */
+export
+interface ITreeProgress extends JSONObject {
+  /**
+   * The action which was performed.
+   */
+  action: ITreeAction;
+
+  /**
+   * The number of actions which were performed.
+   */
+  completed: number;
+
+  /**
+   * The total number of actions.
+   */
+  total: number;
+}
+
+
+/**
+ * The options used to copy, move or delete a tree.
+ */
+export
+interface ITreeOptions {
+  /**
+   * Whether to plan the actions without performing them.
+   * Defaults to `false`.
+   */
+  dryRun?: boolean;
+
+  /**
+   * The strategy used when an entry exists at its destination.
+   * Defaults to `'skip'`.
+   *
+   * #### Notes
+   * This is not used when deleting a tree.
+   */
+  conflict?: ConflictStrategy;
+
+  /**
+   * A function called with the progress of the operation after each
+   * action is performed.
+   */
+  onProgress?: (progress: ITreeProgress) => void;
+
+  /**
+   * The optional token used to cancel the operation.
+   */
+  cancelToken?: CancellationToken;
+}
+
+
+/**
+ * The report of an operation on a tree.
+ */
+export
+interface ITreeReport extends ITreeResult {
+  /**
+   * The actions of the operation, in the order they are performed.
+   *
+   * #### Notes
+   * The models are the models returned by the actions which succeeded.
+   * The actions are planned but not performed for a dry run, in which
+   * case there are no models or errors.
+   */
+  actions: ITreeAction[];
+}
+
+
+/**
+ * Upload a directory tree.
+ *
+ * @param manager - The contents manager used to save the tree.
+ *
+ * @param path - The path of the target directory.
+ *
+ * @param entries - The entries of the tree.
+ *
+ * @param options - The options used to upload the tree.
+ *
+ * @returns A promise which resolves with the result of the upload, or
+ *   rejects with a [[CancellationError]] if the upload is cancelled.
+ *
+ * #### Notes
+ * The target directory and the parent directories of the entries are
+ * created as needed, before the files are uploaded.
+ *
+ * A failed entry does not stop the upload, and its error is given in the
+ * result.
+ */
+export
+function uploadTree(manager: Contents.IManager, path: string, entries: IUploadEntry[], options: IUploadTreeOptions = {}): Promise<ITreeResult> {
+  let token = options.cancelToken;
+  let result: ITreeResult = { models: [], errors: [] };
+
+  // Find the directories to create, parents first.
+  let dirs: string[] = [];
+  let addDir = (dir: string) => {
+    if (dir === '.' || dir === '' || dirs.indexOf(dir) !== -1) {
+      return;
+    }
+    addDir(posix.dirname(dir));
+    dirs.push(dir);
+  };
+  let files: IUploadEntry[] = [];
+  for (let entry of entries) {
+    if (entry.data === void 0) {
+      addDir(entry.path);
+    } else {
+      addDir(posix.dirname(entry.path));
+      files.push(entry);
+    }
+  }
+
+  let tasks: { path: string, run: () => Promise<Contents.IModel> }[] = [];
+  let addTask = (taskPath: string, run: () => Promise<Contents.IModel>) => {
+    tasks.push({ path: taskPath, run });
+  };
+  let local = localPath(path || '');
+  if (local && local !== '/') {
+    addTask(path, () => manager.save(path, { type: 'directory' }, { cancelToken: token }));
+  }
+  for (let dir of dirs) {
+    let dirPath = Private.join(path, dir);
+    addTask(dirPath, () => manager.save(dirPath, { type: 'directory' }, { cancelToken: token }));
+  }
+  for (let file of files) {
+    let filePath = Private.join(path, file.path);
+    addTask(filePath, () => manager.upload(filePath, file.data, {
+      chunkSize: options.chunkSize, cancelToken: token
+    }));
+  }
+
+  let chain = Promise.resolve(void 0);
+  for (let task of tasks) {
+    chain = chain.then(() => {
+      return Private.runTask(task.path, task.run, token, result);
+    });
+  }
+  return chain.then(() => result);
+}
+
+
+/**
+ * Download a directory tree.
+ *
+ * @param manager - The contents manager used to get the tree.
+ *
+ * @param path - The path of the directory.
+ *
+ * @param options - The options used to download the tree.
+ *
+ * @returns A promise which resolves with the result of the download, or
+ *   rejects with a [[CancellationError]] if the download is cancelled.
+ *
+ * #### Notes
+ * The result contains a model with content for each file in the tree,
+ * and a model without content for each directory below the given
+ * directory.  Directories are given before their contents.
+ *
+ * A failed entry does not stop the download, and its error is given in
+ * the result.  The promise is rejected if the given directory cannot be
+ * fetched.
+ *
+ * The entries are downloaded one at a time, so an `onEntry` function
+ * gets them in the order they would have in the result.
+ */
+export
+function downloadTree(manager: Contents.IManager, path: string, options: IDownloadTreeOptions = {}): Promise<ITreeResult> {
+  let token = options.cancelToken;
+  let result: ITreeResult = { models: [], errors: [] };
+  let dirOptions: Contents.IFetchOptions = { type: 'directory', content: true };
+  let fileOptions: Contents.IFetchOptions = { content: true };
+  let addModel = (model: Contents.IModel): Promise<void> => {
+    if (!model) {
+      return Promise.resolve(void 0);
+    }
+    if (options.onEntry) {
+      options.onEntry(model);
+    } else {
+      result.models.push(model);
+    }
+    return Promise.resolve(void 0);
+  };
+
+  let walk = (dir: Contents.IModel): Promise<void> => {
+    let chain = Promise.resolve(void 0);
+    for (let child of (dir.content || []) as Contents.IModel[]) {
+      if (child.type === 'directory') {
+        chain = chain.then(() => {
+          return Private.runTask(child.path, () => {
+            return manager.get(child.path, dirOptions, { cancelToken: token });
+          }, token, result, model => {
+            return addModel(Private.withoutContent(model)).then(() => {
+              return walk(model);
+            });
+          });
+        });
+      } else {
+        chain = chain.then(() => {
+          return Private.runTask(child.path, () => {
+            return manager.get(child.path, fileOptions, { cancelToken: token });
+          }, token, result, addModel);
+        });
+      }
+    }
+    return chain;
+  };
+
+  return manager.get(path, dirOptions, { cancelToken: token }).then(walk).then(() => {
+    return result;
+  });
+}
+
+
+/**
+ * Copy a directory tree.
+ *
+ * @param manager - The contents manager used to copy the tree.
+ *
+ * @param path - The path of the directory.
+ *
+ * @param newPath - The path of the copy of the directory.
+ *
+ * @param options - The options used to copy the tree.
+ *
+ * @returns A promise which resolves with the report of the copy, or
+ *   rejects with a [[CancellationError]] if the copy is cancelled.
+ *
+ * #### Notes
+ * The server cannot copy directories, or copy a file to a given name, so
+ * each file is fetched and saved at its new path.
+ *
+ * The promise is rejected if the tree cannot be listed.  A failed action
+ * does not stop the copy, and its error is given in the report.
+ */
+export
+function copyTree(manager: Contents.IManager, path: string, newPath: string, options: ITreeOptions = {}): Promise<ITreeReport> {
+  let planner = new Private.Planner(manager, options);
+  let root = Private.normalize(path);
+  let plan = Private.listTree(manager, root, options.cancelToken).then(models => {
+    return planner.resolve(newPath).then(dest => {
+      let dirs: { [key: string]: string } = { '': dest };
+      if (!planner.exists(dest)) {
+        planner.add({ type: 'directory', path: dest });
+      }
+      let chain = Promise.resolve(void 0);
+      for (let model of models) {
+        let relative = Private.relative(root, model.path);
+        chain = chain.then(() => {
+          let parent = dirs[Private.dirname(relative)];
+          let target = Private.join(parent, model.name);
+          return planner.resolve(target).then(newTarget => {
+            let exists = planner.exists(newTarget);
+            if (model.type === 'directory') {
+              dirs[relative] = newTarget;
+              if (!exists) {
+                planner.add({ type: 'directory', path: newTarget });
+              }
+            } else if (exists && planner.conflict === 'skip') {
+              planner.add({ type: 'skip', source: model.path, path: newTarget });
+            } else {
+              planner.add({ type: 'copy', source: model.path, path: newTarget });
+            }
+          });
+        });
+      }
+      return chain;
+    });
+  });
+  return plan.then(() => planner.run());
+}
+
+
+/**
+ * Move a directory tree.
+ *
+ * @param manager - The contents manager used to move the tree.
+ *
+ * @param path - The path of the directory.
+ *
+ * @param newPath - The new path of the directory.
+ *
+ * @param options - The options used to move the tree.
+ *
+ * @returns A promise which resolves with the report of the move, or
+ *   rejects with a [[CancellationError]] if the move is cancelled.
+ *
+ * #### Notes
+ * A directory which does not exist at its destination is renamed with a
+ * single request.  The entries of a directory which is merged with an
+ * existing directory are moved one at a time, and the directory is
+ * deleted if none of its entries are skipped.
+ *
+ * The promise is rejected if the tree cannot be listed, or if a
+ * directory would be merged with a file, before anything is moved.  A
+ * failed action does not stop the move, and its error is given in the
+ * report.
+ */
+export
+function moveTree(manager: Contents.IManager, path: string, newPath: string, options: ITreeOptions = {}): Promise<ITreeReport> {
+  let planner = new Private.Planner(manager, options);
+  let root = Private.normalize(path);
+  let plan = planner.resolve(newPath).then(dest => {
+    if (!planner.exists(dest)) {
+      planner.add({ type: 'rename', source: root, path: dest });
+      return;
+    }
+    if (!planner.isDirectory(dest)) {
+      throw Private.createMergeError(dest);
+    }
+    return Private.listTree(manager, root, options.cancelToken).then(models => {
+      let dirs: { [key: string]: string } = { '': dest };
+      let merged: string[] = [root];
+      let kept: string[] = [];
+      let chain = Promise.resolve(void 0);
+      for (let model of models) {
+        let relative = Private.relative(root, model.path);
+        chain = chain.then(() => {
+          let parent = dirs[Private.dirname(relative)];
+          if (parent === void 0) {
+            // The entry was moved with its directory.
+            return;
+          }
+          let target = Private.join(parent, model.name);
+          return planner.resolve(target).then(newTarget => {
+            let exists = planner.exists(newTarget);
+            if (model.type === 'directory' && exists) {
+              if (!planner.isDirectory(newTarget)) {
+                throw Private.createMergeError(newTarget);
+              }
+              dirs[relative] = newTarget;
+              merged.push(model.path);
+            } else if (exists && planner.conflict === 'skip') {
+              planner.add({ type: 'skip', source: model.path, path: newTarget });
+              kept.push(model.path);
+            } else {
+              if (exists) {
+                planner.add({ type: 'delete', path: newTarget });
+              }
+              planner.add({ type: 'rename', source: model.path, path: newTarget });
+            }
+          });
+        });
+      }
+      return chain.then(() => {
+        // Delete the merged directories which are empty, deepest first.
+        merged.reverse();
+        for (let dir of merged) {
+          let isKept = kept.some(keptPath => {
+            return keptPath.indexOf(`${dir}/`) === 0;
+          });
+          if (!isKept) {
+            planner.add({ type: 'delete', path: dir });
+          }
+        }
+      });
+    });
+  });
+  return plan.then(() => planner.run());
+}
+
+
+/**
+ * Delete a directory tree.
+ *
+ * @param manager - The contents manager used to delete the tree.
+ *
+ * @param path - The path of the directory.
+ *
+ * @param options - The options used to delete the tree.
+ *
+ * @returns A promise which resolves with the report of the deletion, or
+ *   rejects with a [[CancellationError]] if the deletion is cancelled.
+ *
+ * #### Notes
+ * The server does not delete directories which are not empty, so the
+ * entries of each directory are deleted before the directory.
+ *
+ * The promise is rejected if the tree cannot be listed.  A failed action
+ * does not stop the deletion, and its error is given in the report.
+ */
+export
+function deleteTree(manager: Contents.IManager, path: string, options: ITreeOptions = {}): Promise<ITreeReport> {
+  let planner = new Private.Planner(manager, options);
+  let root = Private.normalize(path);
+  return Private.listTree(manager, root, options.cancelToken).then(models => {
+    models.reverse();
+    for (let model of models) {
+      planner.add({ type: 'delete', path: model.path });
+    }
+    planner.add({ type: 'delete', path: root });
+    return planner.run();
+  });
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Run a task for an entry of a tree, adding its outcome to a result.
+   *
+   * #### Notes
+   * The `onSuccess` function is called with the model of a successful
+   * task instead of adding it to the result.
+   *
+   * The promise is rejected with a [[CancellationError]] if the token is
+   * cancelled, and is otherwise resolved.
+   */
+  export
+  function runTask(path: string, task: () => Promise<Contents.IModel>, token: CancellationToken, result: ITreeResult, onSuccess?: (model: Contents.IModel) => Promise<void>): Promise<void> {
+    if (token && token.isCancelled) {
+      return Promise.reject(createCancellationError(token));
+    }
+    return task().then(model => {
+      if (onSuccess) {
+        return onSuccess(model);
+      }
+      if (model) {
+        result.models.push(model);
+      }
+    }, (error: Error) => {
+      if (error instanceof CancellationError) {
+        throw error;
+      }
+      result.errors.push({ path, error });
+    });
+  }
+
+  /**
+   * Create a cancellation error for a token.
+   */
+  export
+  function createCancellationError(token: CancellationToken): CancellationError {
+    return new CancellationError({
+      event: null, xhr: null, ajaxSettings: null, throwError: token.reason
+    });
+  }
+
+  /**
+   * Create the error for a directory which would be merged with a file.
+   */
+  export
+  function createMergeError(path: string): Error {
+    return new Error(`Cannot merge a directory with the file: ${path}`);
+  }
+
+  /**
+   * Get a copy of a model without its content.
+   */
+  export
+  function withoutContent(model: Contents.IModel): Contents.IModel {
+    let copy: Contents.IModel = {};
+    for (let key in model) {
+      (copy as any)[key] = (model as any)[key];
+    }
+    copy.content = null;
+    return copy;
+  }
+
+  /**
+   * The options used to fetch a directory with its entries.
+   */
+  const dirOptions: Contents.IFetchOptions = { type: 'directory', content: true };
+
+  /**
+   * Normalize a path to a path without leading or trailing slashes.
+   *
+   * #### Notes
+   * The drive prefix of the path is kept.
+   */
+  export
+  function normalize(path: string): string {
+    let local = posix.resolve('/', localPath(path)).slice(1);
+    return globalPath(driveName(path), local);
+  }
+
+  /**
+   * Get the directory of a normalized path, which is `''` for the root.
+   *
+   * #### Notes
+   * The root of a drive is given by the drive prefix, such as `'drive:'`.
+   */
+  export
+  function dirname(path: string): string {
+    let dir = posix.dirname(localPath(path));
+    return globalPath(driveName(path), dir === '.' || dir === '/' ? '' : dir);
+  }
+
+  /**
+   * Get the last portion of a path, ignoring its drive prefix.
+   */
+  export
+  function basename(path: string): string {
+    return posix.basename(localPath(path));
+  }
+
+  /**
+   * Join a relative path to a directory, keeping its drive prefix.
+   */
+  export
+  function join(dir: string, path: string): string {
+    let local = posix.join(localPath(dir), path);
+    return globalPath(driveName(dir), local === '.' ? '' : local);
+  }
+
+  /**
+   * Get the path of an entry relative to a normalized directory.
+   */
+  export
+  function relative(dir: string, path: string): string {
+    return posix.relative(`/${localPath(dir)}`, `/${localPath(path)}`);
+  }
+
+  /**
+   * List the entries below a directory, without content.
+   *
+   * #### Notes
+   * Directories are given before their entries.
+   */
+  export
+  function listTree(manager: Contents.IManager, path: string, token: CancellationToken): Promise<Contents.IModel[]> {
+    let models: Contents.IModel[] = [];
+    let walk = (dir: string): Promise<void> => {
+      if (token && token.isCancelled) {
+        return Promise.reject(createCancellationError(token));
+      }
+      return manager.get(dir, dirOptions, { cancelToken: token }).then(model => {
+        let chain = Promise.resolve(void 0);
+        for (let child of (model.content || []) as Contents.IModel[]) {
+          models.push(withoutContent(child));
+          if (child.type === 'directory') {
+            chain = chain.then(() => walk(child.path));
+          }
+        }
+        return chain;
+      });
+    };
+    return walk(path).then(() => models);
+  }
+
+  /**
+   * A planner of the actions of an operation on a tree.
+   */
+  export
+  class Planner {
+    /**
+     * Construct a new planner.
+     */
+    constructor(manager: Contents.IManager, options: ITreeOptions) {
+      this.manager = manager;
+      this.options = options;
+      this.conflict = options.conflict || 'skip';
+    }
+
+    /**
+     * The contents manager of the operation.
+     */
+    manager: Contents.IManager;
+
+    /**
+     * The options of the operation.
+     */
+    options: ITreeOptions;
+
+    /**
+     * The conflict strategy of the operation.
+     */
+    conflict: ConflictStrategy;
+
+    /**
+     * Add an action to the plan.
+     *
+     * #### Notes
+     * The names used by the action are tracked, so that later actions
+     * are resolved against the planned state of the tree.
+     */
+    add(action: ITreeAction): void {
+      this._actions.push(action);
+      let names = this._names[dirname(action.path)];
+      if (action.type === 'delete') {
+        if (names) {
+          let index = names.indexOf(basename(action.path));
+          if (index !== -1) {
+            names.splice(index, 1);
+          }
+        }
+        delete this._dirs[action.path];
+        return;
+      }
+      if (action.type === 'skip') {
+        return;
+      }
+      if (names) {
+        names.push(basename(action.path));
+      }
+      if (action.type === 'directory') {
+        this._names[action.path] = [];
+        this._dirs[action.path] = true;
+      }
+    }
+
+    /**
+     * Whether a path which was resolved by the planner exists.
+     */
+    exists(path: string): boolean {
+      let names = this._names[dirname(path)];
+      return names.indexOf(basename(path)) !== -1;
+    }
+
+    /**
+     * Whether a path which was resolved by the planner is a directory.
+     */
+    isDirectory(path: string): boolean {
+      return this._dirs[path] === true;
+    }
+
+    /**
+     * Resolve the destination of an entry according to the conflict
+     * strategy.
+     *
+     * @returns A promise which resolves with the normalized path of the
+     *   destination, which is a new name if the path exists and the
+     *   strategy is `'rename'`.
+     */
+    resolve(path: string): Promise<string> {
+      path = normalize(path);
+      let dir = dirname(path);
+      return this._listNames(dir).then(names => {
+        let name = basename(path);
+        if (this.conflict !== 'rename' || names.indexOf(name) === -1) {
+          return path;
+        }
+        let ext = posix.extname(name);
+        let stem = name.slice(0, name.length - ext.length);
+        let n = 1;
+        while (names.indexOf(`${stem}-Copy${n}${ext}`) !== -1) {
+          n++;
+        }
+        return join(dir, `${stem}-Copy${n}${ext}`);
+      });
+    }
+
+    /**
+     * Perform the planned actions.
+     *
+     * @returns A promise which resolves with the report of the
+     *   operation.
+     */
+    run(): Promise<ITreeReport> {
+      let actions = this._actions;
+      let options = this.options;
+      let token = options.cancelToken;
+      let report: ITreeReport = { actions, models: [], errors: [] };
+      if (options.dryRun) {
+        return Promise.resolve(report);
+      }
+      let chain = Promise.resolve(void 0);
+      actions.forEach((action, i) => {
+        chain = chain.then(() => {
+          return runTask(action.path, () => {
+            return this._perform(action);
+          }, token, report);
+        }).then(() => {
+          if (options.onProgress) {
+            let progress: ITreeProgress = {
+              action, completed: i + 1, total: actions.length
+            };
+            options.onProgress(progress);
+          }
+        });
+      });
+      return chain.then(() => report);
+    }
+
+    /**
+     * Perform an action.
+     */
+    private _perform(action: ITreeAction): Promise<Contents.IModel> {
+      let manager = this.manager;
+      let token = this.options.cancelToken;
+      switch (action.type) {
+      case 'directory':
+        return manager.save(action.path, { type: 'directory' }, { cancelToken: token });
+      case 'copy':
+        return manager.get(action.source, { content: true }, { cancelToken: token }).then(model => {
+          let copy: Contents.IModel = {
+            type: model.type, format: model.format, content: model.content
+          };
+          return manager.save(action.path, copy, { cancelToken: token });
+        });
+      case 'rename':
+        return manager.rename(action.source, action.path, token);
+      case 'delete':
+        return manager.delete(action.path, token).then(() => null);
+      default:
+        return Promise.resolve(null);
+      }
+    }
+
+    /**
+     * Get the names of the entries of a directory.
+     *
+     * #### Notes
+     * A directory which does not exist has no entries.
+     */
+    private _listNames(dir: string): Promise<string[]> {
+      if (dir in this._names) {
+        return Promise.resolve(this._names[dir]);
+      }
+      let token = this.options.cancelToken;
+      return this.manager.get(dir, dirOptions, { cancelToken: token }).then(model => {
+        return ((model.content || []) as Contents.IModel[]).map(child => {
+          if (child.type === 'directory') {
+            this._dirs[join(dir, child.name)] = true;
+          }
+          return child.name;
+        });
+      }, (error: Error) => {
+        if (error instanceof ResponseError && error.status === 404) {
+          return [] as string[];
+        }
+        throw error;
+      }).then(names => {
+        // Another request may have listed the directory first.
+        if (!(dir in this._names)) {
+          this._names[dir] = names;
+        }
+        return this._names[dir];
+      });
+    }
+
+    private _actions: ITreeAction[] = [];
+    private _names: { [key: string]: string[] } = Object.create(null);
+    private _dirs: { [key: string]: boolean } = Object.create(null);
+  }
+}
@@ -0,0 +1,306 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONObject
+} from 'phosphor/lib/algorithm/json';
+
+import * as utils
+  from '../utils';
+
+import {
+  nbformat
+} from './nbformat';
+
+
+/**
+ * Upgrade the content of a notebook to the current notebook format.
+ *
+ * @param content - The notebook content, which is not modified.
+ *
+ * @returns A normalized copy of the content, converted from nbformat v3
+ *   if necessary.
+ *
+ * #### Notes
+ * Content which is not a notebook of a known version is returned as is,
+ * so that it fails validation with [[validateNotebook]].
+ */
+export
+function upgradeNotebook(content: JSONObject): nbformat.INotebookContent {
+  if (!Private.isObject(content)) {
+    return content as nbformat.INotebookContent;
+  }
+  if (content['nbformat'] === 3) {
+    return normalizeNotebook(convertNotebookV3(content));
+  }
+  if (content['nbformat'] === nbformat.MAJOR_VERSION) {
+    return normalizeNotebook(content as nbformat.INotebookContent);
+  }
+  return content as nbformat.INotebookContent;
+}
+
+
+/**
+ * Convert the content of an nbformat v3 notebook to nbformat v4.
+ *
+ * @param content - The v3 notebook content, which is not modified.
+ *
+ * @returns The v4 notebook content, with an `orig_nbformat` of `3`.
+ *
+ * #### Notes
+ * The cells of all of the worksheets are joined, heading cells become
+ * markdown headings, and the outputs of code cells are converted to
+ * mime bundles.  This follows the `nbformat.v4.convert` module of the
+ * Python package.
+ */
+export
+function convertNotebookV3(content: JSONObject): nbformat.INotebookContent {
+  let source = utils.copy(content) as any;
+  let metadata = Private.isObject(source.metadata) ? source.metadata : {};
+  delete metadata['name'];
+  delete metadata['signature'];
+  if (!('orig_nbformat' in metadata)) {
+    metadata['orig_nbformat'] = 3;
+  }
+  let cells: nbformat.ICell[] = [];
+  for (let worksheet of Private.asArray(source.worksheets)) {
+    for (let cell of Private.asArray(worksheet && worksheet.cells)) {
+      cells.push(Private.convertCell(cell));
+    }
+  }
+  return { metadata, nbformat: 4, nbformat_minor: 0, cells };
+}
+
+
+/**
+ * Normalize the content of an nbformat v4 notebook.
+ *
+ * @param content - The notebook content, which is not modified.
+ *
+ * @returns A copy of the content with its multiline strings joined, and
+ *   its minor version raised to [[nbformat.MINOR_VERSION]].
+ *
+ * #### Notes
+ * The sources of cells, the text of streams, and the non-JSON values of
+ * mime bundles are joined into single strings.
+ */
+export
+function normalizeNotebook(content: nbformat.INotebookContent): nbformat.INotebookContent {
+  let result = utils.copy(content) as nbformat.INotebookContent;
+  if (typeof result.nbformat_minor === 'number') {
+    result.nbformat_minor = Math.max(
+      result.nbformat_minor, nbformat.MINOR_VERSION
+    );
+  }
+  for (let cell of Private.asArray(result.cells)) {
+    if (!Private.isObject(cell)) {
+      continue;
+    }
+    Private.joinProperty(cell, 'source');
+    let attachments = (cell as nbformat.IMarkdownCell).attachments;
+    if (Private.isObject(attachments)) {
+      for (let name of Object.keys(attachments)) {
+        Private.joinMimeBundle(attachments[name]);
+      }
+    }
+    for (let output of Private.asArray(cell['outputs'])) {
+      if (Private.isObject(output)) {
+        Private.joinProperty(output, 'text');
+        Private.joinMimeBundle(output['data']);
+      }
+    }
+  }
+  return result;
+}
+
+
+/**
+ * A namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The mime types of the output keys of nbformat v3.
+   */
+  const MIME_TYPES: { [key: string]: string } = {
+    text: 'text/plain',
+    html: 'text/html',
+    svg: 'image/svg+xml',
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    latex: 'text/latex',
+    json: 'application/json',
+    javascript: 'application/javascript'
+  };
+
+  /**
+   * Test whether a value is a JSON object.
+   */
+  export
+  function isObject(value: any): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Get a value as an array, or an empty array if it is not one.
+   */
+  export
+  function asArray(value: any): any[] {
+    return Array.isArray(value) ? value : [];
+  }
+
+  /**
+   * Join a multiline string property of an object into a single string.
+   */
+  export
+  function joinProperty(object: any, name: string): void {
+    let value = object[name];
+    if (Array.isArray(value) && value.every((line: any) => typeof line === 'string')) {
+      object[name] = value.join('');
+    }
+  }
+
+  /**
+   * Join the multiline string values of a mime bundle.
+   *
+   * #### Notes
+   * The values of JSON mime types are not changed.
+   */
+  export
+  function joinMimeBundle(bundle: any): void {
+    if (!isObject(bundle)) {
+      return;
+    }
+    for (let mimetype of Object.keys(bundle)) {
+      if (!isJSONMimeType(mimetype)) {
+        joinProperty(bundle, mimetype);
+      }
+    }
+  }
+
+  /**
+   * Test whether the values of a mime type are JSON values.
+   */
+  function isJSONMimeType(mimetype: string): boolean {
+    return /^application\/(.+\+)?json$/.test(mimetype);
+  }
+
+  /**
+   * Convert an nbformat v3 cell to nbformat v4.
+   */
+  export
+  function convertCell(cell: any): nbformat.ICell {
+    if (!isObject(cell)) {
+      return cell;
+    }
+    let metadata = isObject(cell.metadata) ? cell.metadata : {};
+    switch (cell.cell_type) {
+    case 'code':
+      if ('collapsed' in cell) {
+        metadata['collapsed'] = cell.collapsed;
+      }
+      let count = cell.prompt_number;
+      return {
+        cell_type: 'code',
+        metadata,
+        source: cell.input || '',
+        execution_count: typeof count === 'number' ? count : null,
+        outputs: asArray(cell.outputs).map(convertOutput)
+      };
+    case 'heading':
+      joinProperty(cell, 'source');
+      let level = typeof cell.level === 'number' ? cell.level : 1;
+      let text = String(cell.source || '').split(/\r?\n/).join(' ');
+      return {
+        cell_type: 'markdown',
+        metadata,
+        source: `${Array(level + 1).join('#')} ${text}`
+      };
+    case 'html':
+      return { cell_type: 'markdown', metadata, source: cell.source || '' };
+    default:
+      // Markdown and raw cells are unchanged.
+      cell.metadata = metadata;
+      return cell;
+    }
+  }
+
+  /**
+   * Convert an nbformat v3 output to nbformat v4.
+   */
+  function convertOutput(output: any): nbformat.IOutput {
+    if (!isObject(output)) {
+      return output;
+    }
+    switch (output.output_type) {
+    case 'pyout':
+      let count = output.prompt_number;
+      return {
+        output_type: 'execute_result',
+        execution_count: typeof count === 'number' ? count : null,
+        data: convertMimeBundle(output),
+        metadata: convertMetadata(output.metadata)
+      };
+    case 'display_data':
+      return {
+        output_type: 'display_data',
+        data: convertMimeBundle(output),
+        metadata: convertMetadata(output.metadata)
+      };
+    case 'stream':
+      return {
+        output_type: 'stream',
+        name: output.stream || 'stdout',
+        text: output.text || ''
+      };
+    case 'pyerr':
+      return {
+        output_type: 'error',
+        ename: output.ename,
+        evalue: output.evalue,
+        traceback: output.traceback
+      };
+    default:
+      return output;
+    }
+  }
+
+  /**
+   * Get the mime bundle of the data keys of an nbformat v3 output.
+   *
+   * #### Notes
+   * A JSON value stored as a string is parsed.
+   */
+  function convertMimeBundle(output: any): nbformat.IMimeBundle {
+    let bundle: nbformat.IMimeBundle = {};
+    for (let key of Object.keys(output)) {
+      let mimetype = MIME_TYPES[key];
+      if (!mimetype) {
+        continue;
+      }
+      let value = output[key];
+      if (key === 'json' && typeof value === 'string') {
+        try {
+          value = JSON.parse(value);
+        } catch (error) {
+          // Keep a value which is not valid JSON as is.
+        }
+      }
+      bundle[mimetype] = value;
+    }
+    return bundle;
+  }
+
+  /**
+   * Convert the output metadata keys of nbformat v3 to mime types.
+   */
+  function convertMetadata(metadata: any): JSONObject {
+    let result: JSONObject = {};
+    if (!isObject(metadata)) {
+      return result;
+    }
+    for (let key of Object.keys(metadata)) {
+      result[MIME_TYPES[key] || key] = metadata[key];
+    }
+    return result;
+  }
+}
@@ -0,0 +1,66 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  BinaryData, encodeBytes, getByteLength, readBytes
+} from '../utils';
+
+import {
+  Contents, ContentsManager
+} from './index';
+
+
+/**
+ * Upload binary data to a file in chunks.
+ *
+ * @param path - The path of the file, which is given to `onProgress`.
+ *
+ * @param data - The binary data of the file.
+ *
+ * @param options - The options used to upload the file.
+ *
+ * @param saveChunk - The function which saves the model of a chunk,
+ *   given the model and the number of the chunk.
+ *
+ * @returns A promise which resolves with the model of the last chunk
+ *   when it is saved.
+ *
+ * #### Notes
+ * The data is saved as base64 chunks of `chunkSize` bytes.  Data which
+ * fits in a single chunk is saved without a `chunk` number, and the last
+ * of several chunks has a `chunk` of `-1`.  The contents manager and the
+ * drives share the chunks, so that any of them can resume an upload with
+ * the same `startChunk`.
+ */
+export
+function uploadChunks(path: string, data: BinaryData, options: Contents.IUploadOptions, saveChunk: (model: Contents.IModel, chunk: number) => Promise<Contents.IModel>): Promise<Contents.IModel> {
+  let total = getByteLength(data);
+  let chunkSize = options.chunkSize || ContentsManager.DEFAULT_CHUNK_SIZE;
+  let chunks = Math.max(Math.ceil(total / chunkSize), 1);
+  let startChunk = options.startChunk || 1;
+  if (startChunk < 1 || startChunk > chunks) {
+    return Promise.reject(new Error(`Invalid start chunk: ${startChunk}`));
+  }
+
+  let uploadChunk = (chunk: number): Promise<Contents.IModel> => {
+    let start = (chunk - 1) * chunkSize;
+    return readBytes(data, start, start + chunkSize).then(bytes => {
+      let model: Contents.IModel = {
+        type: 'file',
+        format: 'base64',
+        content: encodeBytes(bytes)
+      };
+      if (chunks > 1) {
+        model.chunk = chunk === chunks ? -1 : chunk;
+      }
+      return saveChunk(model, chunk);
+    }).then(model => {
+      if (options.onProgress) {
+        let loaded = Math.min(chunk * chunkSize, total);
+        options.onProgress({ path, chunk, chunks, loaded, total });
+      }
+      return chunk < chunks ? uploadChunk(chunk + 1) : model;
+    });
+  };
+  return uploadChunk(startChunk);
+}
@@ -1,10 +1,18 @@
 // Copyright (c) Jupyter Development Team.
 // Distributed under the terms of the Modified BSD License.
 
+import {
+  ValidationError
+} from '../errors';
+
 import {
   Contents
 } from './index';
 
+import {
+  nbformat
+} from './nbformat';
+
 
 /**
  * Validate a property as being on an object, and optionally
@@ -12,7 +20,7 @@ import {
  */
 function validateProperty(object: any, name: string, typeName?: string): void {
   if (!object.hasOwnProperty(name)) {
-    throw Error(`Missing property '${name}'`);
+    throw new ValidationError(`Missing property '${name}'`);
   }
   if (typeName !== void 0) {
     let valid = true;
@@ -28,7 +36,7 @@ function validateProperty(object: any, name: string, typeName?: string): void {
       valid = typeof value === typeName;
     }
     if (!valid) {
-      throw new Error(`Property '${name}' is not of type '${typeName}`);
+      throw new ValidationError(`Property '${name}' is not of type '${typeName}`);
     }
   }
 }
@@ -57,3 +65,167 @@ function validateCheckpointModel(model: Contents.ICheckpointModel): void  {
   validateProperty(model, 'id', 'string');
   validateProperty(model, 'last_modified', 'string');
 }
+
+
+/**
+ * Validate an `nbformat.INotebookContent` object.
+ *
+ * #### Notes
+ * Only notebooks of the major version [[nbformat.MAJOR_VERSION]] are
+ * valid.  The error of an invalid cell or output gives its location,
+ * such as `cells[2].outputs[0]`.
+ */
+export
+function validateNotebook(content: nbformat.INotebookContent): void {
+  validateJSONObject(content, 'notebook');
+  validateProperty(content, 'nbformat', 'number');
+  if (content.nbformat !== nbformat.MAJOR_VERSION) {
+    throw new ValidationError(`Unsupported nbformat version '${content.nbformat}'`);
+  }
+  validateProperty(content, 'nbformat_minor', 'number');
+  validateProperty(content, 'metadata');
+  validateJSONObject(content.metadata, 'metadata');
+  validateProperty(content, 'cells', 'array');
+  content.cells.forEach((cell, index) => {
+    validateLocation(`cells[${index}]`, () => { validateCell(cell); });
+  });
+}
+
+
+/**
+ * Validate an `nbformat.ICell` object.
+ */
+export
+function validateCell(cell: nbformat.ICell): void {
+  validateJSONObject(cell, 'cell');
+  validateProperty(cell, 'cell_type', 'string');
+  validateProperty(cell, 'metadata');
+  validateJSONObject(cell.metadata, 'metadata');
+  validateMultilineString(cell, 'source');
+  switch (cell.cell_type) {
+  case 'code':
+    let code = cell as nbformat.ICodeCell;
+    validateProperty(code, 'execution_count');
+    validateExecutionCount(code.execution_count);
+    validateProperty(code, 'outputs', 'array');
+    code.outputs.forEach((output, index) => {
+      validateLocation(`outputs[${index}]`, () => { validateOutput(output); });
+    });
+    break;
+  case 'markdown':
+  case 'raw':
+    let attachments = (cell as nbformat.IMarkdownCell).attachments;
+    if (attachments !== void 0) {
+      validateJSONObject(attachments, 'attachments');
+      for (let name of Object.keys(attachments)) {
+        validateMimeBundle(attachments[name], `attachments['${name}']`);
+      }
+    }
+    break;
+  default:
+    throw new ValidationError(`Invalid cell type '${cell.cell_type}'`);
+  }
+}
+
+
+/**
+ * Validate an `nbformat.IOutput` object.
+ */
+export
+function validateOutput(output: nbformat.IOutput): void {
+  validateJSONObject(output, 'output');
+  validateProperty(output, 'output_type', 'string');
+  switch (output.output_type) {
+  case 'execute_result':
+    validateProperty(output, 'execution_count');
+    validateExecutionCount((output as nbformat.IExecuteResult).execution_count);
+    validateMimeBundle(output['data'], 'data');
+    validateJSONObject(output['metadata'], 'metadata');
+    break;
+  case 'display_data':
+    validateMimeBundle(output['data'], 'data');
+    validateJSONObject(output['metadata'], 'metadata');
+    break;
+  case 'stream':
+    validateProperty(output, 'name', 'string');
+    validateMultilineString(output, 'text');
+    break;
+  case 'error':
+    validateProperty(output, 'ename', 'string');
+    validateProperty(output, 'evalue', 'string');
+    validateProperty(output, 'traceback', 'array');
+    for (let line of (output as nbformat.IError).traceback) {
+      if (typeof line !== 'string') {
+        throw new ValidationError(`Property 'traceback' is not an array of strings`);
+      }
+    }
+    break;
+  default:
+    throw new ValidationError(`Invalid output type '${output.output_type}'`);
+  }
+}
+
+
+/**
+ * Validate a value as being a JSON object.
+ */
+function validateJSONObject(value: any, name: string): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`Property '${name}' is not of type 'object'`);
+  }
+}
+
+
+/**
+ * Validate a property as being an `nbformat.MultilineString`.
+ */
+function validateMultilineString(object: any, name: string): void {
+  validateProperty(object, name);
+  let value = object[name];
+  if (typeof value === 'string') {
+    return;
+  }
+  if (Array.isArray(value) && value.every((line: any) => typeof line === 'string')) {
+    return;
+  }
+  throw new ValidationError(`Property '${name}' is not a multiline string`);
+}
+
+
+/**
+ * Validate an execution count, which is an integer or `null`.
+ */
+function validateExecutionCount(value: any): void {
+  if (value !== null && (typeof value !== 'number' || value % 1 !== 0)) {
+    throw new ValidationError(`Property 'execution_count' is not an integer or null`);
+  }
+}
+
+
+/**
+ * Validate an `nbformat.IMimeBundle` object.
+ *
+ * #### Notes
+ * The value of a JSON mime type may be any JSON value.
+ */
+function validateMimeBundle(bundle: any, name: string): void {
+  validateJSONObject(bundle, name);
+  for (let mimetype of Object.keys(bundle)) {
+    if (/^application\/(.+\+)?json$/.test(mimetype)) {
+      continue;
+    }
+    validateLocation(name, () => { validateMultilineString(bundle, mimetype); });
+  }
+}
+
+
+/**
+ * Run a validation, prefixing the message of its error with a location.
+ */
+function validateLocation(location: string, validation: () => void): void {
+  try {
+    validation();
+  } catch (error) {
+    throw new ValidationError(`${location}: ${error.message}`);
+  }
+}
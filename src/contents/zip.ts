@@ -0,0 +1,273 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  encodeUtf8
+} from '../utils';
+
+
+/**
+ * An entry of a zip archive.
+ */
+export
+interface IZipEntry {
+  /**
+   * The `/`-delimited path of the entry in the archive.
+   *
+   * #### Notes
+   * The path of a directory ends with `/`.
+   */
+  path: string;
+
+  /**
+   * The bytes of a file, or `null` for a directory.
+   */
+  data: Uint8Array;
+
+  /**
+   * The modification date of the entry.
+   */
+  date: Date;
+}
+
+
+/**
+ * A writer which builds a zip archive one entry at a time.
+ *
+ * #### Notes
+ * The entries are stored without compression, so that the archive can
+ * be built without any platform specific library.
+ *
+ * ZIP64 archives are not supported, so an archive has at most 65535
+ * entries and 4 GiB of data.
+ */
+export
+class ZipWriter {
+  /**
+   * Add an entry to the archive.
+   *
+   * #### Notes
+   * Throws an error if the archive would need ZIP64, because it would
+   * have more than 65535 entries or more than 4 GiB of data.
+   */
+  add(entry: IZipEntry): void {
+    let name = encodeUtf8(entry.path);
+    let data = entry.data || new Uint8Array(0);
+    if (this._central.length >= Private.MAX_ENTRIES) {
+      throw new Error(`Too many entries for a zip archive: ${entry.path}`);
+    }
+    let size = 30 + name.length + data.length;
+    if (this._offset + size > Private.MAX_SIZE) {
+      throw new Error(`Too much data for a zip archive: ${entry.path}`);
+    }
+    let crc = crc32(data);
+    let time = Private.getDosTime(entry.date);
+    let date = Private.getDosDate(entry.date);
+
+    let local = new Private.ByteWriter(30 + name.length);
+    local.uint32(0x04034b50);
+    local.uint16(20);
+    local.uint16(Private.UTF8_FLAG);
+    local.uint16(0);
+    local.uint16(time);
+    local.uint16(date);
+    local.uint32(crc);
+    local.uint32(data.length);
+    local.uint32(data.length);
+    local.uint16(name.length);
+    local.uint16(0);
+    local.bytes(name);
+
+    let central = new Private.ByteWriter(46 + name.length);
+    central.uint32(0x02014b50);
+    central.uint16(20);
+    central.uint16(20);
+    central.uint16(Private.UTF8_FLAG);
+    central.uint16(0);
+    central.uint16(time);
+    central.uint16(date);
+    central.uint32(crc);
+    central.uint32(data.length);
+    central.uint32(data.length);
+    central.uint16(name.length);
+    central.uint16(0);
+    central.uint16(0);
+    central.uint16(0);
+    central.uint16(0);
+    central.uint32(entry.data ? 0 : Private.DIRECTORY_ATTRIBUTE);
+    central.uint32(this._offset);
+    central.bytes(name);
+
+    this._parts.push(local.data, data);
+    this._central.push(central.data);
+    this._offset += size;
+  }
+
+  /**
+   * Finish the archive.
+   *
+   * @returns The bytes of the archive.
+   */
+  finish(): ArrayBuffer {
+    let size = 0;
+    for (let part of this._central) {
+      size += part.length;
+    }
+    let end = new Private.ByteWriter(22);
+    end.uint32(0x06054b50);
+    end.uint16(0);
+    end.uint16(0);
+    end.uint16(this._central.length);
+    end.uint16(this._central.length);
+    end.uint32(size);
+    end.uint32(this._offset);
+    end.uint16(0);
+
+    let parts = this._parts.concat(this._central, [end.data]);
+    let result = new Uint8Array(this._offset + size + end.data.length);
+    let offset = 0;
+    for (let part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result.buffer;
+  }
+
+  private _parts: Uint8Array[] = [];
+  private _central: Uint8Array[] = [];
+  private _offset = 0;
+}
+
+
+/**
+ * Compute the CRC-32 checksum of bytes.
+ */
+export
+function crc32(data: Uint8Array): number {
+  let table = Private.getCrcTable();
+  let crc = -1;
+  for (let i = 0; i < data.length; i++) {
+    crc = (crc >>> 8) ^ table[(crc ^ data[i]) & 0xff];
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+
+/**
+ * A namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The flag for an entry with a UTF-8 encoded path.
+   */
+  export
+  const UTF8_FLAG = 0x0800;
+
+  /**
+   * The MS-DOS attribute of a directory entry.
+   */
+  export
+  const DIRECTORY_ATTRIBUTE = 0x10;
+
+  /**
+   * The maximum number of entries of an archive without ZIP64.
+   */
+  export
+  const MAX_ENTRIES = 0xffff;
+
+  /**
+   * The maximum offset of the central directory of an archive without
+   * ZIP64.
+   */
+  export
+  const MAX_SIZE = 0xffffffff;
+
+  /**
+   * A writer of little-endian values to a fixed size buffer.
+   */
+  export
+  class ByteWriter {
+    /**
+     * Construct a new byte writer.
+     */
+    constructor(size: number) {
+      this.data = new Uint8Array(size);
+    }
+
+    /**
+     * The bytes of the writer.
+     */
+    data: Uint8Array;
+
+    /**
+     * Write a 16-bit value.
+     */
+    uint16(value: number): void {
+      this.data[this._offset++] = value & 0xff;
+      this.data[this._offset++] = (value >>> 8) & 0xff;
+    }
+
+    /**
+     * Write a 32-bit value.
+     */
+    uint32(value: number): void {
+      this.uint16(value & 0xffff);
+      this.uint16((value >>> 16) & 0xffff);
+    }
+
+    /**
+     * Write a sequence of bytes.
+     */
+    bytes(value: Uint8Array): void {
+      this.data.set(value, this._offset);
+      this._offset += value.length;
+    }
+
+    private _offset = 0;
+  }
+
+  /**
+   * Get the MS-DOS time of a date.
+   */
+  export
+  function getDosTime(date: Date): number {
+    return (date.getHours() << 11) | (date.getMinutes() << 5) |
+      (date.getSeconds() >> 1);
+  }
+
+  /**
+   * Get the MS-DOS date of a date.
+   *
+   * #### Notes
+   * Dates before 1980 cannot be represented, and are clamped to 1980.
+   */
+  export
+  function getDosDate(date: Date): number {
+    let year = Math.max(date.getFullYear() - 1980, 0);
+    return (year << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  }
+
+  /**
+   * Get the lookup table for the CRC-32 checksum.
+   */
+  export
+  function getCrcTable(): number[] {
+    if (crcTable) {
+      return crcTable;
+    }
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c);
+    }
+    return crcTable;
+  }
+
+  /**
+   * The cached lookup table for the CRC-32 checksum.
+   */
+  let crcTable: number[] = null;
+}
@@ -0,0 +1,331 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  Contents
+} from './contents';
+
+import {
+  IAjaxError, IAjaxSettings
+} from './utils';
+
+
+/**
+ * An error raised when a request does not reach the server.
+ *
+ * #### Notes
+ * This is used for network failures, aborted requests and timeouts.
+ *
+ * The error also provides the fields of an [[IAjaxError]].
+ */
+export
+class ServerConnectionError extends Error implements IAjaxError {
+  /**
+   * Construct a new server connection error.
+   *
+   * @param options - The ajax error for the failed request.
+   */
+  constructor(options: IAjaxError) {
+    super();
+    this.name = 'ServerConnectionError';
+    this.message = options.throwError || 'Could not connect to the server';
+    this.stack = Private.getStack(this.message);
+    this.event = options.event;
+    this.xhr = options.xhr;
+    this.ajaxSettings = options.ajaxSettings;
+    this.throwError = options.throwError;
+  }
+
+  /**
+   * The stack trace of the error.
+   */
+  stack: string;
+
+  /**
+   * The event triggering the error.
+   */
+  event: Event;
+
+  /**
+   * The XHR object.
+   */
+  xhr: XMLHttpRequest;
+
+  /**
+   * The ajax settings associated with the request.
+   */
+  ajaxSettings: IAjaxSettings;
+
+  /**
+   * The error message given by the request handler, if any.
+   */
+  throwError: string;
+}
+
+
+/**
+ * An error raised for an unexpected response from the server.
+ *
+ * #### Notes
+ * The `message` is the message given by the server in the response
+ * body, if any, and the `throwError` otherwise.
+ *
+ * The error also provides the fields of an [[IAjaxError]].
+ */
+export
+class ResponseError extends Error implements IAjaxError {
+  /**
+   * Construct a new response error.
+   *
+   * @param options - The ajax error for the response.
+   */
+  constructor(options: IAjaxError) {
+    super();
+    let xhr = options.xhr;
+    let body = Private.parseBody(xhr);
+    this.name = 'ResponseError';
+    this.status = xhr ? xhr.status : 0;
+    this.message = (
+      body.message || options.throwError || `Invalid Status: ${this.status}`
+    );
+    this.traceback = body.traceback || '';
+    this.stack = Private.getStack(this.message);
+    this.event = options.event;
+    this.xhr = xhr;
+    this.ajaxSettings = options.ajaxSettings;
+    this.throwError = options.throwError;
+  }
+
+  /**
+   * The HTTP status of the response.
+   */
+  status: number;
+
+  /**
+   * The server traceback for the error, or an empty string.
+   */
+  traceback: string;
+
+  /**
+   * The stack trace of the error.
+   */
+  stack: string;
+
+  /**
+   * The event triggering the error.
+   */
+  event: Event;
+
+  /**
+   * The XHR object.
+   */
+  xhr: XMLHttpRequest;
+
+  /**
+   * The ajax settings associated with the request.
+   */
+  ajaxSettings: IAjaxSettings;
+
+  /**
+   * The error message given by the request handler, if any.
+   */
+  throwError: string;
+}
+
+
+/**
+ * An error raised when a request is cancelled by a [[CancellationToken]].
+ *
+ * #### Notes
+ * The `message` is the reason given when the token was cancelled, if any.
+ *
+ * The error also provides the fields of an [[IAjaxError]].
+ */
+export
+class CancellationError extends Error implements IAjaxError {
+  /**
+   * Construct a new cancellation error.
+   *
+   * @param options - The ajax error for the cancelled request.
+   */
+  constructor(options: IAjaxError) {
+    super();
+    this.name = 'CancellationError';
+    this.message = options.throwError || 'The request was cancelled';
+    this.stack = Private.getStack(this.message);
+    this.event = options.event;
+    this.xhr = options.xhr;
+    this.ajaxSettings = options.ajaxSettings;
+    this.throwError = options.throwError;
+  }
+
+  /**
+   * The stack trace of the error.
+   */
+  stack: string;
+
+  /**
+   * The event triggering the error.
+   */
+  event: Event;
+
+  /**
+   * The XHR object.
+   */
+  xhr: XMLHttpRequest;
+
+  /**
+   * The ajax settings associated with the request.
+   */
+  ajaxSettings: IAjaxSettings;
+
+  /**
+   * The error message given by the request handler, if any.
+   */
+  throwError: string;
+}
+
+
+/**
+ * An error raised when data from the server fails validation.
+ *
+ * #### Notes
+ * The error of an invalid response also provides the fields of an
+ * [[IAjaxError]], with the reason as its `throwError`.
+ */
+export
+class ValidationError extends Error implements IAjaxError {
+  /**
+   * Construct a new validation error.
+   *
+   * @param message - The reason the data is invalid.
+   *
+   * @param options - The ajax error for the invalid response, if any.
+   */
+  constructor(message: string, options?: IAjaxError) {
+    super();
+    this.name = 'ValidationError';
+    this.message = message;
+    this.stack = Private.getStack(message);
+    if (options) {
+      this.event = options.event;
+      this.xhr = options.xhr;
+      this.ajaxSettings = options.ajaxSettings;
+      this.throwError = options.throwError;
+    }
+  }
+
+  /**
+   * The stack trace of the error.
+   */
+  stack: string;
+
+  /**
+   * The event triggering the error, or `null`.
+   */
+  event: Event = null;
+
+  /**
+   * The XHR object of the invalid response, or `null`.
+   */
+  xhr: XMLHttpRequest = null;
+
+  /**
+   * The ajax settings of the request, or `null`.
+   */
+  ajaxSettings: IAjaxSettings = null;
+
+  /**
+   * The reason the response is invalid, or `undefined`.
+   */
+  throwError: string;
+}
+
+
+/**
+ * An error raised when a file was changed since it was loaded.
+ *
+ * #### Notes
+ * This is raised by a save which is only allowed if the file is
+ * unchanged, so that the user can choose to overwrite the file, reload
+ * it, or merge the changes.
+ */
+export
+class ConflictError extends Error {
+  /**
+   * Construct a new conflict error.
+   *
+   * @param path - The path of the file.
+   *
+   * @param model - The model which was not saved.
+   *
+   * @param currentModel - The current model of the file, without content,
+   *   or `null` if the file was deleted.
+   */
+  constructor(path: string, model: Contents.IModel, currentModel: Contents.IModel) {
+    super();
+    this.name = 'ConflictError';
+    this.message = currentModel ?
+      `File changed since it was loaded: ${path}` :
+      `File deleted since it was loaded: ${path}`;
+    this.stack = Private.getStack(this.message);
+    this.path = path;
+    this.model = model;
+    this.currentModel = currentModel;
+  }
+
+  /**
+   * The stack trace of the error.
+   */
+  stack: string;
+
+  /**
+   * The path of the file.
+   */
+  path: string;
+
+  /**
+   * The model which was not saved.
+   */
+  model: Contents.IModel;
+
+  /**
+   * The current model of the file, without content, or `null` if the
+   * file was deleted.
+   */
+  currentModel: Contents.IModel;
+}
+
+
+/**
+ * A namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Get a stack trace for an error message.
+   *
+   * #### Notes
+   * Subclasses of `Error` do not get a stack trace when compiled to ES5.
+   */
+  export
+  function getStack(message: string): string {
+    return (new Error(message) as any).stack;
+  }
+
+  /**
+   * Parse the JSON body of an error response.
+   */
+  export
+  function parseBody(xhr: XMLHttpRequest): { message?: string, traceback?: string } {
+    let text = xhr ? xhr.responseText : '';
+    try {
+      let body = JSON.parse(text);
+      if (body && typeof body === 'object') {
+        return body;
+      }
+    } catch (err) {
+      // no-op
+    }
+    return {};
+  }
+}
@@ -3,13 +3,17 @@
 
 export * from './config';
 export * from './contents';
+export * from './contents/localdrive';
+export * from './errors';
 export * from './kernel';
 export * from './manager';
 export * from './session';
 export * from './terminal';
 
 export {
-  IAjaxSettings
+  BinaryData, CancellationToken, IAjaxInterceptor, IAjaxProgress,
+  IAjaxRequest, IAjaxSettings, IRequestMetrics, IRequestOptions,
+  IRequestTransport, IRetryPolicy
 } from './utils';
 
 import * as utils
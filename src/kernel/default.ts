@@ -29,6 +29,10 @@ import {
   KernelFutureHandler
 } from './future';
 
+import {
+  CancellationError, ResponseError, ServerConnectionError, ValidationError
+} from '../errors';
+
 import * as serialize
   from './serialize';
 
@@ -70,9 +74,17 @@ class DefaultKernel implements IKernel {
     this._wsUrl = options.wsUrl || utils.getWsUrl(this._baseUrl);
     this._clientId = options.clientId || utils.uuid();
     this._username = options.username || '';
+    this._socketFactory = options.socketFactory || utils.createWebSocket;
+    this._reconnectPolicy = Private.createReconnectPolicy(options.reconnectPolicy);
+    this._activePolicy = this._reconnectPolicy;
+    this._heartbeatInterval = options.heartbeatInterval || 0;
+    if (options.heartbeatTimeout !== void 0) {
+      this._heartbeatTimeout = options.heartbeatTimeout;
+    }
     this._futures = new Map<string, KernelFutureHandler>();
     this._commPromises = new Map<string, Promise<Kernel.IComm>>();
     this._comms = new Map<string, Kernel.IComm>();
+    this._readyPromise = new utils.PromiseDelegate<void>();
     this._createSocket();
     Private.runningKernels[this._clientId] = this;
   }
@@ -82,6 +94,11 @@ class DefaultKernel implements IKernel {
    */
   statusChanged: ISignal<IKernel, Kernel.Status>;
 
+  /**
+   * A signal emitted when the kernel connection status changes.
+   */
+  connectionStatusChanged: ISignal<IKernel, Kernel.ConnectionStatus>;
+
   /**
    * A signal emitted for iopub kernel messages.
    */
@@ -92,6 +109,16 @@ class DefaultKernel implements IKernel {
    */
   unhandledMessage: ISignal<IKernel, KernelMessage.IMessage>;
 
+  /**
+   * A signal emitted when a websocket reconnection attempt is scheduled.
+   */
+  connectionAttempt: ISignal<IKernel, Kernel.IConnectionAttempt>;
+
+  /**
+   * A signal emitted when the reconnect policy has been exhausted.
+   */
+  connectionFailed: ISignal<IKernel, void>;
+
   /**
    * The id of the server-side kernel.
    *
@@ -152,6 +179,39 @@ class DefaultKernel implements IKernel {
     return this._status;
   }
 
+  /**
+   * The current status of the kernel websocket connection.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get connectionStatus(): Kernel.ConnectionStatus {
+    return this._connectionStatus;
+  }
+
+  /**
+   * A promise that is fulfilled when the kernel is ready.
+   *
+   * #### Notes
+   * This is a read-only property.
+   * A new promise is created when the connection is lost and when the
+   * kernel is reconnected or restarted.
+   */
+  get ready(): Promise<void> {
+    return this._readyPromise.promise;
+  }
+
+  /**
+   * The round-trip time in milliseconds of the latest liveness check.
+   *
+   * #### Notes
+   * This is a read-only property.
+   * It is `-1` until the kernel connection has been established.
+   */
+  get latency(): number {
+    return this._latency;
+  }
+
   /**
    * The cached info for the kernel.
    *
@@ -208,7 +268,11 @@ class DefaultKernel implements IKernel {
       wsUrl: this._wsUrl,
       name: this._name,
       username: this._username,
-      ajaxSettings: this.ajaxSettings
+      ajaxSettings: this.ajaxSettings,
+      socketFactory: this._socketFactory,
+      reconnectPolicy: utils.copy(this._reconnectPolicy),
+      heartbeatInterval: this._heartbeatInterval,
+      heartbeatTimeout: this._heartbeatTimeout
     };
     return new DefaultKernel(options, this._id);
   }
@@ -221,6 +285,9 @@ class DefaultKernel implements IKernel {
       return;
     }
     this._status = 'dead';
+    this._connectionStatus = 'disconnected';
+    clearTimeout(this._reconnectTimer);
+    this._stopHeartbeat();
     if (this._ws !== null) {
       this._ws.close();
     }
@@ -304,21 +371,50 @@ class DefaultKernel implements IKernel {
    * It is assumed that the API call does not mutate the kernel id or name.
    *
    * The promise will be rejected if the request fails or the response is
-   * invalid.
+   * invalid.  The kernel then keeps its previous status, and its ready
+   * promise is resolved if it is still connected.
    */
   restart(): Promise<void> {
+    let status = this._status;
+    let wasReady = this._isReadyResolved;
     this._clearState();
     this._updateStatus('restarting');
-    return Private.restartKernel(this, this._baseUrl, this.ajaxSettings);
+    this._resetReady();
+    let ready = this._readyPromise;
+    return Private.restartKernel(this, this._baseUrl, this.ajaxSettings)
+    .then(() => {
+      if (this.isDisposed) {
+        return;
+      }
+      this.kernelInfo().then(() => {
+        this._resolveReady(ready);
+      }).catch(() => {
+        // The ready promise is settled by the next connection.
+      });
+    }, error => {
+      if (!this.isDisposed) {
+        this._restoreStatus(status);
+        if (wasReady && this._connectionStatus === 'connected') {
+          this._resolveReady(ready);
+        }
+      }
+      throw error;
+    });
   }
 
   /**
    * Reconnect to a disconnected kernel.
    *
+   * @param policy - An optional reconnect policy to use for this
+   *   reconnection, overriding the one given in the kernel options.
+   *
    * #### Notes
    * Used when the websocket connection to the kernel is lost.
+   *
+   * The promise is fulfilled when the connection is re-established and
+   * rejected if the reconnect policy is exhausted.
    */
-  reconnect(): Promise<void> {
+  reconnect(policy?: Kernel.IReconnectPolicy): Promise<void> {
     if (this._ws !== null) {
       // Clear the websocket event handlers and the socket itself.
       this._ws.onclose = null;
@@ -326,10 +422,16 @@ class DefaultKernel implements IKernel {
       this._ws.close();
       this._ws = null;
     }
+    clearTimeout(this._reconnectTimer);
+    this._stopHeartbeat();
+    this._activePolicy = (
+      policy ? Private.createReconnectPolicy(policy) : this._reconnectPolicy
+    );
+    this._reconnectAttempt = 0;
     this._isReady = false;
-    this._updateStatus('reconnecting');
+    this._resetReady();
     this._createSocket();
-    return this._connectionPromise.promise;
+    return this._readyPromise.promise;
   }
 
   /**
@@ -643,10 +745,10 @@ class DefaultKernel implements IKernel {
         partialUrl,
         'channels?session_id=' + encodeURIComponent(this._clientId)
     );
+    url = utils.addTokenParam(url, utils.getToken(this.ajaxSettings));
 
-    this._connectionPromise = new utils.PromiseDelegate<void>();
-
-    this._ws = new WebSocket(url);
+    this._updateConnectionStatus('connecting');
+    this._ws = this._socketFactory(url);
 
     // Ensure incoming binary messages are not Blobs
     this._ws.binaryType = 'arraybuffer';
@@ -661,12 +763,20 @@ class DefaultKernel implements IKernel {
    * Handle a websocket open event.
    */
   private _onWSOpen(evt: Event): void {
-    this._reconnectAttempt = 0;
+    this._updateConnectionStatus('connected');
     // Allow the message to get through.
     this._isReady = true;
     // Get the kernel info, signaling that the kernel is ready.
+    let ready = this._readyPromise;
+    let start = new Date().getTime();
     this.kernelInfo().then(() => {
-      this._connectionPromise.resolve(void 0);
+      this._latency = new Date().getTime() - start;
+      this._scheduleHeartbeat();
+      this._reconnectAttempt = 0;
+      this._activePolicy = this._reconnectPolicy;
+      this._resolveReady(ready);
+    }).catch(() => {
+      // The ready promise is settled by the close of the connection.
     });
     this._isReady = false;
   }
@@ -679,6 +789,7 @@ class DefaultKernel implements IKernel {
       // If the socket is being closed, ignore any messages
       return;
     }
+    this._lastActivity = new Date().getTime();
     let msg = serialize.deserialize(evt.data);
     try {
       validate.validateMessage(msg);
@@ -729,18 +840,109 @@ class DefaultKernel implements IKernel {
     this._ws.onclose = null;
     this._ws.onerror = null;
     this._ws = null;
-
-    if (this._reconnectAttempt < this._reconnectLimit) {
-      this._updateStatus('reconnecting');
-      let timeout = Math.pow(2, this._reconnectAttempt);
-      console.error('Connection lost, reconnecting in ' + timeout + ' seconds.');
-      setTimeout(this._createSocket.bind(this), 1e3 * timeout);
+    this._stopHeartbeat();
+    this._isReady = false;
+    this._resetReady();
+    this._updateConnectionStatus('disconnected');
+
+    let policy = this._activePolicy;
+    if (policy.retryForever || this._reconnectAttempt < policy.maxAttempts) {
+      let delay = Private.getReconnectDelay(policy, this._reconnectAttempt);
+      console.error('Connection lost, reconnecting in ' + delay / 1e3 + ' seconds.');
+      this._reconnectTimer = setTimeout(() => {
+        if (!this.isDisposed) {
+          this._createSocket();
+        }
+      }, delay);
       this._reconnectAttempt += 1;
+      this.connectionAttempt.emit({ attempt: this._reconnectAttempt, delay });
     } else {
+      // Avoid an unhandled rejection when no one awaits the connection.
+      this._readyPromise.promise.catch(() => { /* no-op */ });
+      this._readyPromise.reject(new Error('Kernel connection failed'));
+      this.connectionFailed.emit(void 0);
       this._updateStatus('dead');
     }
   }
 
+  /**
+   * Schedule the next liveness check of the websocket.
+   */
+  private _scheduleHeartbeat(): void {
+    this._stopHeartbeat();
+    if (this._heartbeatInterval <= 0 || this.isDisposed) {
+      return;
+    }
+    this._heartbeatTimer = setTimeout(() => {
+      this._heartbeat();
+    }, this._heartbeatInterval);
+  }
+
+  /**
+   * Cancel any pending liveness check of the websocket.
+   */
+  private _stopHeartbeat(): void {
+    clearTimeout(this._heartbeatTimer);
+    clearTimeout(this._heartbeatDeadline);
+  }
+
+  /**
+   * Check the liveness of the websocket.
+   *
+   * #### Notes
+   * Any message received before the deadline counts as proof of
+   * liveness, and the deadline applies whether or not the kernel is
+   * busy.  A busy kernel does not reply to shell requests until it is
+   * idle, so a `kernel_info_request` is only sent to an idle kernel, and
+   * a busy kernel must send a message on iopub before the deadline.
+   */
+  private _heartbeat(): void {
+    let ws = this._ws;
+    if (ws === null || this.isDisposed) {
+      return;
+    }
+    if (!this._isReady) {
+      this._scheduleHeartbeat();
+      return;
+    }
+    let start = new Date().getTime();
+    let future: Kernel.IFuture = null;
+    if (this._status !== 'busy') {
+      let options: KernelMessage.IOptions = {
+        msgType: 'kernel_info_request',
+        channel: 'shell',
+        username: this._username,
+        session: this._clientId
+      };
+      let msg = KernelMessage.createShellMessage(options);
+      future = this.sendShellMessage(msg, true);
+      future.onReply = (reply: KernelMessage.IInfoReplyMsg) => {
+        this._info = reply.content;
+        this._latency = new Date().getTime() - start;
+        if (this._ws === ws) {
+          this._scheduleHeartbeat();
+        }
+      };
+    }
+    this._heartbeatDeadline = setTimeout(() => {
+      if (this._ws !== ws) {
+        return;
+      }
+      if (future) {
+        future.dispose();
+      }
+      if (this._lastActivity >= start) {
+        this._scheduleHeartbeat();
+        return;
+      }
+      console.error('Kernel heartbeat timed out');
+      ws.onmessage = null;
+      ws.onopen = null;
+      this._onWSClose(null);
+      ws.close();
+    }, this._heartbeatTimeout);
+  }
+
   /**
    * Handle status iopub messages from the kernel.
    */
@@ -749,10 +951,9 @@ class DefaultKernel implements IKernel {
     case 'starting':
     case 'idle':
     case 'busy':
-      this._isReady = true;
+      this._isReady = this._connectionStatus === 'connected';
       break;
     case 'restarting':
-    case 'reconnecting':
     case 'dead':
       this._isReady = false;
       break;
@@ -773,6 +974,52 @@ class DefaultKernel implements IKernel {
     }
   }
 
+  /**
+   * Restore the status of the kernel after a failed restart.
+   */
+  private _restoreStatus(status: Kernel.Status): void {
+    if (status !== 'unknown') {
+      this._updateStatus(status);
+      return;
+    }
+    // The unknown status is not a valid status update.
+    this._status = status;
+    Private.logKernelStatus(this);
+    this.statusChanged.emit(status);
+  }
+
+  /**
+   * Create a new ready promise if the current one has been resolved.
+   */
+  private _resetReady(): void {
+    if (this._isReadyResolved) {
+      this._isReadyResolved = false;
+      this._readyPromise = new utils.PromiseDelegate<void>();
+    }
+  }
+
+  /**
+   * Resolve a ready promise if it is still current.
+   */
+  private _resolveReady(ready: utils.PromiseDelegate<void>): void {
+    if (ready !== this._readyPromise || this._isReadyResolved) {
+      return;
+    }
+    this._isReadyResolved = true;
+    ready.resolve(void 0);
+  }
+
+  /**
+   * Update the connection status of the kernel websocket.
+   */
+  private _updateConnectionStatus(connectionStatus: Kernel.ConnectionStatus): void {
+    if (connectionStatus === this._connectionStatus) {
+      return;
+    }
+    this._connectionStatus = connectionStatus;
+    this.connectionStatusChanged.emit(connectionStatus);
+  }
+
   /**
    * Send pending messages to the kernel.
    */
@@ -907,12 +1154,22 @@ class DefaultKernel implements IKernel {
   private _baseUrl = '';
   private _wsUrl = '';
   private _status: Kernel.Status = 'unknown';
+  private _connectionStatus: Kernel.ConnectionStatus = 'connecting';
   private _clientId = '';
   private _ws: WebSocket = null;
+  private _socketFactory: (url: string) => WebSocket = null;
   private _username = '';
   private _ajaxSettings = '{}';
-  private _reconnectLimit = 7;
+  private _reconnectPolicy: Kernel.IReconnectPolicy = null;
+  private _activePolicy: Kernel.IReconnectPolicy = null;
   private _reconnectAttempt = 0;
+  private _reconnectTimer = -1;
+  private _heartbeatInterval = 0;
+  private _heartbeatTimeout = 10000;
+  private _heartbeatTimer = -1;
+  private _heartbeatDeadline = -1;
+  private _lastActivity = 0;
+  private _latency = -1;
   private _isReady = false;
   private _futures: Map<string, KernelFutureHandler> = null;
   private _commPromises: Map<string, Promise<Kernel.IComm>> = null;
@@ -921,14 +1178,18 @@ class DefaultKernel implements IKernel {
   private _spec: Kernel.ISpec = null;
   private _info: KernelMessage.IInfoReply = null;
   private _pendingMessages: KernelMessage.IMessage[] = [];
-  private _connectionPromise: utils.PromiseDelegate<void> = null;
+  private _readyPromise: utils.PromiseDelegate<void> = null;
+  private _isReadyResolved = false;
 }
 
 
 // Define the signals for the `DefaultKernel` class.
 defineSignal(DefaultKernel.prototype, 'statusChanged');
+defineSignal(DefaultKernel.prototype, 'connectionStatusChanged');
 defineSignal(DefaultKernel.prototype, 'iopubMessage');
 defineSignal(DefaultKernel.prototype, 'unhandledMessage');
+defineSignal(DefaultKernel.prototype, 'connectionAttempt');
+defineSignal(DefaultKernel.prototype, 'connectionFailed');
 
 
 /**
@@ -949,8 +1210,8 @@ namespace DefaultKernel {
    * otherwise the promise is rejected.
    */
   export
-  function findById(id: string, options?: Kernel.IOptions): Promise<Kernel.IModel> {
-    return Private.findById(id, options);
+  function findById(id: string, options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<Kernel.IModel> {
+    return Private.findById(id, options, cancelToken);
   }
 
   /**
@@ -960,8 +1221,8 @@ namespace DefaultKernel {
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/kernelspecs).
    */
   export
-  function getSpecs(options: Kernel.IOptions = {}): Promise<Kernel.ISpecModels> {
-    return Private.getSpecs(options);
+  function getSpecs(options: Kernel.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<Kernel.ISpecModels> {
+    return Private.getSpecs(options, cancelToken);
   }
 
   /**
@@ -973,8 +1234,8 @@ namespace DefaultKernel {
    * The promise is fulfilled on a valid response and rejected otherwise.
    */
   export
-  function listRunning(options: Kernel.IOptions = {}): Promise<Kernel.IModel[]> {
-    return Private.listRunning(options);
+  function listRunning(options: Kernel.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<Kernel.IModel[]> {
+    return Private.listRunning(options, cancelToken);
   }
 
   /**
@@ -990,9 +1251,9 @@ namespace DefaultKernel {
    * when the kernel is started by the server, otherwise the promise is rejected.
    */
   export
-  function startNew(options?: Kernel.IOptions): Promise<IKernel> {
+  function startNew(options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<IKernel> {
     options = options || {};
-    return Private.startNew(options);
+    return Private.startNew(options, cancelToken);
   }
 
   /**
@@ -1011,16 +1272,16 @@ namespace DefaultKernel {
    * the promise is rejected.
    */
   export
-  function connectTo(id: string, options?: Kernel.IOptions): Promise<IKernel> {
-    return Private.connectTo(id, options);
+  function connectTo(id: string, options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<IKernel> {
+    return Private.connectTo(id, options, cancelToken);
   }
 
   /**
    * Shut down a kernel by id.
    */
   export
-  function shutdown(id: string, options: Kernel.IOptions = {}): Promise<void> {
-    return Private.shutdown(id, options);
+  function shutdown(id: string, options: Kernel.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<void> {
+    return Private.shutdown(id, options, cancelToken);
   }
 }
 
@@ -1035,11 +1296,40 @@ namespace Private {
   export
   const runningKernels: { [key: string]: DefaultKernel; } = Object.create(null);
 
+  /**
+   * The default reconnect policy for a kernel websocket.
+   */
+  const defaultReconnectPolicy: Kernel.IReconnectPolicy = {
+    maxAttempts: 7,
+    baseDelay: 1000,
+    maxDelay: 64000,
+    jitter: 0,
+    retryForever: false
+  };
+
+  /**
+   * Create a full reconnect policy from a partial one.
+   */
+  export
+  function createReconnectPolicy(policy?: Kernel.IReconnectPolicy): Kernel.IReconnectPolicy {
+    return utils.extend(utils.copy(defaultReconnectPolicy), policy || {});
+  }
+
+  /**
+   * Get the delay in milliseconds before a given reconnect attempt.
+   */
+  export
+  function getReconnectDelay(policy: Kernel.IReconnectPolicy, attempt: number): number {
+    let delay = Math.min(policy.baseDelay * Math.pow(2, attempt), policy.maxDelay);
+    let jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    return Math.round(delay * (1 - jitter * Math.random()));
+  }
+
   /**
    * Find a kernel by id.
    */
   export
-  function findById(id: string, options?: Kernel.IOptions): Promise<Kernel.IModel> {
+  function findById(id: string, options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<Kernel.IModel> {
     let kernels = runningKernels;
     for (let clientId in kernels) {
       let kernel = kernels[clientId];
@@ -1048,8 +1338,11 @@ namespace Private {
         return Promise.resolve(result);
       }
     }
-    return getKernelModel(id, options).catch(() => {
-      return typedThrow<Kernel.IModel>(`No running kernel with id: ${id}`);
+    return getKernelModel(id, options, cancelToken).catch(error => {
+      if (error instanceof CancellationError) {
+        throw error;
+      }
+      return typedThrow<Kernel.IModel>(`No running kernel with id: ${id}`, error);
     });
   }
 
@@ -1060,14 +1353,14 @@ namespace Private {
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/kernelspecs).
    */
   export
-  function getSpecs(options: Kernel.IOptions = {}): Promise<Kernel.ISpecModels> {
+  function getSpecs(options: Kernel.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<Kernel.ISpecModels> {
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let url = utils.urlPathJoin(baseUrl, KERNELSPEC_SERVICE_URL);
-    let ajaxSettings: IAjaxSettings = utils.copy(options.ajaxSettings || {});
+    let ajaxSettings: IAjaxSettings = utils.copyOptions(options.ajaxSettings);
     ajaxSettings.method = 'GET';
     ajaxSettings.dataType = 'json';
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
@@ -1075,7 +1368,7 @@ namespace Private {
       try {
         validate.validateSpecModels(data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
       return data;
     });
@@ -1090,15 +1383,15 @@ namespace Private {
    * The promise is fulfilled on a valid response and rejected otherwise.
    */
   export
-  function listRunning(options: Kernel.IOptions = {}): Promise<Kernel.IModel[]> {
+  function listRunning(options: Kernel.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<Kernel.IModel[]> {
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let url = utils.urlPathJoin(baseUrl, KERNEL_SERVICE_URL);
-    let ajaxSettings: IAjaxSettings = utils.copy(options.ajaxSettings || {});
+    let ajaxSettings: IAjaxSettings = utils.copyOptions(options.ajaxSettings);
     ajaxSettings.method = 'GET';
     ajaxSettings.dataType = 'json';
     ajaxSettings.cache = false;
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
@@ -1109,7 +1402,7 @@ namespace Private {
         try {
           validate.validateModel(success.data[i]);
         } catch (err) {
-          return utils.makeAjaxError(success, err.message);
+          return utils.makeValidationError(success, err);
         }
       }
       return success.data as Kernel.IModel[];
@@ -1120,18 +1413,18 @@ namespace Private {
    * Start a new kernel.
    */
   export
-  function startNew(options?: Kernel.IOptions): Promise<IKernel> {
+  function startNew(options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<IKernel> {
     options = options || {};
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let url = utils.urlPathJoin(baseUrl, KERNEL_SERVICE_URL);
-    let ajaxSettings: IAjaxSettings = utils.copy(options.ajaxSettings || {});
+    let ajaxSettings: IAjaxSettings = utils.copyOptions(options.ajaxSettings);
     ajaxSettings.method = 'POST';
     ajaxSettings.data = JSON.stringify({ name: options.name });
     ajaxSettings.dataType = 'json';
     ajaxSettings.contentType = 'application/json';
     ajaxSettings.cache = false;
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 201) {
         return utils.makeAjaxError(success);
       }
@@ -1156,17 +1449,20 @@ namespace Private {
    * the promise is rejected.
    */
   export
-  function connectTo(id: string, options?: Kernel.IOptions): Promise<IKernel> {
+  function connectTo(id: string, options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<IKernel> {
     for (let clientId in runningKernels) {
       let kernel = runningKernels[clientId];
       if (kernel.id === id) {
         return Promise.resolve(kernel.clone());
       }
     }
-    return getKernelModel(id, options).then(model => {
+    return getKernelModel(id, options, cancelToken).then(model => {
       return new DefaultKernel(options, id);
-    }).catch(() => {
-      return typedThrow<IKernel>(`No running kernel with id: ${id}`);
+    }).catch(error => {
+      if (error instanceof CancellationError) {
+        throw error;
+      }
+      return typedThrow<IKernel>(`No running kernel with id: ${id}`, error);
     });
   }
 
@@ -1174,10 +1470,10 @@ namespace Private {
    * Shut down a kernel by id.
    */
   export
-  function shutdown(id: string, options: Kernel.IOptions = {}): Promise<void> {
+  function shutdown(id: string, options: Kernel.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<void> {
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let ajaxSettings = options.ajaxSettings || {};
-    return shutdownKernel(id, baseUrl, ajaxSettings);
+    return shutdownKernel(id, baseUrl, ajaxSettings, cancelToken);
   }
 
   /**
@@ -1205,7 +1501,7 @@ namespace Private {
       try {
         validate.validateModel(success.data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
     }, onKernelError);
   }
@@ -1239,7 +1535,7 @@ namespace Private {
    * Delete a kernel.
    */
   export
-  function shutdownKernel(id: string, baseUrl: string, ajaxSettings?: IAjaxSettings): Promise<void> {
+  function shutdownKernel(id: string, baseUrl: string, ajaxSettings?: IAjaxSettings, cancelToken?: utils.CancellationToken): Promise<void> {
     let url = utils.urlPathJoin(baseUrl, KERNEL_SERVICE_URL,
                                 encodeURIComponent(id));
     ajaxSettings = ajaxSettings || { };
@@ -1247,7 +1543,7 @@ namespace Private {
     ajaxSettings.dataType = 'json';
     ajaxSettings.cache = false;
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 204) {
         return utils.makeAjaxError(success);
       }
@@ -1273,7 +1569,7 @@ namespace Private {
       try {
         validate.validateSpecModel(data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
       return data.spec;
     }, onKernelError);
@@ -1283,7 +1579,7 @@ namespace Private {
    * Get a full kernel model from the server by kernel id string.
    */
   export
-  function getKernelModel(id: string, options?: Kernel.IOptions): Promise<Kernel.IModel> {
+  function getKernelModel(id: string, options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<Kernel.IModel> {
     options = options || {};
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let url = utils.urlPathJoin(baseUrl, KERNEL_SERVICE_URL,
@@ -1293,7 +1589,7 @@ namespace Private {
     ajaxSettings.dataType = 'json';
     ajaxSettings.cache = false;
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
@@ -1301,7 +1597,7 @@ namespace Private {
       try {
         validate.validateModel(data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
       return data;
     }, Private.onKernelError);
@@ -1328,6 +1624,9 @@ namespace Private {
    */
   export
   function onKernelError(error: utils.IAjaxError): Promise<any> {
+    if (error instanceof CancellationError) {
+      return Promise.reject(error);
+    }
     let text = (error.throwError ||
                 error.xhr.statusText ||
                 error.xhr.responseText);
@@ -1356,9 +1655,23 @@ namespace Private {
 
   /**
    * Throw a typed error.
+   *
+   * #### Notes
+   * A [[ResponseError]] which caused the failure is thrown again for the
+   * same response with the message as its `throwError`, so that the
+   * message, status and traceback from the server are kept.  A
+   * [[ServerConnectionError]] is rethrown as is.  Other failures throw a
+   * [[ValidationError]].
    */
   export
-  function typedThrow<T>(msg: string): T {
-    throw new Error(msg);
+  function typedThrow<T>(msg: string, error?: Error): T {
+    if (error instanceof ResponseError) {
+      let { xhr, ajaxSettings, event } = error;
+      throw new ResponseError({ xhr, ajaxSettings, event, throwError: msg });
+    }
+    if (error instanceof ServerConnectionError) {
+      throw error;
+    }
+    throw new ValidationError(msg);
   }
 }
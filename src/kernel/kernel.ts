@@ -14,7 +14,7 @@ import {
 } from 'phosphor/lib/core/signaling';
 
 import {
-  IAjaxSettings
+  CancellationToken, IAjaxSettings
 } from '../utils';
 
 import {
@@ -43,6 +43,11 @@ interface IKernel extends IDisposable {
    */
   statusChanged: ISignal<IKernel, Kernel.Status>;
 
+  /**
+   * A signal emitted when the kernel connection status changes.
+   */
+  connectionStatusChanged: ISignal<IKernel, Kernel.ConnectionStatus>;
+
   /**
    * A signal emitted for iopub kernel messages.
    */
@@ -53,6 +58,19 @@ interface IKernel extends IDisposable {
    */
   unhandledMessage: ISignal<IKernel, KernelMessage.IMessage>;
 
+  /**
+   * A signal emitted when a websocket reconnection attempt is scheduled.
+   */
+  connectionAttempt: ISignal<IKernel, Kernel.IConnectionAttempt>;
+
+  /**
+   * A signal emitted when the reconnect policy has been exhausted.
+   *
+   * #### Notes
+   * The kernel status will be changed to `dead` after this is emitted.
+   */
+  connectionFailed: ISignal<IKernel, void>;
+
   /**
    * The id of the server-side kernel.
    *
@@ -101,6 +119,38 @@ interface IKernel extends IDisposable {
    */
   status: Kernel.Status;
 
+  /**
+   * The current status of the kernel websocket connection.
+   *
+   * #### Notes
+   * This is a read-only property.
+   * The connection status is independent of the kernel [[status]],
+   * which retains the last known execution state while disconnected.
+   */
+  connectionStatus: Kernel.ConnectionStatus;
+
+  /**
+   * A promise that is fulfilled when the kernel is ready.
+   *
+   * #### Notes
+   * This is a read-only property.
+   * The kernel is ready when its websocket is connected and a
+   * `kernel_info_reply` has been received.  A new promise is created
+   * when the connection is lost and when the kernel is reconnected or
+   * restarted.  The promise is rejected if the reconnect policy is
+   * exhausted.
+   */
+  ready: Promise<void>;
+
+  /**
+   * The round-trip time in milliseconds of the latest liveness check.
+   *
+   * #### Notes
+   * This is a read-only property.
+   * It is `-1` until the kernel connection has been established.
+   */
+  latency: number;
+
   /**
    * The cached info for the kernel.
    *
@@ -179,8 +229,15 @@ interface IKernel extends IDisposable {
    * Reconnect to a disconnected kernel. This is not actually a
    * standard HTTP request, but useful function nonetheless for
    * reconnecting to the kernel if the connection is somehow lost.
+   *
+   * @param policy - An optional reconnect policy to use for this
+   *   reconnection, overriding the one given in the kernel options.
+   *
+   * #### Notes
+   * The promise is fulfilled when the connection is re-established and
+   * rejected if the reconnect policy is exhausted.
    */
-  reconnect(): Promise<void>;
+  reconnect(policy?: Kernel.IReconnectPolicy): Promise<void>;
 
   /**
    * Shutdown a kernel.
@@ -360,8 +417,8 @@ namespace Kernel {
    * otherwise the promise is rejected.
    */
   export
-  function findById(id: string, options?: IOptions): Promise<IModel> {
-    return DefaultKernel.findById(id, options);
+  function findById(id: string, options?: IOptions, cancelToken?: CancellationToken): Promise<IModel> {
+    return DefaultKernel.findById(id, options, cancelToken);
   }
 
   /**
@@ -371,8 +428,8 @@ namespace Kernel {
    * Uses the [Jupyter Notebook API](http://petstore.swagger.io/?url=https://raw.githubusercontent.com/jupyter/notebook/master/notebook/services/api/api.yaml#!/kernelspecs).
    */
   export
-  function getSpecs(options: Kernel.IOptions = {}): Promise<Kernel.ISpecModels> {
-    return DefaultKernel.getSpecs(options);
+  function getSpecs(options: Kernel.IOptions = {}, cancelToken?: CancellationToken): Promise<Kernel.ISpecModels> {
+    return DefaultKernel.getSpecs(options, cancelToken);
   }
 
   /**
@@ -384,8 +441,8 @@ namespace Kernel {
    * The promise is fulfilled on a valid response and rejected otherwise.
    */
   export
-  function listRunning(options: Kernel.IOptions = {}): Promise<Kernel.IModel[]> {
-    return DefaultKernel.listRunning(options);
+  function listRunning(options: Kernel.IOptions = {}, cancelToken?: CancellationToken): Promise<Kernel.IModel[]> {
+    return DefaultKernel.listRunning(options, cancelToken);
   }
 
   /**
@@ -401,9 +458,9 @@ namespace Kernel {
    * when the kernel is started by the server, otherwise the promise is rejected.
    */
   export
-  function startNew(options?: Kernel.IOptions): Promise<IKernel> {
+  function startNew(options?: Kernel.IOptions, cancelToken?: CancellationToken): Promise<IKernel> {
     options = options || {};
-    return DefaultKernel.startNew(options);
+    return DefaultKernel.startNew(options, cancelToken);
   }
 
   /**
@@ -422,23 +479,23 @@ namespace Kernel {
    * the promise is rejected.
    */
   export
-  function connectTo(id: string, options?: Kernel.IOptions): Promise<IKernel> {
-    return DefaultKernel.connectTo(id, options);
+  function connectTo(id: string, options?: Kernel.IOptions, cancelToken?: CancellationToken): Promise<IKernel> {
+    return DefaultKernel.connectTo(id, options, cancelToken);
   }
 
   /**
    * Shut down a kernel by id.
    */
   export
-  function shutdown(id: string, options: Kernel.IOptions = {}): Promise<void> {
-    return DefaultKernel.shutdown(id, options);
+  function shutdown(id: string, options: Kernel.IOptions = {}, cancelToken?: CancellationToken): Promise<void> {
+    return DefaultKernel.shutdown(id, options, cancelToken);
   }
 
   /**
    * The options object used to initialize a kernel.
    */
   export
-  interface IOptions extends JSONObject {
+  interface IOptions {
     /**
      * The kernel type (e.g. python3).
      */
@@ -469,6 +526,91 @@ namespace Kernel {
      * The default ajax settings to use for the kernel.
      */
     ajaxSettings?: IAjaxSettings;
+
+    /**
+     * The factory used to create the kernel websocket.
+     * Defaults to the global `WebSocket` constructor.
+     */
+    socketFactory?: (url: string) => WebSocket;
+
+    /**
+     * The policy used to reconnect the kernel websocket.
+     */
+    reconnectPolicy?: IReconnectPolicy;
+
+    /**
+     * The interval in milliseconds between liveness checks of the kernel
+     * websocket.  Defaults to `0`, which disables the checks.
+     *
+     * #### Notes
+     * A liveness check sends a `kernel_info_request` while the kernel is
+     * not busy.  If nothing is received on the websocket before the
+     * [[heartbeatTimeout]], the connection is treated as lost, even if
+     * the kernel is busy.
+     */
+    heartbeatInterval?: number;
+
+    /**
+     * The time in milliseconds to wait for a liveness check reply.
+     * Defaults to `10000`.
+     */
+    heartbeatTimeout?: number;
+  }
+
+  /**
+   * The policy used to reconnect a lost kernel websocket.
+   *
+   * #### Notes
+   * The delay before attempt `n` (starting at zero) is
+   * `min(baseDelay * 2^n, maxDelay)`, reduced by a random fraction of
+   * up to `jitter` of its value.
+   */
+  export
+  interface IReconnectPolicy extends JSONObject {
+    /**
+     * The maximum number of reconnect attempts.  Defaults to `7`.
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay in milliseconds before the first attempt.
+     * Defaults to `1000`.
+     */
+    baseDelay?: number;
+
+    /**
+     * The maximum delay in milliseconds between attempts.
+     * Defaults to `64000`.
+     */
+    maxDelay?: number;
+
+    /**
+     * The random fraction (from `0` to `1`) by which each delay may be
+     * reduced.  Defaults to `0`.
+     */
+    jitter?: number;
+
+    /**
+     * Whether to ignore `maxAttempts` and never give up.
+     * Defaults to `false`.
+     */
+    retryForever?: boolean;
+  }
+
+  /**
+   * The arguments of a [[connectionAttempt]] signal.
+   */
+  export
+  interface IConnectionAttempt extends JSONObject {
+    /**
+     * The one-based number of the attempt.
+     */
+    attempt: number;
+
+    /**
+     * The delay in milliseconds before the attempt is made.
+     */
+    delay: number;
   }
 
   /**
@@ -493,7 +635,7 @@ namespace Kernel {
      * This will emit a [[specsChanged]] signal if the value
      * has changed since the last fetch.
      */
-    getSpecs(options?: IOptions): Promise<ISpecModels>;
+    getSpecs(options?: IOptions, cancelToken?: CancellationToken): Promise<ISpecModels>;
 
     /**
      * Get a list of running kernels.
@@ -502,27 +644,27 @@ namespace Kernel {
      * This will emit a [[runningChanged]] signal if the value
      * has changed since the last fetch.
      */
-    listRunning(options?: IOptions): Promise<IModel[]>;
+    listRunning(options?: IOptions, cancelToken?: CancellationToken): Promise<IModel[]>;
 
     /**
      * Start a new kernel.
      */
-    startNew(options?: IOptions): Promise<IKernel>;
+    startNew(options?: IOptions, cancelToken?: CancellationToken): Promise<IKernel>;
 
     /**
      * Find a kernel by id.
      */
-    findById(id: string, options?: IOptions): Promise<IModel>;
+    findById(id: string, options?: IOptions, cancelToken?: CancellationToken): Promise<IModel>;
 
     /**
      * Connect to an existing kernel.
      */
-    connectTo(id: string, options?: IOptions): Promise<IKernel>;
+    connectTo(id: string, options?: IOptions, cancelToken?: CancellationToken): Promise<IKernel>;
 
     /**
      * Shut down a kernel by id.
      */
-    shutdown(id: string, options?: IOptions): Promise<void>;
+    shutdown(id: string, options?: IOptions, cancelToken?: CancellationToken): Promise<void>;
   }
 
   /**
@@ -662,10 +804,22 @@ namespace Kernel {
 
   /**
    * The valid Kernel status states.
+   *
+   * #### Notes
+   * The `'reconnecting'` status is deprecated, and is no longer emitted:
+   * a lost connection is reported by the [[ConnectionStatus]] instead,
+   * which is `'disconnected'` and then `'connecting'` while the kernel
+   * reconnects, and the status keeps the last known execution state.
    */
   export
   type Status = 'unknown' | 'starting' | 'reconnecting' | 'idle' | 'busy' | 'restarting' | 'dead';
 
+  /**
+   * The valid kernel connection states.
+   */
+  export
+  type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
   /**
    * The kernel model provided by the server.
    *
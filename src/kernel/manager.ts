@@ -28,7 +28,7 @@ class KernelManager implements Kernel.IManager {
    * @param options - The default options for kernel.
    */
   constructor(options?: Kernel.IOptions) {
-    this._options = utils.copy(options || {});
+    this._options = utils.copyOptions(options || {});
   }
 
   /**
@@ -68,9 +68,11 @@ class KernelManager implements Kernel.IManager {
    * Get the kernel specs.  See also [[getKernelSpecs]].
    *
    * @param options - Overrides for the default options.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
    */
-  getSpecs(options?: Kernel.IOptions): Promise<Kernel.ISpecModels> {
-    return Kernel.getSpecs(this._getOptions(options)).then(specs => {
+  getSpecs(options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<Kernel.ISpecModels> {
+    return Kernel.getSpecs(this._getOptions(options), cancelToken).then(specs => {
       if (!deepEqual(specs, this._spec)) {
         this._spec = specs;
         this.specsChanged.emit(specs);
@@ -83,9 +85,11 @@ class KernelManager implements Kernel.IManager {
    * List the running kernels.  See also [[listRunningKernels]].
    *
    * @param options - Overrides for the default options.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
    */
-  listRunning(options?: Kernel.IOptions): Promise<Kernel.IModel[]> {
-    return Kernel.listRunning(this._getOptions(options)).then(running => {
+  listRunning(options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<Kernel.IModel[]> {
+    return Kernel.listRunning(this._getOptions(options), cancelToken).then(running => {
       if (!deepEqual(running, this._running)) {
         this._running = running.slice();
         this.runningChanged.emit(running);
@@ -99,30 +103,36 @@ class KernelManager implements Kernel.IManager {
    *
    * @param options - Overrides for the default options.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * #### Notes
    * This will emit [[runningChanged]] if the running kernels list
    * changes.
    */
-  startNew(options?: Kernel.IOptions): Promise<IKernel> {
-    return Kernel.startNew(this._getOptions(options));
+  startNew(options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<IKernel> {
+    return Kernel.startNew(this._getOptions(options), cancelToken);
   }
 
   /**
    * Find a kernel by id.
    *
    * @param options - Overrides for the default options.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
    */
-  findById(id: string, options?: Kernel.IOptions): Promise<Kernel.IModel> {
-    return Kernel.findById(id, this._getOptions(options));
+  findById(id: string, options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<Kernel.IModel> {
+    return Kernel.findById(id, this._getOptions(options), cancelToken);
   }
 
   /**
    * Connect to a running kernel.  See also [[connectToKernel]].
    *
    * @param options - Overrides for the default options.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
    */
-  connectTo(id: string, options?: Kernel.IOptions): Promise<IKernel> {
-    return Kernel.connectTo(id, this._getOptions(options));
+  connectTo(id: string, options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<IKernel> {
+    return Kernel.connectTo(id, this._getOptions(options), cancelToken);
   }
 
   /**
@@ -130,12 +140,14 @@ class KernelManager implements Kernel.IManager {
    *
    * @param options - Overrides for the default options.
    *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
    * #### Notes
    * This will emit [[runningChanged]] if the running kernels list
    * changes.
    */
-  shutdown(id: string, options?: Kernel.IOptions): Promise<void> {
-    return Kernel.shutdown(id, this._getOptions(options));
+  shutdown(id: string, options?: Kernel.IOptions, cancelToken?: utils.CancellationToken): Promise<void> {
+    return Kernel.shutdown(id, this._getOptions(options), cancelToken);
   }
 
   /**
@@ -143,7 +155,7 @@ class KernelManager implements Kernel.IManager {
    */
   private _getOptions(options: Kernel.IOptions): Kernel.IOptions {
     if (options) {
-      options = utils.extend(utils.copy(this._options), options);
+      options = utils.extend(utils.copyOptions(this._options), options);
     } else {
       options = this._options;
     }
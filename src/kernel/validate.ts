@@ -1,6 +1,10 @@
 // Copyright (c) Jupyter Development Team.
 // Distributed under the terms of the Modified BSD License.
 
+import {
+  ValidationError
+} from '../errors';
+
 import {
   Kernel
 } from './kernel';
@@ -41,7 +45,7 @@ const IOPUB_CONTENT_FIELDS: {[key: string]: any} = {
  */
 function validateProperty(object: any, name: string, typeName?: string): void {
   if (!object.hasOwnProperty(name)) {
-    throw Error(`Missing property '${name}'`);
+    throw new ValidationError(`Missing property '${name}'`);
   }
   if (typeName !== void 0) {
     let valid = true;
@@ -57,7 +61,7 @@ function validateProperty(object: any, name: string, typeName?: string): void {
       valid = typeof value === typeName;
     }
     if (!valid) {
-      throw new Error(`Property '${name}' is not of type '${typeName}`);
+      throw new ValidationError(`Property '${name}' is not of type '${typeName}`);
     }
   }
 }
@@ -99,7 +103,7 @@ function validateIOPubContent(msg: KernelMessage.IIOPubMessage) : void {
   if (msg.channel === 'iopub') {
     let fields = IOPUB_CONTENT_FIELDS[msg.header.msg_type];
     if (fields === void 0) {
-      throw Error(`Invalid Kernel message: iopub message type ${msg.header.msg_type} not recognized`);
+      throw new ValidationError(`Invalid Kernel message: iopub message type ${msg.header.msg_type} not recognized`);
     }
     let names = Object.keys(fields);
     let content = msg.content;
@@ -141,7 +145,7 @@ function validateSpecModel(info: Kernel.ISpecModel): void {
 export
 function validateSpecModels(data: Kernel.ISpecModels): void {
   if (!data.hasOwnProperty('kernelspecs')) {
-    throw new Error('No kernelspecs found');
+    throw new ValidationError('No kernelspecs found');
   }
   let keys = Object.keys(data.kernelspecs);
   for (let i = 0; i < keys.length; i++) {
@@ -156,7 +160,7 @@ function validateSpecModels(data: Kernel.ISpecModels): void {
   }
   keys = Object.keys(data.kernelspecs);
   if (!keys.length) {
-    throw new Error('No valid kernelspecs found');
+    throw new ValidationError('No valid kernelspecs found');
   }
   if (!data.hasOwnProperty('default') ||
       typeof data.default !== 'string' ||
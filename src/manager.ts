@@ -2,11 +2,7 @@
 // Distributed under the terms of the Modified BSD License.
 
 import {
-  JSONObject
-} from 'phosphor/lib/algorithm/json';
-
-import {
-  IDisposable
+  DisposableSet, IDisposable
 } from 'phosphor/lib/core/disposable';
 
 import {
@@ -30,7 +26,8 @@ import {
 } from './terminal';
 
 import {
-  IAjaxSettings, getBaseUrl
+  IAjaxInterceptor, IAjaxSettings, copy, getBaseUrl, registerInterceptor,
+  uuid
 } from './utils';
 
 /**
@@ -82,6 +79,15 @@ interface IServiceManager extends IDisposable {
    * This is a read-only property.
    */
   terminals: TerminalSession.IManager;
+
+  /**
+   * Add an interceptor for the requests made by the manager.
+   *
+   * @param interceptor - The interceptor to add.
+   *
+   * @returns A disposable which removes the interceptor.
+   */
+  addInterceptor(interceptor: IAjaxInterceptor): IDisposable;
 }
 
 
@@ -105,10 +111,39 @@ namespace IServiceManager {
      */
     ajaxSettings?: IAjaxSettings;
 
+    /**
+     * The initial interceptors for the requests made by the manager.
+     */
+    interceptors?: IAjaxInterceptor[];
+
+    /**
+     * The token used to authenticate with the server.
+     *
+     * #### Notes
+     * This overrides the `token` of the [[ajaxSettings]], which
+     * defaults to the `token` config option.
+     */
+    token?: string;
+
+    /**
+     * The name of the request transport used by the manager,
+     * e.g. `'xhr'` or `'fetch'`.
+     *
+     * #### Notes
+     * This overrides the `transport` of the [[ajaxSettings]].
+     */
+    transport?: string;
+
     /**
      * The kernelspecs for the manager.
      */
     kernelspecs?: Kernel.ISpecModels;
+
+    /**
+     * The factory used to create kernel and terminal websockets.
+     * Defaults to the global `WebSocket` constructor.
+     */
+    socketFactory?: (url: string) => WebSocket;
   }
 }
 
@@ -122,7 +157,7 @@ namespace IServiceManager {
 export
 function createServiceManager(options: IServiceManager.IOptions = {}): Promise<IServiceManager> {
   options.baseUrl = options.baseUrl || getBaseUrl();
-  options.ajaxSettings = options.ajaxSettings || {};
+  options.ajaxSettings = Private.getAjaxSettings(options);
   if (options.kernelspecs) {
     return Promise.resolve(new ServiceManager(options));
   }
@@ -130,9 +165,15 @@ function createServiceManager(options: IServiceManager.IOptions = {}): Promise<I
     baseUrl: options.baseUrl,
     ajaxSettings: options.ajaxSettings
   };
+  // Apply the interceptors to the kernel spec request.
+  let interceptors = Private.registerInterceptors(options);
   return Kernel.getSpecs(kernelOptions).then(specs => {
+    interceptors.dispose();
     options.kernelspecs = specs;
     return new ServiceManager(options);
+  }, error => {
+    interceptors.dispose();
+    return Promise.reject(error);
   });
 }
 
@@ -146,9 +187,15 @@ class ServiceManager implements IServiceManager {
    * Construct a new services provider.
    */
   constructor(options: IServiceManager.IOptions) {
-    let subOptions: JSONObject = {
+    this._ajaxSettings = Private.getAjaxSettings(options);
+    this._interceptors = Private.registerInterceptors({
+      ajaxSettings: this._ajaxSettings,
+      interceptors: options.interceptors
+    });
+    let subOptions = {
       baseUrl: options.baseUrl,
-      ajaxSettings: options.ajaxSettings
+      ajaxSettings: this.ajaxSettings,
+      socketFactory: options.socketFactory
     };
     this._kernelspecs = options.kernelspecs;
     this._kernelManager = new KernelManager(subOptions);
@@ -182,9 +229,24 @@ class ServiceManager implements IServiceManager {
       return;
     }
     this._isDisposed = true;
+    this._interceptors.dispose();
     clearSignalData(this);
   }
 
+  /**
+   * Get a copy of the ajax settings used by the manager.
+   *
+   * #### Notes
+   * This is a read-only property.
+   *
+   * The settings select the interceptor group of the manager, so they
+   * can be used to create objects such as config sections which honor
+   * the interceptors of the manager.
+   */
+  get ajaxSettings(): IAjaxSettings {
+    return copy(this._ajaxSettings);
+  }
+
   /**
    * Get kernel specs.
    */
@@ -232,6 +294,24 @@ class ServiceManager implements IServiceManager {
     return this._terminalManager;
   }
 
+  /**
+   * Add an interceptor for the requests made by the manager.
+   *
+   * @param interceptor - The interceptor to add.
+   *
+   * @returns A disposable which removes the interceptor.
+   *
+   * #### Notes
+   * The interceptor applies to the requests of the kernels, sessions,
+   * contents and terminals created by the manager.
+   */
+  addInterceptor(interceptor: IAjaxInterceptor): IDisposable {
+    let group = this._ajaxSettings.interceptors;
+    let disposable = registerInterceptor(group, interceptor);
+    this._interceptors.add(disposable);
+    return disposable;
+  }
+
   /**
    * Handle a change in kernel specs.
    */
@@ -245,9 +325,48 @@ class ServiceManager implements IServiceManager {
   private _contentsManager: ContentsManager = null;
   private _terminalManager: TerminalManager = null;
   private _kernelspecs: Kernel.ISpecModels = null;
+  private _ajaxSettings: IAjaxSettings = null;
+  private _interceptors: DisposableSet = null;
   private _isDisposed = false;
 }
 
 
 // Define the signals for the `ServiceManager` class.
 defineSignal(ServiceManager.prototype, 'specsChanged');
+
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Get the ajax settings for a service manager.
+   */
+  export
+  function getAjaxSettings(options: IServiceManager.IOptions): IAjaxSettings {
+    let ajaxSettings = copy(options.ajaxSettings || {}) as IAjaxSettings;
+    if (options.transport) {
+      ajaxSettings.transport = options.transport;
+    }
+    if (options.token !== void 0) {
+      ajaxSettings.token = options.token;
+    }
+    if (!ajaxSettings.interceptors) {
+      ajaxSettings.interceptors = uuid();
+    }
+    return ajaxSettings;
+  }
+
+  /**
+   * Register the initial interceptors of a service manager.
+   */
+  export
+  function registerInterceptors(options: IServiceManager.IOptions): DisposableSet {
+    let group = options.ajaxSettings.interceptors;
+    let disposables = new DisposableSet();
+    (options.interceptors || []).forEach(interceptor => {
+      disposables.add(registerInterceptor(group, interceptor));
+    });
+    return disposables;
+  }
+}
@@ -3,13 +3,17 @@
 'use strict';
 
 import {
-  IAjaxSettings
+  BinaryData, IAjaxSettings, decodeBytes, encodeBytes
 } from './utils';
 
 import {
   Contents
 } from './contents';
 
+import {
+  uploadChunks
+} from './contents/upload';
+
 
 export
 class MockContentsManager implements Contents.IManager {
@@ -98,6 +102,28 @@ class MockContentsManager implements Contents.IManager {
     return Promise.resolve(options);
   }
 
+  upload(path: string, data: BinaryData, options: Contents.IUploadOptions = {}): Promise<Contents.IModel> {
+    this.methods.push('upload');
+    return uploadChunks(path, data, options, (chunkModel, chunk) => {
+      // Append the chunk to the bytes saved by the previous chunks.
+      let bytes = decodeBytes(chunkModel.content);
+      let saved = chunk === 1 ? [] : (this._uploads[path] || []);
+      for (let i = 0; i < bytes.length; i++) {
+        saved.push(bytes[i]);
+      }
+      this._uploads[path] = saved;
+      let model: Contents.IModel = {
+        name: path.split('/').pop(),
+        path,
+        type: 'file',
+        format: 'base64',
+        content: encodeBytes(new Uint8Array(saved))
+      };
+      this._files[path] = model;
+      return Promise.resolve(this._copyModel(model));
+    });
+  }
+
   copy(path: string, toDir: string): Promise<Contents.IModel> {
     this.methods.push('copy');
     let model = this._files[path];
@@ -141,6 +167,10 @@ class MockContentsManager implements Contents.IManager {
 
   deleteCheckpoint(path: string, checkpointID: string): Promise<void> {
     this.methods.push('deleteCheckpoint');
+    let checkpoints = this._checkpoints[path] || [];
+    this._checkpoints[path] = checkpoints.filter(model => {
+      return model.id !== checkpointID;
+    });
     delete this._fileSnaps[checkpointID];
     return Promise.resolve(void 0);
   }
@@ -154,5 +184,6 @@ class MockContentsManager implements Contents.IManager {
   private _files: { [key: string]: Contents.IModel } = Object.create(null);
   private _checkpoints: { [key: string]: Contents.ICheckpointModel[] } = Object.create(null);
   private _fileSnaps: { [key: string]: Contents.IModel } = Object.create(null);
+  private _uploads: { [key: string]: number[] } = Object.create(null);
   private _id = 0;
 }
@@ -98,6 +98,7 @@ class MockKernel implements IKernel {
   name: string;
   username = '';
   clientId = '';
+  latency = 0;
 
   /**
    * Construct a new mock kernel.
@@ -118,7 +119,7 @@ class MockKernel implements IKernel {
       banner: 'Hello',
       help_links: {}
     };
-    Promise.resolve().then(() => {
+    this._ready = Promise.resolve().then(() => {
       this._changeStatus('idle');
     });
     Private.runningKernels[this.id] = this;
@@ -129,6 +130,11 @@ class MockKernel implements IKernel {
    */
   statusChanged: ISignal<IKernel, Kernel.Status>;
 
+  /**
+   * A signal emitted when the kernel connection status changes.
+   */
+  connectionStatusChanged: ISignal<IKernel, Kernel.ConnectionStatus>;
+
   /**
    * A signal emitted for iopub kernel messages.
    */
@@ -139,6 +145,16 @@ class MockKernel implements IKernel {
    */
   unhandledMessage: ISignal<IKernel, KernelMessage.IMessage>;
 
+  /**
+   * A signal emitted when a websocket reconnection attempt is scheduled.
+   */
+  connectionAttempt: ISignal<IKernel, Kernel.IConnectionAttempt>;
+
+  /**
+   * A signal emitted when the reconnect policy has been exhausted.
+   */
+  connectionFailed: ISignal<IKernel, void>;
+
   /**
    * The current status of the kernel.
    */
@@ -146,6 +162,20 @@ class MockKernel implements IKernel {
     return this._status;
   }
 
+  /**
+   * The current status of the kernel connection.
+   */
+  get connectionStatus(): Kernel.ConnectionStatus {
+    return this._connectionStatus;
+  }
+
+  /**
+   * A promise that is fulfilled when the kernel is ready.
+   */
+  get ready(): Promise<void> {
+    return this._ready;
+  }
+
   /**
    * The model associated with the kernel.
    *
@@ -248,9 +278,10 @@ class MockKernel implements IKernel {
    */
   restart(): Promise<void> {
     this._changeStatus('restarting');
-    return Promise.resolve().then(() => {
+    this._ready = Promise.resolve().then(() => {
       this._changeStatus('idle');
     });
+    return this._ready;
   }
 
 
@@ -259,11 +290,13 @@ class MockKernel implements IKernel {
    * standard HTTP request, but useful function nonetheless for
    * reconnecting to the kernel if the connection is somehow lost.
    */
-  reconnect(): Promise<void> {
-    this._changeStatus('reconnecting');
-    return Promise.resolve().then(() => {
-      this._changeStatus('idle');
+  reconnect(policy?: Kernel.IReconnectPolicy): Promise<void> {
+    this._changeConnectionStatus('connecting');
+    this.connectionAttempt.emit({ attempt: 1, delay: 0 });
+    this._ready = Promise.resolve().then(() => {
+      this._changeConnectionStatus('connected');
     });
+    return this._ready;
   }
 
   /**
@@ -482,8 +515,21 @@ class MockKernel implements IKernel {
     this.statusChanged.emit(status);
   }
 
+  /**
+   * Change the connection status of the mock kernel.
+   */
+  private _changeConnectionStatus(connectionStatus: Kernel.ConnectionStatus): void {
+    if (this._connectionStatus === connectionStatus) {
+      return;
+    }
+    this._connectionStatus = connectionStatus;
+    this.connectionStatusChanged.emit(connectionStatus);
+  }
+
   private _status: Kernel.Status = 'unknown';
+  private _connectionStatus: Kernel.ConnectionStatus = 'connected';
   private _isDisposed = false;
+  private _ready: Promise<void> = null;
   private _futures: KernelFutureHandler[] = [];
   private _kernelspec: Kernel.ISpec = null;
   private _kernelInfo: KernelMessage.IInfoReply = null;
@@ -547,9 +593,8 @@ class MockKernelManager implements Kernel.IManager {
     return Promise.resolve(models);
   }
 
-  startNew(options?: Kernel.IOptions, id?: string): Promise<MockKernel> {
-    let name = options ? options.name : void 0;
-    return Promise.resolve(new MockKernel({ name, id }));
+  startNew(options?: Kernel.IOptions): Promise<MockKernel> {
+    return this._startNew(options);
   }
 
   findById(id: string, options?: Kernel.IOptions): Promise<Kernel.IModel> {
@@ -563,7 +608,7 @@ class MockKernelManager implements Kernel.IManager {
     if (id in Private.runningKernels) {
       return Promise.resolve(Private.runningKernels[id]);
     }
-    return this.startNew(options, id);
+    return this._startNew(options, id);
   }
 
   shutdown(id: string, options?: Kernel.IOptions): Promise<void> {
@@ -574,6 +619,14 @@ class MockKernelManager implements Kernel.IManager {
     return kernel.shutdown();
   }
 
+  /**
+   * Start a new kernel with an optional id.
+   */
+  private _startNew(options?: Kernel.IOptions, id?: string): Promise<MockKernel> {
+    let name = options ? options.name : void 0;
+    return Promise.resolve(new MockKernel({ name, id }));
+  }
+
   private _running: Kernel.IModel[] = [];
   private _specs: Kernel.ISpecModels = null;
   private _isDisposed = false;
@@ -582,8 +635,11 @@ class MockKernelManager implements Kernel.IManager {
 
 // Define the signals for the `MockKernel` class.
 defineSignal(MockKernel.prototype, 'statusChanged');
+defineSignal(MockKernel.prototype, 'connectionStatusChanged');
 defineSignal(MockKernel.prototype, 'iopubMessage');
 defineSignal(MockKernel.prototype, 'unhandledMessage');
+defineSignal(MockKernel.prototype, 'connectionAttempt');
+defineSignal(MockKernel.prototype, 'connectionFailed');
 
 
 // Define the signal for the `MockKernelKernelManager` class.
@@ -1,6 +1,10 @@
 // Copyright (c) Jupyter Development Team.
 // Distributed under the terms of the Modified BSD License.
 
+import {
+  DisposableDelegate, IDisposable
+} from 'phosphor/lib/core/disposable';
+
 import {
   ISignal, clearSignalData, defineSignal
 } from 'phosphor/lib/core/signaling';
@@ -29,6 +33,10 @@ import {
   MockTerminalManager
 } from './mockterminals';
 
+import {
+  IAjaxInterceptor
+} from './utils';
+
 
 /**
  * A mock implementation of a services manager.
@@ -119,6 +127,16 @@ class MockServiceManager implements IServiceManager {
     return this._terminalManager;
   }
 
+  /**
+   * Add an interceptor for the requests made by the manager.
+   *
+   * #### Notes
+   * The mock managers make no requests, so the interceptor is not called.
+   */
+  addInterceptor(interceptor: IAjaxInterceptor): IDisposable {
+    return new DisposableDelegate(() => { /* no-op */ });
+  }
+
   private _kernelManager: MockKernelManager = null;
   private _sessionManager: MockSessionManager = null;
   private _contentsManager: MockContentsManager = null;
@@ -50,6 +50,7 @@ class MockSession implements ISession {
     this.path = model.notebook.path;
     this._kernel = new MockKernel(model.kernel);
     this._kernel.statusChanged.connect(this.onKernelStatus, this);
+    this._kernel.connectionStatusChanged.connect(this.onKernelConnectionStatus, this);
     this._kernel.unhandledMessage.connect(this.onUnhandledMessage, this);
     Private.runningSessions[this.id] = this;
   }
@@ -69,6 +70,11 @@ class MockSession implements ISession {
    */
   statusChanged: ISignal<MockSession, Kernel.Status>;
 
+  /**
+   * A signal emitted when the kernel connection status changes.
+   */
+  connectionStatusChanged: ISignal<MockSession, Kernel.ConnectionStatus>;
+
   /**
    * A signal emitted for a kernel messages.
    */
@@ -111,6 +117,13 @@ class MockSession implements ISession {
     return this._kernel.status;
   }
 
+  /**
+   * The current connection status of the session.
+   */
+  get connectionStatus(): Kernel.ConnectionStatus {
+    return this._kernel.connectionStatus;
+  }
+
   /**
    * Test whether the session has been disposed.
    *
@@ -167,6 +180,13 @@ class MockSession implements ISession {
     this.statusChanged.emit(state);
   }
 
+  /**
+   * Handle changes in the kernel connection status.
+   */
+  protected onKernelConnectionStatus(sender: IKernel, state: Kernel.ConnectionStatus) {
+    this.connectionStatusChanged.emit(state);
+  }
+
   /**
    * Handle unhandled kernel messages.
    */
@@ -242,18 +262,8 @@ class MockSessionManager implements Session.IManager {
   /**
    * Start a new session.
    */
-  startNew(options: Session.IOptions, id?: string): Promise<MockSession> {
-    let session = new MockSession({
-      id,
-      notebook: {
-        path: options.path || ''
-      },
-      kernel: {
-        id: options.kernelId,
-        name: options.kernelName
-      }
-    });
-    return Promise.resolve(session);
+  startNew(options: Session.IOptions): Promise<MockSession> {
+    return this._startNew(options);
   }
 
   /**
@@ -286,7 +296,7 @@ class MockSessionManager implements Session.IManager {
     if (id in Private.runningSessions) {
       return Promise.resolve(Private.runningSessions[id]);
     }
-    return this.startNew(options, id);
+    return this._startNew(options, id);
   }
 
   shutdown(id: string, options?: Kernel.IOptions): Promise<void> {
@@ -297,6 +307,23 @@ class MockSessionManager implements Session.IManager {
     return session.shutdown();
   }
 
+  /**
+   * Start a new session with an optional id.
+   */
+  private _startNew(options: Session.IOptions, id?: string): Promise<MockSession> {
+    let session = new MockSession({
+      id,
+      notebook: {
+        path: options.path || ''
+      },
+      kernel: {
+        id: options.kernelId,
+        name: options.kernelName
+      }
+    });
+    return Promise.resolve(session);
+  }
+
   private _isDisposed = false;
   private _running: Session.IModel[] = [];
 }
@@ -306,6 +333,7 @@ class MockSessionManager implements Session.IManager {
 defineSignal(MockSession.prototype, 'sessionDied');
 defineSignal(MockSession.prototype, 'kernelChanged');
 defineSignal(MockSession.prototype, 'statusChanged');
+defineSignal(MockSession.prototype, 'connectionStatusChanged');
 defineSignal(MockSession.prototype, 'iopubMessage');
 defineSignal(MockSession.prototype, 'unhandledMessage');
 defineSignal(MockSession.prototype, 'pathChanged');
@@ -118,12 +118,25 @@ class MockXMLHttpRequest {
     this._onError = cb;
   }
 
+  /**
+   * Set a callback for when the request is aborted.
+   */
+  set onabort(cb: (evt?: any) => void) {
+    this._onAbort = cb;
+  }
+
   /**
    * Set a callback for when the request is in progress.
    */
-  set onprogress(cb: () => void) {
-    throw new Error('Not implemented');
-    //this._onProgress = cb;
+  set onprogress(cb: (evt?: any) => void) {
+    this._onProgress = cb;
+  }
+
+  /**
+   * The upload object of the request.
+   */
+  get upload(): { onprogress: (evt?: any) => void } {
+    return this._upload;
   }
 
   /**
@@ -154,6 +167,13 @@ class MockXMLHttpRequest {
     return this._url;
   }
 
+  /**
+   * Get the data sent with the request.
+   */
+  get data(): any {
+    return this._data;
+  }
+
   /**
    * Initialize a request.
    */
@@ -249,6 +269,10 @@ class MockXMLHttpRequest {
 
     doLater(() => {
       this._statusText = `${statusCode} ${statusReasons[statusCode]}`;
+      var onUpload = this._upload.onprogress;
+      if (onUpload && this._data) onUpload(createProgressEvent(this._data));
+      var onProgress = this._onProgress;
+      if (onProgress) onProgress(createProgressEvent(response));
       var onReadyState = this._onReadyState;
       if (onReadyState) onReadyState();
       var onLoad = this._onLoad;
@@ -256,6 +280,23 @@ class MockXMLHttpRequest {
     });
   }
 
+  /**
+   * Abort the request.
+   */
+  abort(): void {
+    if (this._readyState === MockXMLHttpRequest.DONE) {
+      return;
+    }
+    this._status = 0;
+    this._response = '';
+    this._readyState = MockXMLHttpRequest.DONE;
+
+    doLater(() => {
+      var onAbort = this._onAbort;
+      if (onAbort) onAbort();
+    });
+  }
+
   /**
    * Simulate a request error.
    */
@@ -284,7 +325,9 @@ class MockXMLHttpRequest {
   private _password = '';
   private _onLoad: () => void = null;
   private _onError: (evt: Error) => void = null;
-  private _onProgress: () => void = null;
+  private _onAbort: (evt?: any) => void = null;
+  private _onProgress: (evt?: any) => void = null;
+  private _upload: { onprogress: (evt?: any) => void } = { onprogress: null };
   private _requestHeader: { [key: string]: any } = Object.create(null);
   private _responseHeader: { [key: string]: any } = Object.create(null);
   private _onReadyState: () => void = null;
@@ -301,6 +344,15 @@ function doLater(cb: () => void): void {
 }
 
 
+/**
+ * Create a progress event for a completed transfer of data.
+ */
+function createProgressEvent(data: any): any {
+  var length = ('' + data).length;
+  return { lengthComputable: true, loaded: length, total: length };
+}
+
+
 /**
  * Status code reasons.
  */
@@ -5,6 +5,10 @@ import {
   ISignal, clearSignalData, defineSignal
 } from 'phosphor/lib/core/signaling';
 
+import {
+  CancellationError, ResponseError, ServerConnectionError, ValidationError
+} from '../errors';
+
 import {
   IKernel, Kernel, KernelMessage
 } from '../kernel';
@@ -48,7 +52,7 @@ class DefaultSession implements ISession {
     this._uuid = utils.uuid();
     Private.runningSessions[this._uuid] = this;
     this.setupKernel(kernel);
-    this._options = utils.copy(options);
+    this._options = utils.copyOptions(options);
   }
 
   /**
@@ -66,6 +70,11 @@ class DefaultSession implements ISession {
    */
   statusChanged: ISignal<ISession, Kernel.Status>;
 
+  /**
+   * A signal emitted when the kernel connection status changes.
+   */
+  connectionStatusChanged: ISignal<ISession, Kernel.ConnectionStatus>;
+
   /**
    * A signal emitted for a kernel messages.
    */
@@ -139,6 +148,17 @@ class DefaultSession implements ISession {
     return this._kernel ? this._kernel.status : 'dead';
   }
 
+  /**
+   * The current connection status of the session.
+   *
+   * #### Notes
+   * This is a read-only property, and is a delegate to the kernel
+   * connection status.
+   */
+  get connectionStatus(): Kernel.ConnectionStatus {
+    return this._kernel ? this._kernel.connectionStatus : 'disconnected';
+  }
+
   /**
    * Get a copy of the default ajax settings for the session.
    */
@@ -169,7 +189,7 @@ class DefaultSession implements ISession {
   clone(): Promise<ISession> {
     let options = this._getKernelOptions();
     return Kernel.connectTo(this.kernel.id, options).then(kernel => {
-      options = utils.copy(this._options);
+      options = utils.copyOptions(this._options);
       options.ajaxSettings = this.ajaxSettings;
       return new DefaultSession(options, this._id, kernel);
     });
@@ -280,6 +300,7 @@ class DefaultSession implements ISession {
   protected setupKernel(kernel: IKernel): void {
     this._kernel = kernel;
     kernel.statusChanged.connect(this.onKernelStatus, this);
+    kernel.connectionStatusChanged.connect(this.onKernelConnectionStatus, this);
     kernel.unhandledMessage.connect(this.onUnhandledMessage, this);
     kernel.iopubMessage.connect(this.onIOPubMessage, this);
   }
@@ -291,6 +312,13 @@ class DefaultSession implements ISession {
     this.statusChanged.emit(state);
   }
 
+  /**
+   * Handle changes in the kernel connection status.
+   */
+  protected onKernelConnectionStatus(sender: IKernel, state: Kernel.ConnectionStatus) {
+    this.connectionStatusChanged.emit(state);
+  }
+
   /**
    * Handle iopub kernel messages.
    */
@@ -313,7 +341,8 @@ class DefaultSession implements ISession {
       baseUrl: this._options.baseUrl,
       wsUrl: this._options.wsUrl,
       username: this.kernel.username,
-      ajaxSettings: this.ajaxSettings
+      ajaxSettings: this.ajaxSettings,
+      socketFactory: this._options.socketFactory
     };
   }
 
@@ -339,7 +368,7 @@ class DefaultSession implements ISession {
       try {
         validate.validateModel(data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
       return Private.updateByModel(data);
     }, error => {
@@ -363,6 +392,7 @@ class DefaultSession implements ISession {
 defineSignal(DefaultSession.prototype, 'sessionDied');
 defineSignal(DefaultSession.prototype, 'kernelChanged');
 defineSignal(DefaultSession.prototype, 'statusChanged');
+defineSignal(DefaultSession.prototype, 'connectionStatusChanged');
 defineSignal(DefaultSession.prototype, 'iopubMessage');
 defineSignal(DefaultSession.prototype, 'unhandledMessage');
 defineSignal(DefaultSession.prototype, 'pathChanged');
@@ -377,48 +407,48 @@ namespace DefaultSession {
    * List the running sessions.
    */
   export
-  function listRunning(options?: Session.IOptions): Promise<Session.IModel[]> {
-    return Private.listRunning(options);
+  function listRunning(options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Session.IModel[]> {
+    return Private.listRunning(options, cancelToken);
   }
 
   /**
    * Start a new session.
    */
   export
-  function startNew(options: Session.IOptions): Promise<ISession> {
-    return Private.startNew(options);
+  function startNew(options: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<ISession> {
+    return Private.startNew(options, cancelToken);
   }
 
   /**
    * Find a session by id.
    */
   export
-  function findById(id: string, options?: Session.IOptions): Promise<Session.IModel> {
-    return Private.findById(id, options);
+  function findById(id: string, options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Session.IModel> {
+    return Private.findById(id, options, cancelToken);
   }
 
   /**
    * Find a session by path.
    */
   export
-  function findByPath(path: string, options?: Session.IOptions): Promise<Session.IModel> {
-    return Private.findByPath(path, options);
+  function findByPath(path: string, options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Session.IModel> {
+    return Private.findByPath(path, options, cancelToken);
   }
 
   /**
    * Connect to a running session.
    */
   export
-  function connectTo(id: string, options?: Session.IOptions): Promise<ISession> {
-    return Private.connectTo(id, options);
+  function connectTo(id: string, options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<ISession> {
+    return Private.connectTo(id, options, cancelToken);
   }
 
   /**
    * Shut down a session by id.
    */
   export
-  function shutdown(id: string, options: Session.IOptions = {}): Promise<void> {
-    return Private.shutdown(id, options);
+  function shutdown(id: string, options: Session.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<void> {
+    return Private.shutdown(id, options, cancelToken);
   }
 }
 
@@ -437,15 +467,15 @@ namespace Private {
    * List the running sessions.
    */
   export
-  function listRunning(options: Session.IOptions = {}): Promise<Session.IModel[]> {
+  function listRunning(options: Session.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<Session.IModel[]> {
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let url = utils.urlPathJoin(baseUrl, SESSION_SERVICE_URL);
-    let ajaxSettings: IAjaxSettings = utils.copy(options.ajaxSettings || {});
+    let ajaxSettings: IAjaxSettings = utils.copyOptions(options.ajaxSettings);
     ajaxSettings.method = 'GET';
     ajaxSettings.dataType = 'json';
     ajaxSettings.cache = false;
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
@@ -456,7 +486,7 @@ namespace Private {
         try {
           validate.validateModel(success.data[i]);
         } catch (err) {
-          return utils.makeAjaxError(success, err.message);
+          return utils.makeValidationError(success, err);
         }
       }
       return updateRunningSessions(success.data);
@@ -467,12 +497,12 @@ namespace Private {
    * Start a new session.
    */
   export
-  function startNew(options: Session.IOptions): Promise<ISession> {
+  function startNew(options: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<ISession> {
     if (options.path === void 0) {
       return Promise.reject(new Error('Must specify a path'));
     }
-    return startSession(options).then(model => {
-      return createSession(model, options);
+    return startSession(options, cancelToken).then(model => {
+      return createSession(model, options, cancelToken);
     });
   }
 
@@ -480,7 +510,7 @@ namespace Private {
    * Find a session by id.
    */
   export
-  function findById(id: string, options: Session.IOptions = {}): Promise<Session.IModel> {
+  function findById(id: string, options: Session.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<Session.IModel> {
     let sessions = runningSessions;
     for (let clientId in sessions) {
       let session = sessions[clientId];
@@ -493,9 +523,12 @@ namespace Private {
         return Promise.resolve(model);
       }
     }
-    return getSessionModel(id, options).catch(() => {
+    return getSessionModel(id, options, cancelToken).catch(error => {
+      if (error instanceof CancellationError) {
+        throw error;
+      }
       let msg = `No running session for id: ${id}`;
-      return typedThrow<Session.IModel>(msg);
+      return typedThrow<Session.IModel>(msg, error);
     });
   }
 
@@ -503,7 +536,7 @@ namespace Private {
    * Find a session by path.
    */
   export
-  function findByPath(path: string, options: Session.IOptions = {}): Promise<Session.IModel> {
+  function findByPath(path: string, options: Session.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<Session.IModel> {
     let sessions = runningSessions;
     for (let clientId in sessions) {
       let session = sessions[clientId];
@@ -516,7 +549,7 @@ namespace Private {
         return Promise.resolve(model);
       }
     }
-    return listRunning(options).then(models => {
+    return listRunning(options, cancelToken).then(models => {
       for (let model of models) {
         if (model.notebook.path === path) {
           return model;
@@ -531,18 +564,21 @@ namespace Private {
    * Connect to a running session.
    */
   export
-  function connectTo(id: string, options: Session.IOptions = {}): Promise<ISession> {
+  function connectTo(id: string, options: Session.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<ISession> {
     for (let clientId in runningSessions) {
       let session = runningSessions[clientId];
       if (session.id === id) {
         return session.clone();
       }
     }
-    return getSessionModel(id, options).then(model => {
-      return createSession(model, options);
-    }).catch(() => {
+    return getSessionModel(id, options, cancelToken).then(model => {
+      return createSession(model, options, cancelToken);
+    }).catch(error => {
+      if (error instanceof CancellationError) {
+        throw error;
+      }
       let msg = `No running session with id: ${id}`;
-      return typedThrow<ISession>(msg);
+      return typedThrow<ISession>(msg, error);
     });
   }
 
@@ -550,10 +586,10 @@ namespace Private {
    * Shut down a session by id.
    */
   export
-  function shutdown(id: string, options: Session.IOptions = {}): Promise<void> {
+  function shutdown(id: string, options: Session.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<void> {
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let ajaxSettings = options.ajaxSettings || {};
-    return shutdownSession(id, baseUrl, ajaxSettings);
+    return shutdownSession(id, baseUrl, ajaxSettings, cancelToken);
   }
 
   /**
@@ -561,28 +597,28 @@ namespace Private {
    * the session path already exists
    */
   export
-  function startSession(options: Session.IOptions): Promise<Session.IModel> {
+  function startSession(options: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Session.IModel> {
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let url = utils.urlPathJoin(baseUrl, SESSION_SERVICE_URL);
     let model = {
       kernel: { name: options.kernelName, id: options.kernelId },
       notebook: { path: options.path }
     };
-    let ajaxSettings: IAjaxSettings = utils.copy(options.ajaxSettings || {});
+    let ajaxSettings: IAjaxSettings = utils.copyOptions(options.ajaxSettings);
     ajaxSettings.method = 'POST';
     ajaxSettings.dataType = 'json';
     ajaxSettings.data = JSON.stringify(model);
     ajaxSettings.contentType = 'application/json';
     ajaxSettings.cache = false;
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 201) {
         return utils.makeAjaxError(success);
       }
       try {
         validate.validateModel(success.data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
       let data = success.data as Session.IModel;
       return updateByModel(data);
@@ -592,16 +628,17 @@ namespace Private {
   /**
    * Create a Promise for a kernel object given a session model and options.
    */
-  function createKernel(options: Session.IOptions): Promise<IKernel> {
+  function createKernel(options: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<IKernel> {
     let kernelOptions: Kernel.IOptions = {
       name: options.kernelName,
       baseUrl: options.baseUrl || utils.getBaseUrl(),
       wsUrl: options.wsUrl,
       username: options.username,
       clientId: options.clientId,
-      ajaxSettings: options.ajaxSettings
+      ajaxSettings: options.ajaxSettings,
+      socketFactory: options.socketFactory
     };
-    return Kernel.connectTo(options.kernelId, kernelOptions);
+    return Kernel.connectTo(options.kernelId, kernelOptions, cancelToken);
   }
 
   /**
@@ -610,14 +647,19 @@ namespace Private {
    * @returns - A promise that resolves with a started session.
    */
   export
-  function createSession(model: Session.IModel, options: Session.IOptions): Promise<DefaultSession> {
+  function createSession(model: Session.IModel, options: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<DefaultSession> {
     options.kernelName = model.kernel.name;
     options.kernelId = model.kernel.id;
     options.path = model.notebook.path;
-    return createKernel(options).then(kernel => {
+    return createKernel(options, cancelToken).then(kernel => {
       return new DefaultSession(options, model.id, kernel);
     }).catch(error => {
-      return typedThrow('Session failed to start: ' + error.message);
+      if (error instanceof CancellationError) {
+        throw error;
+      }
+      return typedThrow<DefaultSession>(
+        'Session failed to start: ' + error.message, error
+      );
     });
   }
 
@@ -625,7 +667,7 @@ namespace Private {
    * Get a full session model from the server by session id string.
    */
   export
-  function getSessionModel(id: string, options?: Session.IOptions): Promise<Session.IModel> {
+  function getSessionModel(id: string, options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Session.IModel> {
     options = options || {};
     let baseUrl = options.baseUrl || utils.getBaseUrl();
     let url = getSessionUrl(baseUrl, id);
@@ -634,7 +676,7 @@ namespace Private {
     ajaxSettings.dataType = 'json';
     ajaxSettings.cache = false;
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
@@ -642,7 +684,7 @@ namespace Private {
       try {
         validate.validateModel(data);
       } catch (err) {
-        return utils.makeAjaxError(success, err.message);
+        return utils.makeValidationError(success, err);
       }
       return updateByModel(data);
     }, Private.onSessionError);
@@ -691,13 +733,13 @@ namespace Private {
    * Shut down a session by id.
    */
   export
-  function shutdownSession(id: string, baseUrl: string, ajaxSettings: IAjaxSettings = {}): Promise<void> {
+  function shutdownSession(id: string, baseUrl: string, ajaxSettings: IAjaxSettings = {}, cancelToken?: utils.CancellationToken): Promise<void> {
     let url = getSessionUrl(baseUrl, id);
     ajaxSettings.method = 'DELETE';
     ajaxSettings.dataType = 'json';
     ajaxSettings.cache = false;
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 204) {
         return utils.makeAjaxError(success);
       }
@@ -722,6 +764,9 @@ namespace Private {
    */
   export
   function onSessionError(error: utils.IAjaxError): Promise<any> {
+    if (error instanceof CancellationError) {
+      return Promise.reject(error);
+    }
     let text = (error.throwError ||
                 error.xhr.statusText ||
                 error.xhr.responseText);
@@ -732,9 +777,23 @@ namespace Private {
 
   /**
    * Throw a typed error.
+   *
+   * #### Notes
+   * A [[ResponseError]] which caused the failure is thrown again for the
+   * same response with the message as its `throwError`, so that the
+   * message, status and traceback from the server are kept.  A
+   * [[ServerConnectionError]] is rethrown as is.  Other failures throw a
+   * [[ValidationError]].
    */
   export
-  function typedThrow<T>(msg: string): T {
-    throw new Error(msg);
+  function typedThrow<T>(msg: string, error?: Error): T {
+    if (error instanceof ResponseError) {
+      let { xhr, ajaxSettings, event } = error;
+      throw new ResponseError({ xhr, ajaxSettings, event, throwError: msg });
+    }
+    if (error instanceof ServerConnectionError) {
+      throw error;
+    }
+    throw new ValidationError(msg);
   }
 }
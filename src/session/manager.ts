@@ -32,7 +32,7 @@ class SessionManager implements Session.IManager {
    * @param options - The default options for each session.
    */
   constructor(options?: Session.IOptions) {
-    this._options = utils.copy(options || {});
+    this._options = utils.copyOptions(options || {});
   }
 
   /**
@@ -71,9 +71,11 @@ class SessionManager implements Session.IManager {
    * Get the available kernel specs. See also [[Kernel.getSpecs]].
    *
    * @param options - Overrides for the default options.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
    */
-  getSpecs(options?: Session.IOptions): Promise<Kernel.ISpecModels> {
-    return Kernel.getSpecs(this._getOptions(options)).then(specs => {
+  getSpecs(options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Kernel.ISpecModels> {
+    return Kernel.getSpecs(this._getOptions(options), cancelToken).then(specs => {
       if (!deepEqual(specs, this._specs)) {
         this._specs = specs;
         this.specsChanged.emit(specs);
@@ -86,9 +88,11 @@ class SessionManager implements Session.IManager {
    * List the running sessions.  See also [[listRunningSessions]].
    *
    * @param options - Overrides for the default options.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
    */
-  listRunning(options?: Session.IOptions): Promise<Session.IModel[]> {
-    return Session.listRunning(this._getOptions(options)).then(running => {
+  listRunning(options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Session.IModel[]> {
+    return Session.listRunning(this._getOptions(options), cancelToken).then(running => {
       if (!deepEqual(running, this._running)) {
         this._running = running.slice();
         this.runningChanged.emit(running);
@@ -107,29 +111,29 @@ class SessionManager implements Session.IManager {
    * This will emit [[runningChanged]] if the running kernels list
    * changes.
    */
-  startNew(options: Session.IOptions): Promise<ISession> {
-    return Session.startNew(this._getOptions(options));
+  startNew(options: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<ISession> {
+    return Session.startNew(this._getOptions(options), cancelToken);
   }
 
   /**
    * Find a session by id.
    */
-  findById(id: string, options?: Session.IOptions): Promise<Session.IModel> {
-    return Session.findById(id, this._getOptions(options));
+  findById(id: string, options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Session.IModel> {
+    return Session.findById(id, this._getOptions(options), cancelToken);
   }
 
   /**
    * Find a session by path.
    */
-  findByPath(path: string, options?: Session.IOptions): Promise<Session.IModel> {
-    return Session.findByPath(path, this._getOptions(options));
+  findByPath(path: string, options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<Session.IModel> {
+    return Session.findByPath(path, this._getOptions(options), cancelToken);
   }
 
   /*
    * Connect to a running session.  See also [[connectToSession]].
    */
-  connectTo(id: string, options?: Session.IOptions): Promise<ISession> {
-    return Session.connectTo(id, this._getOptions(options));
+  connectTo(id: string, options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<ISession> {
+    return Session.connectTo(id, this._getOptions(options), cancelToken);
   }
 
   /**
@@ -139,8 +143,8 @@ class SessionManager implements Session.IManager {
    * This will emit [[runningChanged]] if the running kernels list
    * changes.
    */
-  shutdown(id: string, options?: Session.IOptions): Promise<void> {
-    return Session.shutdown(id, this._getOptions(options));
+  shutdown(id: string, options?: Session.IOptions, cancelToken?: utils.CancellationToken): Promise<void> {
+    return Session.shutdown(id, this._getOptions(options), cancelToken);
   }
 
   /**
@@ -148,7 +152,7 @@ class SessionManager implements Session.IManager {
    */
   private _getOptions(options: Session.IOptions): Session.IOptions {
     if (options) {
-      options = utils.extend(utils.copy(this._options), options);
+      options = utils.extend(utils.copyOptions(this._options), options);
     } else {
       options = this._options;
     }
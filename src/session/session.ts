@@ -18,7 +18,7 @@ import {
 } from '../kernel';
 
 import {
-  IAjaxSettings
+  CancellationToken, IAjaxSettings
 } from '../utils';
 
 import {
@@ -46,6 +46,11 @@ interface ISession extends IDisposable {
    */
   statusChanged: ISignal<ISession, Kernel.Status>;
 
+  /**
+   * A signal emitted when the kernel connection status changes.
+   */
+  connectionStatusChanged: ISignal<ISession, Kernel.ConnectionStatus>;
+
   /**
    * A signal emitted when the session path changes.
    */
@@ -103,6 +108,15 @@ interface ISession extends IDisposable {
    */
   status: Kernel.Status;
 
+  /**
+   * The current connection status of the session.
+   *
+   * #### Notes
+   * This is a read-only property, and is a delegate to the kernel
+   * connection status.
+   */
+  connectionStatus: Kernel.ConnectionStatus;
+
   /**
    * Optional default settings for ajax requests, if applicable.
    */
@@ -157,8 +171,8 @@ namespace Session {
    * The promise is fulfilled on a valid response and rejected otherwise.
    */
   export
-  function listRunning(options?: Session.IOptions): Promise<Session.IModel[]> {
-    return DefaultSession.listRunning(options);
+  function listRunning(options?: Session.IOptions, cancelToken?: CancellationToken): Promise<Session.IModel[]> {
+    return DefaultSession.listRunning(options, cancelToken);
   }
 
   /**
@@ -178,8 +192,8 @@ namespace Session {
    * rejected.
    */
   export
-  function startNew(options: Session.IOptions): Promise<ISession> {
-    return DefaultSession.startNew(options);
+  function startNew(options: Session.IOptions, cancelToken?: CancellationToken): Promise<ISession> {
+    return DefaultSession.startNew(options, cancelToken);
   }
 
   /**
@@ -195,8 +209,8 @@ namespace Session {
    * otherwise the promise is rejected.
    */
   export
-  function findById(id: string, options?: Session.IOptions): Promise<Session.IModel> {
-    return DefaultSession.findById(id, options);
+  function findById(id: string, options?: Session.IOptions, cancelToken?: CancellationToken): Promise<Session.IModel> {
+    return DefaultSession.findById(id, options, cancelToken);
   }
 
   /**
@@ -215,8 +229,8 @@ namespace Session {
    * the promise is rejected.
    */
   export
-  function findByPath(path: string, options?: Session.IOptions): Promise<Session.IModel> {
-    return DefaultSession.findByPath(path, options);
+  function findByPath(path: string, options?: Session.IOptions, cancelToken?: CancellationToken): Promise<Session.IModel> {
+    return DefaultSession.findByPath(path, options, cancelToken);
   }
 
   /**
@@ -235,23 +249,23 @@ namespace Session {
    * the promise is rejected.
    */
   export
-  function connectTo(id: string, options?: Session.IOptions): Promise<ISession> {
-    return DefaultSession.connectTo(id, options);
+  function connectTo(id: string, options?: Session.IOptions, cancelToken?: CancellationToken): Promise<ISession> {
+    return DefaultSession.connectTo(id, options, cancelToken);
   }
 
   /**
    * Shut down a session by id.
    */
   export
-  function shutdown(id: string, options: Session.IOptions = {}): Promise<void> {
-    return DefaultSession.shutdown(id, options);
+  function shutdown(id: string, options: Session.IOptions = {}, cancelToken?: CancellationToken): Promise<void> {
+    return DefaultSession.shutdown(id, options, cancelToken);
   }
 
   /**
    * The session initialization options.
    */
   export
-  interface IOptions extends JSONObject {
+  interface IOptions {
     /**
      * The path (not including name) to the session.
      */
@@ -291,6 +305,12 @@ namespace Session {
      * The default ajax settings to use for the session.
      */
     ajaxSettings?: IAjaxSettings;
+
+    /**
+     * The factory used to create the kernel websocket.
+     * Defaults to the global `WebSocket` constructor.
+     */
+    socketFactory?: (url: string) => WebSocket;
   }
 
   /**
@@ -315,7 +335,7 @@ namespace Session {
      * This will emit a [[specsChange]] signal if the value
      * has changed since the last fetch.
      */
-    getSpecs(options?: IOptions): Promise<Kernel.ISpecModels>;
+    getSpecs(options?: IOptions, cancelToken?: CancellationToken): Promise<Kernel.ISpecModels>;
 
     /*
      * Get the running sessions.
@@ -324,32 +344,32 @@ namespace Session {
      * This will emit a [[runningChanged]] signal if the value
      * has changed since the last fetch.
      */
-    listRunning(options?: IOptions): Promise<IModel[]>;
+    listRunning(options?: IOptions, cancelToken?: CancellationToken): Promise<IModel[]>;
 
     /**
      * Start a new session.
      */
-    startNew(options: IOptions): Promise<ISession>;
+    startNew(options: IOptions, cancelToken?: CancellationToken): Promise<ISession>;
 
     /**
      * Find a session by id.
      */
-    findById(id: string, options?: IOptions): Promise<IModel>;
+    findById(id: string, options?: IOptions, cancelToken?: CancellationToken): Promise<IModel>;
 
     /**
      * Find a session by path.
      */
-    findByPath(path: string, options?: IOptions): Promise<IModel>;
+    findByPath(path: string, options?: IOptions, cancelToken?: CancellationToken): Promise<IModel>;
 
     /**
      * Connect to a running session.
      */
-    connectTo(id: string, options?: IOptions): Promise<ISession>;
+    connectTo(id: string, options?: IOptions, cancelToken?: CancellationToken): Promise<ISession>;
 
     /**
      * Shut down a session by id.
      */
-    shutdown(id: string, options?: IOptions): Promise<void>;
+    shutdown(id: string, options?: IOptions, cancelToken?: CancellationToken): Promise<void>;
   }
 
   /**
@@ -1,6 +1,10 @@
 // Copyright (c) Jupyter Development Team.
 // Distributed under the terms of the Modified BSD License.
 
+import {
+  ValidationError
+} from '../errors';
+
 import {
   validateModel as validateKernelModel
 } from '../kernel/validate';
@@ -16,7 +20,7 @@ import {
  */
 function validateProperty(object: any, name: string, typeName?: string): void {
   if (!object.hasOwnProperty(name)) {
-    throw Error(`Missing property '${name}'`);
+    throw new ValidationError(`Missing property '${name}'`);
   }
   if (typeName !== void 0) {
     let valid = true;
@@ -32,7 +36,7 @@ function validateProperty(object: any, name: string, typeName?: string): void {
       valid = typeof value === typeName;
     }
     if (!valid) {
-      throw new Error(`Property '${name}' is not of type '${typeName}`);
+      throw new ValidationError(`Property '${name}' is not of type '${typeName}`);
     }
   }
 }
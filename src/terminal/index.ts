@@ -50,6 +50,8 @@ interface ITerminalSession extends IDisposable {
    *
    * #### Notes
    * This is a read-only property.
+   *
+   * The url does not include the authentication token.
    */
   url: string;
 
@@ -76,20 +78,23 @@ namespace TerminalSession {
    * #### Notes
    * If the session is already running on the client, the existing
    * instance will be returned.
+   *
+   * The cancellation token only applies to the request which starts
+   * the session.
    */
   export
-  function open(options: TerminalSession.IOptions = {}): Promise<ITerminalSession> {
+  function open(options: TerminalSession.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<ITerminalSession> {
     if (options.name && options.name in Private.running) {
       return Private.running[options.name];
     }
-    return new DefaultTerminalSession(options).connect();
+    return new DefaultTerminalSession(options).connect(cancelToken);
   }
 
   /**
    * The options for intializing a terminal session object.
    */
   export
-  interface IOptions extends JSONObject {
+  interface IOptions {
     /**
      * The name of the terminal.
      */
@@ -109,6 +114,12 @@ namespace TerminalSession {
      * The Ajax settings used for server requests.
      */
     ajaxSettings?: utils.IAjaxSettings;
+
+    /**
+     * The factory used to create the terminal websocket.
+     * Defaults to the global `WebSocket` constructor.
+     */
+    socketFactory?: (url: string) => WebSocket;
   }
 
   /**
@@ -161,7 +172,7 @@ namespace TerminalSession {
      * This will emit [[runningChanged]] if the running terminals list
      * changes.
      */
-    create(options?: TerminalSession.IOptions): Promise<ITerminalSession>;
+    create(options?: TerminalSession.IOptions, cancelToken?: utils.CancellationToken): Promise<ITerminalSession>;
 
     /**
      * Shut down a terminal session by name.
@@ -170,12 +181,12 @@ namespace TerminalSession {
      * This will emit [[runningChanged]] if the running terminals list
      * changes.
      */
-    shutdown(name: string): Promise<void>;
+    shutdown(name: string, cancelToken?: utils.CancellationToken): Promise<void>;
 
     /**
      * Get the list of models for the terminals running on the server.
      */
-    listRunning(): Promise<IModel[]>;
+    listRunning(cancelToken?: utils.CancellationToken): Promise<IModel[]>;
   }
 }
 
@@ -192,6 +203,7 @@ class TerminalManager implements TerminalSession.IManager {
     this._baseUrl = options.baseUrl || utils.getBaseUrl();
     this._wsUrl = options.wsUrl || utils.getWsUrl(this._baseUrl);
     this._ajaxSettings = utils.copy(options.ajaxSettings || {});
+    this._socketFactory = options.socketFactory || utils.createWebSocket;
   }
 
   /**
@@ -223,25 +235,38 @@ class TerminalManager implements TerminalSession.IManager {
 
   /**
    * Create a new terminal session or connect to an existing session.
+   *
+   * @param options - The options used to create the session.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
+   *
+   * #### Notes
+   * The token only applies to the request which starts the session.
    */
-  create(options: TerminalSession.IOptions = {}): Promise<ITerminalSession> {
+  create(options: TerminalSession.IOptions = {}, cancelToken?: utils.CancellationToken): Promise<ITerminalSession> {
+    options = utils.copyOptions(options);
     options.baseUrl = options.baseUrl || this._baseUrl;
     options.wsUrl = options.wsUrl || this._wsUrl;
     options.ajaxSettings = (
       options.ajaxSettings || utils.copy(this._ajaxSettings)
     );
-    return TerminalSession.open(options);
+    options.socketFactory = options.socketFactory || this._socketFactory;
+    return TerminalSession.open(options, cancelToken);
   }
 
   /**
    * Shut down a terminal session by name.
+   *
+   * @param name - The name of the terminal session.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
    */
-  shutdown(name: string): Promise<void> {
+  shutdown(name: string, cancelToken?: utils.CancellationToken): Promise<void> {
     let url = utils.urlPathJoin(this._baseUrl, TERMINAL_SERVICE_URL, name);
     let ajaxSettings: IAjaxSettings = utils.copy(this._ajaxSettings || {});
     ajaxSettings.method = 'DELETE';
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 204) {
         return utils.makeAjaxError(success);
       }
@@ -250,14 +275,16 @@ class TerminalManager implements TerminalSession.IManager {
 
   /**
    * Get the list of models for the terminals running on the server.
+   *
+   * @param cancelToken - The optional token used to cancel the request.
    */
-  listRunning(): Promise<TerminalSession.IModel[]> {
+  listRunning(cancelToken?: utils.CancellationToken): Promise<TerminalSession.IModel[]> {
     let url = utils.urlPathJoin(this._baseUrl, TERMINAL_SERVICE_URL);
     let ajaxSettings: IAjaxSettings = utils.copy(this._ajaxSettings || {});
     ajaxSettings.method = 'GET';
     ajaxSettings.dataType = 'json';
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
@@ -276,6 +303,7 @@ class TerminalManager implements TerminalSession.IManager {
   private _baseUrl = '';
   private _wsUrl = '';
   private _ajaxSettings: utils.IAjaxSettings = null;
+  private _socketFactory: (url: string) => WebSocket = null;
   private _running: TerminalSession.IModel[] = [];
   private _isDisposed = false;
 }
@@ -306,6 +334,12 @@ namespace TerminalManager {
      * The Ajax settings used for server requests.
      */
     ajaxSettings?: utils.IAjaxSettings;
+
+    /**
+     * The factory used to create terminal websockets.
+     * Defaults to the global `WebSocket` constructor.
+     */
+    socketFactory?: (url: string) => WebSocket;
   }
 }
 
@@ -322,6 +356,7 @@ class DefaultTerminalSession implements ITerminalSession {
     this._ajaxSettings = options.ajaxSettings || {};
     this._name = options.name;
     this._wsUrl = options.wsUrl || utils.getWsUrl(this._baseUrl);
+    this._socketFactory = options.socketFactory || utils.createWebSocket;
     this._promise = new utils.PromiseDelegate<ITerminalSession>();
   }
 
@@ -404,12 +439,15 @@ class DefaultTerminalSession implements ITerminalSession {
 
   /**
    * Connect to the terminal session.
+   *
+   * @param cancelToken - The optional token used to cancel the request
+   *   for a new terminal name.
    */
-  connect(): Promise<ITerminalSession> {
+  connect(cancelToken?: utils.CancellationToken): Promise<ITerminalSession> {
     if (this._name) {
       return this._initializeSocket();
     }
-    return this._getName().then(name => {
+    return this._getName(cancelToken).then(name => {
       this._name = name;
       return this._initializeSocket();
     });
@@ -418,13 +456,13 @@ class DefaultTerminalSession implements ITerminalSession {
   /**
    * Get a name for the terminal from the server.
    */
-  private _getName(): Promise<string> {
+  private _getName(cancelToken?: utils.CancellationToken): Promise<string> {
     let url = utils.urlPathJoin(this._baseUrl, TERMINAL_SERVICE_URL);
-    let ajaxSettings: IAjaxSettings = utils.copy(this._ajaxSettings);
+    let ajaxSettings: IAjaxSettings = utils.copyOptions(this._ajaxSettings);
     ajaxSettings.method = 'POST';
     ajaxSettings.dataType = 'json';
 
-    return utils.ajaxRequest(url, ajaxSettings).then(success => {
+    return utils.ajaxRequest(url, ajaxSettings, { cancelToken }).then(success => {
       if (success.xhr.status !== 200) {
         return utils.makeAjaxError(success);
       }
@@ -439,7 +477,8 @@ class DefaultTerminalSession implements ITerminalSession {
     let name = this._name;
     Private.running[name] = this._promise.promise;
     this._url = `${this._wsUrl}terminals/websocket/${name}`;
-    this._ws = new WebSocket(this._url);
+    let token = utils.getToken(this._ajaxSettings);
+    this._ws = this._socketFactory(utils.addTokenParam(this._url, token));
 
     this._ws.onmessage = (event: MessageEvent) => {
       let data = JSON.parse(event.data);
@@ -461,6 +500,7 @@ class DefaultTerminalSession implements ITerminalSession {
   private _wsUrl: string;
   private _url: string;
   private _ajaxSettings: utils.IAjaxSettings = null;
+  private _socketFactory: (url: string) => WebSocket = null;
   private _ws: WebSocket = null;
   private _isDisposed = false;
   private _promise: utils.PromiseDelegate<ITerminalSession> = null;
@@ -6,6 +6,18 @@ import {
   JSONObject
 } from 'phosphor/lib/algorithm/json';
 
+import {
+  DisposableDelegate, IDisposable
+} from 'phosphor/lib/core/disposable';
+
+import {
+  ISignal, clearSignalData, defineSignal
+} from 'phosphor/lib/core/signaling';
+
+import {
+  CancellationError, ResponseError, ServerConnectionError, ValidationError
+} from './errors';
+
 import * as minimist
   from 'minimist';
 
@@ -44,6 +56,34 @@ function copy(object: JSONObject): JSONObject {
 }
 
 
+/**
+ * Get a deep copy of an options object.
+ *
+ * #### Notes
+ * Unlike [[copy]], function values and class instances are preserved
+ * by reference rather than dropped or flattened.
+ */
+export
+function copyOptions<T>(options: T): T {
+  let source: any = options || {};
+  let result: any = {};
+  for (let key in source) {
+    let value = source[key];
+    if (value === void 0 || typeof value === 'function') {
+      result[key] = value;
+    } else if (value && typeof value === 'object' &&
+               Object.getPrototypeOf(value) === Object.prototype) {
+      result[key] = copyOptions(value);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      result[key] = value;
+    } else {
+      result[key] = JSON.parse(JSON.stringify(value));
+    }
+  }
+  return result;
+}
+
+
 /**
  * Get a random 32 character hex string (not a formal UUID)
  */
@@ -59,6 +99,195 @@ function uuid(): string {
 }
 
 
+/**
+ * Binary data which can be read by [[readBytes]].
+ */
+export
+type BinaryData = Blob | ArrayBuffer | ArrayBufferView;
+
+
+/**
+ * Get the size of binary data in bytes.
+ */
+export
+function getByteLength(data: BinaryData): number {
+  let size = (data as Blob).size;
+  if (size !== void 0) {
+    return size;
+  }
+  return (data as ArrayBuffer).byteLength;
+}
+
+
+/**
+ * Read a range of bytes from binary data.
+ *
+ * @param data - The binary data to read.
+ *
+ * @param start - The offset of the first byte to read.
+ *
+ * @param end - The offset after the last byte to read.  Defaults to the
+ *   end of the data.
+ *
+ * @returns A promise which resolves with the bytes.
+ *
+ * #### Notes
+ * The bytes of a buffer are not copied.  A `Blob` is read using a
+ * `FileReader`.
+ */
+export
+function readBytes(data: BinaryData, start = 0, end?: number): Promise<Uint8Array> {
+  let length = getByteLength(data);
+  end = end === void 0 ? length : Math.min(end, length);
+  start = Math.min(start, end);
+  if (data instanceof ArrayBuffer) {
+    return Promise.resolve(new Uint8Array(data, start, end - start));
+  }
+  if (ArrayBuffer.isView(data)) {
+    let view = data as ArrayBufferView;
+    let offset = view.byteOffset + start;
+    return Promise.resolve(new Uint8Array(view.buffer, offset, end - start));
+  }
+  return new Promise<Uint8Array>((resolve, reject) => {
+    let reader = new FileReader();
+    reader.onload = () => {
+      resolve(new Uint8Array(reader.result));
+    };
+    reader.onerror = () => {
+      reject(reader.error);
+    };
+    reader.readAsArrayBuffer((data as Blob).slice(start, end));
+  });
+}
+
+
+/**
+ * Encode bytes as a base64 string.
+ */
+export
+function encodeBytes(bytes: Uint8Array): string {
+  if (typeof btoa === 'undefined') {
+    return new Buffer(bytes).toString('base64');
+  }
+  // Build the binary string in blocks to limit the number of arguments.
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    let block = bytes.subarray(i, i + 0x8000);
+    binary += String.fromCharCode.apply(null, block);
+  }
+  return btoa(binary);
+}
+
+
+/**
+ * Decode a base64 string as bytes.
+ */
+export
+function decodeBytes(value: string): Uint8Array {
+  if (typeof atob === 'undefined') {
+    return new Uint8Array(new Buffer(value, 'base64'));
+  }
+  let binary = atob(value);
+  let bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+
+/**
+ * Encode a string as UTF-8 bytes.
+ */
+export
+function encodeUtf8(value: string): Uint8Array {
+  let bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i);
+    // Combine a surrogate pair into a single code point.
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < value.length) {
+      let next = value.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f),
+                 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f),
+                 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+
+/**
+ * Decode UTF-8 bytes as a string.
+ *
+ * #### Notes
+ * Throws an error if the bytes are not valid UTF-8.
+ */
+export
+function decodeUtf8(bytes: Uint8Array): string {
+  let codes: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    let byte = bytes[i++];
+    let count = 0;
+    let code = byte;
+    let min = 0;
+    if (byte >= 0xf0 && byte < 0xf8) {
+      count = 3;
+      code = byte & 0x07;
+      min = 0x10000;
+    } else if (byte >= 0xe0) {
+      count = 2;
+      code = byte & 0x0f;
+      min = 0x800;
+    } else if (byte >= 0xc0) {
+      count = 1;
+      code = byte & 0x1f;
+      min = 0x80;
+    } else if (byte >= 0x80) {
+      throw new Error('Invalid UTF-8 data');
+    }
+    if (byte >= 0xf8 || i + count > bytes.length) {
+      throw new Error('Invalid UTF-8 data');
+    }
+    for (let j = 0; j < count; j++) {
+      let next = bytes[i++];
+      if ((next & 0xc0) !== 0x80) {
+        throw new Error('Invalid UTF-8 data');
+      }
+      code = (code << 6) | (next & 0x3f);
+    }
+    if (code < min || code > 0x10ffff || (code >= 0xd800 && code < 0xe000)) {
+      throw new Error('Invalid UTF-8 data');
+    }
+    // Split a code point outside the basic plane into a surrogate pair.
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      codes.push(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else {
+      codes.push(code);
+    }
+  }
+  let result = '';
+  for (let start = 0; start < codes.length; start += 0x8000) {
+    let block = codes.slice(start, start + 0x8000);
+    result += String.fromCharCode.apply(null, block);
+  }
+  return result;
+}
+
+
 /**
  * An object describing a url.
  */
@@ -273,6 +502,214 @@ interface IAjaxSettings extends JSONObject {
    * The password associated with the request.  Defaults to `''`.
    */
   password?: string;
+
+  /**
+   * The name of the registered [[IRequestTransport]] used to send the
+   * request, e.g. `'xhr'` or `'fetch'`.
+   *
+   * #### Notes
+   * Defaults to `'xhr'` when `XMLHttpRequest` is available, and to
+   * `'fetch'` otherwise.
+   */
+  transport?: string;
+
+  /**
+   * The name of the interceptor group applied to the request.
+   * See [[registerInterceptor]].
+   */
+  interceptors?: string;
+
+  /**
+   * Whether to follow redirect responses.  Defaults to `true`.
+   *
+   * #### Notes
+   * Redirects are always followed by the `'xhr'` transport.
+   */
+  followRedirects?: boolean;
+
+  /**
+   * The token used to authenticate with the server.
+   *
+   * #### Notes
+   * Defaults to the `token` config option.  The token is sent in an
+   * `Authorization` header unless one is given in the [[requestHeaders]].
+   */
+  token?: string;
+
+  /**
+   * The policy used to retry failed requests.
+   *
+   * #### Notes
+   * Failed requests are not retried if no policy is given.
+   */
+  retryPolicy?: IRetryPolicy;
+
+  /**
+   * Whether to share the response of identical concurrent `GET` requests.
+   * Defaults to `true`.
+   *
+   * #### Notes
+   * Requests with a cancellation token or a progress callback in their
+   * [[IRequestOptions]] are not shared, so that each request reports
+   * its own state.
+   */
+  coalesce?: boolean;
+
+  /**
+   * The maximum number of concurrent requests to the server of the
+   * request.  Defaults to `0`, which does not limit the requests.
+   *
+   * #### Notes
+   * A request waits until fewer than this number of requests to its
+   * server are in flight.
+   */
+  maxConcurrentRequests?: number;
+}
+
+
+/**
+ * The options of a request which are not part of its settings.
+ *
+ * #### Notes
+ * These options are not serializable, so they are given apart from the
+ * [[IAjaxSettings]], which are copied as JSON.
+ */
+export
+interface IRequestOptions {
+  /**
+   * The token used to cancel the request.
+   *
+   * #### Notes
+   * A cancelled request is rejected with a [[CancellationError]].
+   */
+  cancelToken?: CancellationToken;
+
+  /**
+   * A function called with an [[IAjaxProgress]] as the request body is
+   * sent and the response body is received.
+   *
+   * #### Notes
+   * The `'fetch'` transport cannot report the progress of the request
+   * body, so it reports a single upload event when the response is
+   * received.  The download progress is reported as the response body
+   * is read when the response exposes a readable stream, and once the
+   * body is received otherwise.
+   */
+  onProgress?: (progress: IAjaxProgress) => void;
+}
+
+
+/**
+ * The progress of a request sent by [[ajaxRequest]].
+ */
+export
+interface IAjaxProgress extends JSONObject {
+  /**
+   * The direction of the transfer, either `'upload'` or `'download'`.
+   */
+  direction: string;
+
+  /**
+   * The number of bytes transferred.
+   */
+  loaded: number;
+
+  /**
+   * The total number of bytes to transfer, or `0` if it is not known.
+   */
+  total: number;
+
+  /**
+   * Whether the total number of bytes is known.
+   */
+  lengthComputable: boolean;
+}
+
+
+/**
+ * Metrics for the requests sent by [[ajaxRequest]].
+ */
+export
+interface IRequestMetrics extends JSONObject {
+  /**
+   * The number of requests sent by a transport.
+   */
+  sent: number;
+
+  /**
+   * The number of requests which shared the response of an identical
+   * request already in flight.
+   */
+  coalesced: number;
+
+  /**
+   * The number of requests which waited for a free request slot.
+   */
+  queued: number;
+
+  /**
+   * The number of requests currently in flight.
+   */
+  active: number;
+}
+
+
+/**
+ * The policy used to retry failed requests.
+ *
+ * #### Notes
+ * The delay before retry `n` (starting at zero) is
+ * `min(baseDelay * 2^n, maxDelay)`, reduced by a random fraction of
+ * up to `jitter` of its value.  A `Retry-After` header in the response
+ * is used as the delay instead, up to `maxDelay`.
+ *
+ * Only the idempotent methods are retried by default, so requests which
+ * create content on the server are not repeated unless their method is
+ * given in `methods`.
+ */
+export
+interface IRetryPolicy extends JSONObject {
+  /**
+   * The maximum number of attempts, including the first request.
+   * Defaults to `3`.
+   */
+  maxAttempts?: number;
+
+  /**
+   * The delay in milliseconds before the first retry.
+   * Defaults to `500`.
+   */
+  baseDelay?: number;
+
+  /**
+   * The maximum delay in milliseconds between retries.
+   * Defaults to `8000`.
+   */
+  maxDelay?: number;
+
+  /**
+   * The random fraction (from `0` to `1`) by which each delay may be
+   * reduced.  Defaults to `0`.
+   */
+  jitter?: number;
+
+  /**
+   * The request methods which may be retried.  Defaults to
+   * `['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']`.
+   */
+  methods?: string[];
+
+  /**
+   * The response status codes which may be retried.  Defaults to
+   * `[408, 429, 502, 503, 504]`.
+   */
+  statusCodes?: number[];
+
+  /**
+   * Whether to retry requests which did not reach the server.
+   * Defaults to `true`.
+   */
+  retryConnectionErrors?: boolean;
 }
 
 
@@ -305,6 +742,10 @@ interface IAjaxSuccess {
 
 /**
  * Data for an unsuccesful AJAX request.
+ *
+ * #### Notes
+ * Requests are rejected with a [[ResponseError]] when the server
+ * responds with an error, and a [[ServerConnectionError]] otherwise.
  */
 export
 interface IAjaxError {
@@ -331,39 +772,947 @@ interface IAjaxError {
 
 
 /**
- * Asynchronous XMLHTTPRequest handler.
+ * An object which sends ajax requests to a server.
+ */
+export
+interface IRequestTransport {
+  /**
+   * Send a request.
+   *
+   * @param url - The url to request, including any query string.
+   *
+   * @param ajaxSettings - The settings to apply to the request.
+   *
+   * @param options - The options of the request.
+   *
+   * @returns A promise that resolves with the successful response, or
+   *   rejects with an [[IAjaxError]].
+   *
+   * #### Notes
+   * Transports which do not use an `XMLHttpRequest` provide an object
+   * with the `status`, `statusText`, `response`, `responseText` and
+   * `getResponseHeader` members of a completed request as the `xhr`.
+   */
+  send(url: string, ajaxSettings: IAjaxSettings, options?: IRequestOptions): Promise<IAjaxSuccess>;
+}
+
+
+/**
+ * An outgoing ajax request.
+ */
+export
+interface IAjaxRequest {
+  /**
+   * The url to request.
+   */
+  url: string;
+
+  /**
+   * The settings to apply to the request.
+   */
+  ajaxSettings: IAjaxSettings;
+}
+
+
+/**
+ * An object which intercepts ajax requests.
+ *
+ * #### Notes
+ * The hooks of the interceptors in a group are called in the order in
+ * which the interceptors were registered.
+ */
+export
+interface IAjaxInterceptor {
+  /**
+   * Handle a request before it is sent.
+   *
+   * @param request - The outgoing request.
+   *
+   * @returns The request to send, or a promise which resolves with it.
+   *
+   * #### Notes
+   * The request may be modified in place and returned.
+   */
+  beforeRequest?(request: IAjaxRequest): IAjaxRequest | Promise<IAjaxRequest>;
+
+  /**
+   * Handle a successful response.
+   *
+   * @param success - The response to the request.
+   *
+   * @returns The response to pass on, or a promise which resolves with it.
+   */
+  afterResponse?(success: IAjaxSuccess): IAjaxSuccess | Promise<IAjaxSuccess>;
+
+  /**
+   * Handle a failed request.
+   *
+   * @param error - The error for the request.
+   *
+   * @param retry - A function which sends the request again, starting
+   *   with the [[beforeRequest]] hooks.
+   *
+   * @returns A promise which resolves with a response to recover from
+   *   the error, or `undefined` to pass the error on to the next
+   *   interceptor.
+   */
+  onError?(error: IAjaxError, retry: () => Promise<IAjaxSuccess>): Promise<IAjaxSuccess>;
+}
+
+
+/**
+ * Asynchronous ajax request handler.
  *
  * @param url - The url to request.
  *
  * @param settings - The settings to apply to the request and response.
  *
+ * @param options - The options of the request, such as the token used
+ *   to cancel it.
+ *
  * #### Notes
- * Based on this [example](http://www.html5rocks.com/en/tutorials/es6/promises/#toc-promisifying-xmlhttprequest).
+ * The request is sent using the transport named by the `transport`
+ * setting.  See [[registerTransport]].
+ *
+ * The request is passed through the interceptor group named by the
+ * `interceptors` setting.  See [[registerInterceptor]].
+ *
+ * Failed requests are retried according to the `retryPolicy` setting.
+ * See [[IRetryPolicy]].
+ *
+ * Identical concurrent `GET` requests share a single response unless
+ * the `coalesce` setting is `false`.  See [[getRequestMetrics]].
  */
 export
-function ajaxRequest(url: string, ajaxSettings: IAjaxSettings): Promise<IAjaxSuccess> {
-  let method = ajaxSettings.method || 'GET';
-  let user = ajaxSettings.user || '';
-  let password = ajaxSettings.password || '';
-  if (!ajaxSettings.cache) {
-    // https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest/Using_XMLHttpRequest#Bypassing_the_cache.
-    url += ((/\?/).test(url) ? '&' : '?') + (new Date()).getTime();
+function ajaxRequest(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions = {}): Promise<IAjaxSuccess> {
+  ajaxSettings = addTokenHeader(ajaxSettings);
+  let interceptors = getInterceptors(ajaxSettings.interceptors);
+  if (!interceptors.length) {
+    return coalesceRequest(url, ajaxSettings, options);
   }
+  let send = (): Promise<IAjaxSuccess> => {
+    return interceptRequest(url, ajaxSettings, options, interceptors);
+  };
+  return send().catch((error: IAjaxError) => {
+    return interceptError(error, send, interceptors);
+  });
+}
 
-  return new Promise((resolve, reject) => {
-    let xhr = new XMLHttpRequest();
-    xhr.open(method, url, true, user, password);
 
-    if (ajaxSettings.contentType !== void 0) {
-      xhr.setRequestHeader('Content-Type', ajaxSettings.contentType);
-    }
-    if (ajaxSettings.timeout !== void 0) {
-      xhr.timeout = ajaxSettings.timeout;
-    }
-    if (!!ajaxSettings.withCredentials) {
-      xhr.withCredentials = true;
+/**
+ * Register an interceptor in an interceptor group.
+ *
+ * @param group - The name used to select the group in the ajax settings.
+ *
+ * @param interceptor - The interceptor to add to the group.
+ *
+ * @returns A disposable which removes the interceptor from the group.
+ */
+export
+function registerInterceptor(group: string, interceptor: IAjaxInterceptor): IDisposable {
+  if (!(group in interceptorGroups)) {
+    interceptorGroups[group] = [];
+  }
+  interceptorGroups[group].push(interceptor);
+  return new DisposableDelegate(() => {
+    let interceptors = interceptorGroups[group];
+    let index = interceptors ? interceptors.indexOf(interceptor) : -1;
+    if (index !== -1) {
+      interceptors.splice(index, 1);
     }
-    if (ajaxSettings.requestHeaders !== void 0) {
+  });
+}
+
+
+/**
+ * Get the interceptors registered in a group.
+ *
+ * @param group - The name of the group.
+ *
+ * @returns A new array of the interceptors in the group.
+ */
+export
+function getInterceptors(group: string): IAjaxInterceptor[] {
+  return (group && interceptorGroups[group] || []).slice();
+}
+
+
+/**
+ * Get the authentication token for a set of ajax settings.
+ *
+ * @param ajaxSettings - The settings which may hold the token.
+ *
+ * @returns The token given in the settings, or the `token` config
+ *   option if the settings do not give one.
+ */
+export
+function getToken(ajaxSettings?: IAjaxSettings): string {
+  let token = ajaxSettings ? ajaxSettings.token : void 0;
+  if (token === void 0) {
+    token = getConfigOption('token');
+  }
+  return token || '';
+}
+
+
+/**
+ * Add an authentication token to a websocket url.
+ *
+ * @param url - The websocket url.
+ *
+ * @param token - The token to add.  If empty, the url is unchanged.
+ *
+ * @returns The url with a `token` query parameter.
+ */
+export
+function addTokenParam(url: string, token: string): string {
+  if (!token) {
+    return url;
+  }
+  let sep = (/\?/).test(url) ? '&' : '?';
+  return `${url}${sep}token=${encodeURIComponent(token)}`;
+}
+
+
+/**
+ * Get ajax settings with an `Authorization` header for the token.
+ */
+function addTokenHeader(ajaxSettings: IAjaxSettings): IAjaxSettings {
+  let token = getToken(ajaxSettings);
+  if (!token) {
+    return ajaxSettings;
+  }
+  return addHeaders(ajaxSettings, { 'Authorization': `token ${token}` });
+}
+
+
+/**
+ * Get ajax settings with the `X-XSRFToken` and `Cookie` headers for a url.
+ *
+ * #### Notes
+ * The `Cookie` header is only added outside of browsers, which manage
+ * cookies natively.
+ */
+function addCookieHeaders(url: string, ajaxSettings: IAjaxSettings): IAjaxSettings {
+  let headers: { [key: string]: string; } = {};
+  let method = (ajaxSettings.method || 'GET').toUpperCase();
+  let xsrf = getXsrfToken(url);
+  if (xsrf && SAFE_METHODS.indexOf(method) === -1) {
+    headers['X-XSRFToken'] = xsrf;
+  }
+  if (typeof document === 'undefined') {
+    let cookie = cookieJar.getCookieHeader(url);
+    if (cookie) {
+      headers['Cookie'] = cookie;
+    }
+  }
+  return addHeaders(ajaxSettings, headers);
+}
+
+
+/**
+ * Store the cookies set by a response outside of browsers.
+ */
+function storeCookies(url: string, xhr: XMLHttpRequest): void {
+  if (typeof document !== 'undefined' || !xhr || !(xhr.status > 0)) {
+    return;
+  }
+  if (typeof xhr.getResponseHeader !== 'function') {
+    return;
+  }
+  let header = xhr.getResponseHeader('Set-Cookie');
+  if (header) {
+    cookieJar.update(url, header);
+  }
+}
+
+
+/**
+ * Get the XSRF token for a url from the `_xsrf` cookie.
+ */
+function getXsrfToken(url: string): string {
+  if (typeof document === 'undefined') {
+    return cookieJar.get(url, '_xsrf');
+  }
+  let match = document.cookie.match(/\b_xsrf=([^;]*)\b/);
+  return match ? match[1] : void 0;
+}
+
+
+/**
+ * Get ajax settings with request headers which are not already present.
+ *
+ * #### Notes
+ * Header names are compared case-insensitively.  The given settings
+ * are not modified.
+ */
+function addHeaders(ajaxSettings: IAjaxSettings, headers: { [key: string]: string; }): IAjaxSettings {
+  let current = ajaxSettings.requestHeaders || {};
+  let names = Object.keys(current).map(key => key.toLowerCase());
+  let added = Object.keys(headers).filter(key => {
+    return names.indexOf(key.toLowerCase()) === -1;
+  });
+  if (!added.length) {
+    return ajaxSettings;
+  }
+  let settings: IAjaxSettings = {};
+  for (let key in ajaxSettings) {
+    settings[key] = ajaxSettings[key];
+  }
+  settings.requestHeaders = {};
+  for (let key of added) {
+    settings.requestHeaders[key] = headers[key];
+  }
+  for (let key in current) {
+    settings.requestHeaders[key] = current[key];
+  }
+  return settings;
+}
+
+
+/**
+ * Send a request through the `beforeRequest` and `afterResponse` hooks
+ * of the given interceptors.
+ */
+function interceptRequest(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions, interceptors: IAjaxInterceptor[]): Promise<IAjaxSuccess> {
+  let request = Promise.resolve({ url, ajaxSettings });
+  interceptors.forEach(interceptor => {
+    if (interceptor.beforeRequest) {
+      request = request.then(value => interceptor.beforeRequest(value));
+    }
+  });
+  let response = request.then(value => {
+    return coalesceRequest(value.url, value.ajaxSettings, options);
+  });
+  interceptors.forEach(interceptor => {
+    if (interceptor.afterResponse) {
+      response = response.then(value => interceptor.afterResponse(value));
+    }
+  });
+  return response;
+}
+
+
+/**
+ * Pass a failed request to the `onError` hooks of the given interceptors.
+ */
+function interceptError(error: IAjaxError, retry: () => Promise<IAjaxSuccess>, interceptors: IAjaxInterceptor[]): Promise<IAjaxSuccess> {
+  for (let interceptor of interceptors) {
+    if (!interceptor.onError) {
+      continue;
+    }
+    let recovered = interceptor.onError(error, retry);
+    if (recovered) {
+      return recovered;
+    }
+  }
+  return Promise.reject(error);
+}
+
+
+/**
+ * Get the metrics for the requests sent by [[ajaxRequest]].
+ *
+ * @returns A copy of the current metrics.
+ */
+export
+function getRequestMetrics(): IRequestMetrics {
+  return copy(requestMetrics) as IRequestMetrics;
+}
+
+
+/**
+ * Reset the request counts of the request metrics to zero.
+ *
+ * #### Notes
+ * The number of `active` requests is not affected.
+ */
+export
+function resetRequestMetrics(): void {
+  requestMetrics.sent = 0;
+  requestMetrics.coalesced = 0;
+  requestMetrics.queued = 0;
+}
+
+
+/**
+ * Send a request, sharing the response of an identical `GET` request
+ * which is already in flight.
+ */
+function coalesceRequest(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions): Promise<IAjaxSuccess> {
+  let method = (ajaxSettings.method || 'GET').toUpperCase();
+  if (method !== 'GET' || ajaxSettings.coalesce === false ||
+      options.cancelToken || options.onProgress) {
+    return retryRequest(url, ajaxSettings, options);
+  }
+  let key = JSON.stringify([url, ajaxSettings]);
+  let pending = pendingRequests[key];
+  if (pending) {
+    requestMetrics.coalesced++;
+    return pending.then(success => {
+      return copySuccess(success, ajaxSettings);
+    });
+  }
+  let request = retryRequest(url, ajaxSettings, options);
+  pendingRequests[key] = request;
+  let remove = () => {
+    delete pendingRequests[key];
+  };
+  request.then(remove, remove);
+  return request;
+}
+
+
+/**
+ * Copy the response of a shared request for another request.
+ */
+function copySuccess(success: IAjaxSuccess, ajaxSettings: IAjaxSettings): IAjaxSuccess {
+  let data = success.data;
+  if (data && typeof data === 'object') {
+    data = JSON.parse(JSON.stringify(data));
+  }
+  return { xhr: success.xhr, event: success.event, ajaxSettings, data };
+}
+
+
+/**
+ * Wait for a free request slot on the server of a url.
+ *
+ * @returns A promise which resolves with a function which frees the slot.
+ */
+function acquireSlot(url: string, ajaxSettings: IAjaxSettings): Promise<() => void> {
+  let host = urlParse(url).host || '';
+  if (!(host in serverSlots)) {
+    serverSlots[host] = { active: 0, waiting: [] };
+  }
+  let slots = serverSlots[host];
+  let limit = ajaxSettings.maxConcurrentRequests || 0;
+  let released = false;
+  let release = () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    slots.active--;
+    requestMetrics.active--;
+    if (slots.waiting.length) {
+      slots.waiting.shift()();
+    } else if (!slots.active) {
+      delete serverSlots[host];
+    }
+  };
+  return new Promise<() => void>(resolve => {
+    let start = () => {
+      slots.active++;
+      requestMetrics.active++;
+      resolve(release);
+    };
+    if (limit > 0 && slots.active >= limit) {
+      requestMetrics.queued++;
+      slots.waiting.push(start);
+    } else {
+      start();
+    }
+  });
+}
+
+
+/**
+ * Send a request, retrying it according to the retry policy of the
+ * ajax settings.
+ */
+function retryRequest(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions): Promise<IAjaxSuccess> {
+  if (!ajaxSettings.retryPolicy) {
+    return sendRequest(url, ajaxSettings, options);
+  }
+  let policy = createRetryPolicy(ajaxSettings.retryPolicy);
+  let attempt = (n: number): Promise<IAjaxSuccess> => {
+    return sendRequest(url, ajaxSettings, options).catch((error: IAjaxError) => {
+      if (n + 1 >= policy.maxAttempts || !isRetryable(policy, error)) {
+        return Promise.reject(error);
+      }
+      let delay = getRetryDelay(policy, n, error.xhr);
+      return waitForRetry(delay, ajaxSettings, options).then(() => attempt(n + 1));
+    });
+  };
+  return attempt(0);
+}
+
+
+/**
+ * Create a full retry policy from a partial one.
+ */
+function createRetryPolicy(policy: IRetryPolicy): IRetryPolicy {
+  let result = copy(defaultRetryPolicy) as IRetryPolicy;
+  for (let key in policy) {
+    if (policy[key] !== void 0) {
+      result[key] = policy[key];
+    }
+  }
+  return result;
+}
+
+
+/**
+ * Test whether a failed request may be retried.
+ */
+function isRetryable(policy: IRetryPolicy, error: IAjaxError): boolean {
+  if (error instanceof CancellationError) {
+    return false;
+  }
+  let method = (error.ajaxSettings.method || 'GET').toUpperCase();
+  let methods = policy.methods.map(value => value.toUpperCase());
+  if (methods.indexOf(method) === -1) {
+    return false;
+  }
+  let status = error.xhr ? error.xhr.status : 0;
+  if (status > 0) {
+    return policy.statusCodes.indexOf(status) !== -1;
+  }
+  return policy.retryConnectionErrors;
+}
+
+
+/**
+ * Get the delay in milliseconds before a given retry.
+ */
+function getRetryDelay(policy: IRetryPolicy, attempt: number, xhr: XMLHttpRequest): number {
+  let retryAfter = getRetryAfter(xhr);
+  if (retryAfter !== -1) {
+    return Math.min(retryAfter, policy.maxDelay);
+  }
+  let delay = Math.min(policy.baseDelay * Math.pow(2, attempt), policy.maxDelay);
+  let jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+
+/**
+ * Get the delay in milliseconds given by the `Retry-After` header of a
+ * response, or `-1` if there is no valid header.
+ */
+function getRetryAfter(xhr: XMLHttpRequest): number {
+  if (!xhr || !(xhr.status > 0) || typeof xhr.getResponseHeader !== 'function') {
+    return -1;
+  }
+  let value = xhr.getResponseHeader('Retry-After');
+  if (!value) {
+    return -1;
+  }
+  let seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  let date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(date - Date.now(), 0);
+  }
+  return -1;
+}
+
+
+/**
+ * Wait before retrying a request.
+ *
+ * #### Notes
+ * The promise is rejected with a [[CancellationError]] if the request
+ * is cancelled while waiting.
+ */
+function waitForRetry(delay: number, ajaxSettings: IAjaxSettings, options: IRequestOptions): Promise<void> {
+  let token = options.cancelToken;
+  let wait = new Promise<void>(resolve => {
+    setTimeout(resolve, delay);
+  });
+  if (!token) {
+    return wait;
+  }
+  return new Promise<void>((resolve, reject) => {
+    onCancelled(token, wait, () => {
+      reject(createCancellationError(token, ajaxSettings, null));
+    }).then(resolve);
+  });
+}
+
+
+/**
+ * Send a request using the transport given in the ajax settings.
+ */
+function sendRequest(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions): Promise<IAjaxSuccess> {
+  let token = options.cancelToken;
+  if (token && token.isCancelled) {
+    return Promise.reject(createCancellationError(token, ajaxSettings, null));
+  }
+  let transport = getTransport(ajaxSettings.transport);
+  if (!transport) {
+    let throwError = `Unknown request transport: ${ajaxSettings.transport}`;
+    let error = { xhr: null as XMLHttpRequest, event: null as Event, ajaxSettings, throwError };
+    return Promise.reject(new ServerConnectionError(error));
+  }
+  ajaxSettings = addCookieHeaders(url, ajaxSettings);
+  let cookieUrl = url;
+  if (!ajaxSettings.cache) {
+    // https://developer.mozilla.org/en-US/docs/Web/API/XMLHttpRequest/Using_XMLHttpRequest#Bypassing_the_cache.
+    url += ((/\?/).test(url) ? '&' : '?') + (new Date()).getTime();
+  }
+  let request = acquireSlot(cookieUrl, ajaxSettings).then(release => {
+    if (token && token.isCancelled) {
+      release();
+      return Promise.reject(createCancellationError(token, ajaxSettings, null));
+    }
+    requestMetrics.sent++;
+    let response = new Promise<IAjaxSuccess>(resolve => {
+      resolve(transport.send(url, ajaxSettings, options));
+    });
+    return response.then(success => {
+      release();
+      storeCookies(cookieUrl, success.xhr);
+      return success;
+    }, (error: IAjaxError) => {
+      release();
+      storeCookies(cookieUrl, error.xhr);
+      return Promise.reject(error);
+    });
+  });
+  if (!token) {
+    return request;
+  }
+  return new Promise<IAjaxSuccess>((resolve, reject) => {
+    onCancelled(token, request, () => {
+      reject(createCancellationError(token, ajaxSettings, null));
+    }).then(resolve, reject);
+  });
+}
+
+
+/**
+ * Connect a callback to a cancellation token until a request settles.
+ *
+ * @returns The original request.
+ *
+ * #### Notes
+ * The callback is invoked immediately if the token is already cancelled.
+ */
+function onCancelled<T>(token: CancellationToken, request: Promise<T>, callback: () => void): Promise<T> {
+  if (token.isCancelled) {
+    callback();
+    return request;
+  }
+  token.cancelled.connect(callback);
+  return request.then(success => {
+    token.cancelled.disconnect(callback);
+    return success;
+  }, error => {
+    token.cancelled.disconnect(callback);
+    return Promise.reject(error);
+  });
+}
+
+
+/**
+ * Create the error for a request cancelled by its cancellation token.
+ */
+function createCancellationError(token: CancellationToken, ajaxSettings: IAjaxSettings, xhr: XMLHttpRequest): CancellationError {
+  let throwError = token ? token.reason : '';
+  return new CancellationError({ xhr, event: null, ajaxSettings, throwError });
+}
+
+
+/**
+ * A store of cookies for environments which do not manage cookies.
+ *
+ * #### Notes
+ * Cookies are stored by host, and attributes other than the expiry
+ * are ignored.
+ */
+export
+class CookieJar {
+  /**
+   * Get the value of a cookie.
+   *
+   * @param url - The url the cookie applies to.
+   *
+   * @param name - The name of the cookie.
+   *
+   * @returns The value of the cookie, or `undefined` if not found.
+   */
+  get(url: string, name: string): string {
+    let cookies = this._cookies[this._getHost(url)];
+    return cookies ? cookies[name] : void 0;
+  }
+
+  /**
+   * Set the value of a cookie.
+   *
+   * @param url - The url the cookie applies to.
+   *
+   * @param name - The name of the cookie.
+   *
+   * @param value - The value of the cookie.
+   */
+  set(url: string, name: string, value: string): void {
+    let host = this._getHost(url);
+    if (!(host in this._cookies)) {
+      this._cookies[host] = Object.create(null);
+    }
+    this._cookies[host][name] = value;
+  }
+
+  /**
+   * Remove a cookie.
+   *
+   * @param url - The url the cookie applies to.
+   *
+   * @param name - The name of the cookie.
+   */
+  remove(url: string, name: string): void {
+    let cookies = this._cookies[this._getHost(url)];
+    if (cookies) {
+      delete cookies[name];
+    }
+  }
+
+  /**
+   * Update the jar from the `Set-Cookie` header of a response.
+   *
+   * @param url - The url of the response.
+   *
+   * @param header - The value of the header, which may combine several
+   *   cookies separated by commas.
+   */
+  update(url: string, header: string): void {
+    for (let cookie of header.split(/,\s*(?=[^;,=\s]+=)/)) {
+      let parts = cookie.split(';').map(part => part.trim());
+      let index = parts[0].indexOf('=');
+      if (index === -1) {
+        continue;
+      }
+      let name = parts[0].slice(0, index);
+      let value = parts[0].slice(index + 1);
+      let expired = parts.slice(1).some(part => {
+        let [key, attr] = part.split('=');
+        key = key.toLowerCase();
+        if (key === 'max-age') {
+          return Number(attr) <= 0;
+        }
+        if (key === 'expires') {
+          return Date.parse(attr) <= Date.now();
+        }
+        return false;
+      });
+      if (expired) {
+        this.remove(url, name);
+      } else {
+        this.set(url, name, value);
+      }
+    }
+  }
+
+  /**
+   * Get the value of a `Cookie` request header for a url.
+   *
+   * @param url - The url of the request.
+   *
+   * @returns The cookies for the url, or an empty string if none.
+   */
+  getCookieHeader(url: string): string {
+    let cookies = this._cookies[this._getHost(url)] || {};
+    return Object.keys(cookies).map(name => {
+      return `${name}=${cookies[name]}`;
+    }).join('; ');
+  }
+
+  /**
+   * Remove all of the cookies from the jar.
+   */
+  clear(): void {
+    this._cookies = Object.create(null);
+  }
+
+  /**
+   * Get the host key for a url.
+   */
+  private _getHost(url: string): string {
+    return urlParse(url).host || '';
+  }
+
+  private _cookies: { [key: string]: { [key: string]: string; } } = Object.create(null);
+}
+
+
+/**
+ * The cookie jar used by [[ajaxRequest]] outside of browsers.
+ */
+export
+const cookieJar = new CookieJar();
+
+
+/**
+ * The options used to log in to a server.
+ */
+export
+interface ILoginOptions {
+  /**
+   * The base url of the server.
+   */
+  baseUrl?: string;
+
+  /**
+   * The ajax settings used for the login requests.
+   */
+  ajaxSettings?: IAjaxSettings;
+}
+
+
+/**
+ * Log in to a server which uses password authentication.
+ *
+ * @param password - The password of the server.
+ *
+ * @param options - The options used to log in.
+ *
+ * @returns A promise that resolves when the login succeeds, or rejects
+ *   with a [[ResponseError]] if the password is not accepted.
+ *
+ * #### Notes
+ * Browsers retain the session cookie natively.  Other environments
+ * retain it in the [[cookieJar]], which requires a transport which can
+ * read the `Set-Cookie` header, such as `'fetch'`.
+ */
+export
+function login(password: string, options: ILoginOptions = {}): Promise<void> {
+  let baseUrl = options.baseUrl || getBaseUrl();
+  let url = urlPathJoin(baseUrl, 'login');
+  let getSettings = (method: string): IAjaxSettings => {
+    let ajaxSettings = copy(options.ajaxSettings || {}) as IAjaxSettings;
+    ajaxSettings.method = method;
+    return ajaxSettings;
+  };
+
+  // Get the `_xsrf` cookie before posting the password.
+  return ajaxRequest(url, getSettings('GET')).then(() => {
+    let ajaxSettings = getSettings('POST');
+    ajaxSettings.contentType = 'application/x-www-form-urlencoded';
+    ajaxSettings.followRedirects = false;
+    ajaxSettings.data = `password=${encodeURIComponent(password)}`;
+    let xsrf = getXsrfToken(url);
+    if (xsrf) {
+      ajaxSettings.data += `&_xsrf=${encodeURIComponent(xsrf)}`;
+    }
+    return ajaxRequest(url, ajaxSettings).catch((error: IAjaxError) => {
+      // A redirect is the response to an accepted login.
+      let status = error.xhr ? error.xhr.status : 0;
+      if (status < 300 || status >= 400) {
+        return Promise.reject(error);
+      }
+    });
+  }).then(() => {
+    // Check that the session is authenticated.
+    let ajaxSettings = getSettings('GET');
+    ajaxSettings.dataType = 'json';
+    let apiUrl = urlPathJoin(baseUrl, 'api/kernelspecs');
+    return ajaxRequest(apiUrl, ajaxSettings).catch((error: IAjaxError) => {
+      if (error instanceof ResponseError && error.status === 403) {
+        error.throwError = error.message = 'Invalid password';
+      }
+      return Promise.reject(error);
+    });
+  }).then(() => void 0);
+}
+
+
+/**
+ * Register a request transport by name.
+ *
+ * @param name - The name used to select the transport in the ajax settings.
+ *
+ * @param transport - The transport to register.
+ *
+ * @returns A disposable which unregisters the transport.
+ */
+export
+function registerTransport(name: string, transport: IRequestTransport): IDisposable {
+  transports[name] = transport;
+  return new DisposableDelegate(() => {
+    if (transports[name] === transport) {
+      delete transports[name];
+    }
+  });
+}
+
+
+/**
+ * Get a registered request transport.
+ *
+ * @param name - The name of the transport.  If not given, the default
+ *   transport for the environment is returned.
+ *
+ * @returns The transport, or `undefined` if it is not registered.
+ */
+export
+function getTransport(name?: string): IRequestTransport {
+  if (!name) {
+    name = typeof XMLHttpRequest === 'undefined' ? 'fetch' : 'xhr';
+  }
+  return transports[name];
+}
+
+
+/**
+ * A request transport which uses `XMLHttpRequest`.
+ *
+ * #### Notes
+ * Based on this [example](http://www.html5rocks.com/en/tutorials/es6/promises/#toc-promisifying-xmlhttprequest).
+ */
+export
+class XHRTransport implements IRequestTransport {
+  /**
+   * Send a request using an `XMLHttpRequest`.
+   */
+  send(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions = {}): Promise<IAjaxSuccess> {
+    return xhrRequest(url, ajaxSettings, options);
+  }
+}
+
+
+/**
+ * A request transport which uses the global `fetch` function.
+ */
+export
+class FetchTransport implements IRequestTransport {
+  /**
+   * Send a request using `fetch`.
+   */
+  send(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions = {}): Promise<IAjaxSuccess> {
+    return fetchRequest(url, ajaxSettings, options);
+  }
+}
+
+
+/**
+ * Send a request using an `XMLHttpRequest`.
+ */
+function xhrRequest(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions): Promise<IAjaxSuccess> {
+  let method = ajaxSettings.method || 'GET';
+  let user = ajaxSettings.user || '';
+  let password = ajaxSettings.password || '';
+
+  let token = options.cancelToken;
+  let xhr: XMLHttpRequest = null;
+
+  let request = new Promise<IAjaxSuccess>((resolve, reject) => {
+    xhr = new XMLHttpRequest();
+    xhr.open(method, url, true, user, password);
+
+    if (ajaxSettings.contentType !== void 0) {
+      xhr.setRequestHeader('Content-Type', ajaxSettings.contentType);
+    }
+    if (ajaxSettings.timeout !== void 0) {
+      xhr.timeout = ajaxSettings.timeout;
+    }
+    if (!!ajaxSettings.withCredentials) {
+      xhr.withCredentials = true;
+    }
+    if (ajaxSettings.requestHeaders !== void 0) {
        for (let prop in ajaxSettings.requestHeaders) {
          xhr.setRequestHeader(prop, ajaxSettings.requestHeaders[prop]);
        }
@@ -371,7 +1720,8 @@ function ajaxRequest(url: string, ajaxSettings: IAjaxSettings): Promise<IAjaxSuc
 
     xhr.onload = (event: ProgressEvent) => {
       if (xhr.status >= 300) {
-        reject({ event, xhr, ajaxSettings, throwError: xhr.statusText });
+        let throwError = xhr.statusText;
+        reject(new ResponseError({ event, xhr, ajaxSettings, throwError }));
       }
       let data = xhr.responseText;
       try {
@@ -383,23 +1733,216 @@ function ajaxRequest(url: string, ajaxSettings: IAjaxSettings): Promise<IAjaxSuc
     };
 
     xhr.onabort = (event: Event) => {
-      reject({ xhr, event, ajaxSettings });
+      if (token && token.isCancelled) {
+        reject(createCancellationError(token, ajaxSettings, xhr));
+        return;
+      }
+      reject(new ServerConnectionError({ xhr, event, ajaxSettings }));
     };
 
     xhr.onerror = (event: ErrorEvent) => {
-      reject({ xhr, event, ajaxSettings });
+      reject(new ServerConnectionError({ xhr, event, ajaxSettings }));
     };
 
-    xhr.ontimeout = (ev: ProgressEvent) => {
-      reject({ xhr, event, ajaxSettings });
+    xhr.ontimeout = (event: ProgressEvent) => {
+      reject(new ServerConnectionError({ xhr, event, ajaxSettings }));
     };
 
+    let onProgress = options.onProgress;
+    if (onProgress) {
+      xhr.onprogress = (event: ProgressEvent) => {
+        onProgress(createProgress('download', event));
+      };
+      if (xhr.upload) {
+        xhr.upload.onprogress = (event: ProgressEvent) => {
+          onProgress(createProgress('upload', event));
+        };
+      }
+    }
+
     if (ajaxSettings.data) {
       xhr.send(ajaxSettings.data);
     } else {
       xhr.send();
     }
   });
+
+  if (!token) {
+    return request;
+  }
+  return onCancelled(token, request, () => {
+    xhr.abort();
+  });
+}
+
+
+/**
+ * Send a request using `fetch`.
+ */
+function fetchRequest(url: string, ajaxSettings: IAjaxSettings, options: IRequestOptions): Promise<IAjaxSuccess> {
+  let headers: { [key: string]: string; } = {};
+  if (ajaxSettings.contentType !== void 0) {
+    headers['Content-Type'] = ajaxSettings.contentType;
+  }
+  if (ajaxSettings.user || ajaxSettings.password) {
+    let auth = `${ajaxSettings.user || ''}:${ajaxSettings.password || ''}`;
+    headers['Authorization'] = `Basic ${encodeBase64(auth)}`;
+  }
+  if (ajaxSettings.requestHeaders !== void 0) {
+    for (let prop in ajaxSettings.requestHeaders) {
+      headers[prop] = ajaxSettings.requestHeaders[prop];
+    }
+  }
+  let init: any = {
+    method: ajaxSettings.method || 'GET',
+    headers,
+    credentials: ajaxSettings.withCredentials ? 'include' : 'same-origin',
+    redirect: ajaxSettings.followRedirects === false ? 'manual' : 'follow'
+  };
+  if (ajaxSettings.data) {
+    init.body = ajaxSettings.data;
+  }
+  let token = options.cancelToken;
+  let controller: any = null;
+  let abortable = token || ajaxSettings.timeout;
+  if (abortable && typeof AbortController !== 'undefined') {
+    controller = new AbortController();
+    init.signal = controller.signal;
+  }
+
+  let request = fetch(url, init).then(response => {
+    return readFetchBody(response, ajaxSettings, options.onProgress).then((text: string) => {
+      let xhr = createFetchXhr(response.status, response.statusText, text,
+                               response.headers);
+      if (response.status >= 300) {
+        let throwError = response.statusText;
+        throw new ResponseError({ event: null, xhr, ajaxSettings, throwError });
+      }
+      let data: any = text;
+      try {
+        data = JSON.parse(text);
+      } catch (err) {
+        // no-op
+      }
+      let success: IAjaxSuccess = { xhr, ajaxSettings, data, event: null };
+      return success;
+    });
+  }, (error: Error) => {
+    let xhr = createFetchXhr(0, '', '', null);
+    let throwError = error.message;
+    let options = { event: null as Event, xhr, ajaxSettings, throwError };
+    return Promise.reject(new ServerConnectionError(options));
+  });
+  if (controller && token) {
+    request = onCancelled(token, request, () => {
+      controller.abort();
+    });
+  }
+
+  if (!ajaxSettings.timeout) {
+    return request;
+  }
+  return new Promise<IAjaxSuccess>((resolve, reject) => {
+    let timer = setTimeout(() => {
+      let xhr = createFetchXhr(0, '', '', null);
+      let throwError = 'Request timed out';
+      reject(new ServerConnectionError({ event: null, xhr, ajaxSettings, throwError }));
+      // Release the connection of the request, like `xhr.abort()`.
+      if (controller) {
+        controller.abort();
+      }
+    }, ajaxSettings.timeout);
+    request.then(success => {
+      clearTimeout(timer);
+      resolve(success);
+    }, error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+
+/**
+ * Read the body of a `fetch` response, reporting its progress.
+ */
+function readFetchBody(response: any, ajaxSettings: IAjaxSettings, onProgress?: (progress: IAjaxProgress) => void): Promise<string> {
+  if (!onProgress) {
+    return response.text();
+  }
+  let sent = ajaxSettings.data ? ajaxSettings.data.length : 0;
+  onProgress({
+    direction: 'upload', loaded: sent, total: sent, lengthComputable: true
+  });
+  let headers = response.headers;
+  let total = headers ? Number(headers.get('Content-Length')) || 0 : 0;
+  let body = response.body;
+  if (!body || !body.getReader || typeof TextDecoder === 'undefined') {
+    return response.text().then((text: string) => {
+      let loaded = total || text.length;
+      onProgress({
+        direction: 'download', loaded, total: loaded, lengthComputable: true
+      });
+      return text;
+    });
+  }
+  let reader = body.getReader();
+  let decoder = new TextDecoder();
+  let text = '';
+  let loaded = 0;
+  let read = (): Promise<string> => {
+    return reader.read().then((result: any): string | Promise<string> => {
+      if (result.done) {
+        return text + decoder.decode();
+      }
+      text += decoder.decode(result.value, { stream: true });
+      loaded += result.value.length;
+      onProgress({
+        direction: 'download', loaded, total, lengthComputable: total > 0
+      });
+      return read();
+    });
+  };
+  return read();
+}
+
+
+/**
+ * Create an ajax progress from a progress event.
+ */
+function createProgress(direction: string, event: ProgressEvent): IAjaxProgress {
+  let lengthComputable = !!event.lengthComputable;
+  let total = lengthComputable ? event.total : 0;
+  return { direction, loaded: event.loaded, total, lengthComputable };
+}
+
+
+/**
+ * Create an object which stands in for a completed `XMLHttpRequest`.
+ */
+function createFetchXhr(status: number, statusText: string, text: string, headers: any): XMLHttpRequest {
+  let xhr = {
+    readyState: 4,
+    status,
+    statusText,
+    response: text,
+    responseText: text,
+    getResponseHeader: (name: string): string => {
+      return headers ? headers.get(name) : null;
+    }
+  };
+  return xhr as XMLHttpRequest;
+}
+
+
+/**
+ * Encode a string as base64.
+ */
+function encodeBase64(value: string): string {
+  if (typeof btoa !== 'undefined') {
+    return btoa(value);
+  }
+  return new Buffer(value).toString('base64');
 }
 
 
@@ -417,7 +1960,24 @@ function makeAjaxError(success: IAjaxSuccess, throwError?: string): Promise<any>
   let ajaxSettings = success.ajaxSettings;
   let event = success.event;
   throwError = throwError || `Invalid Status: ${xhr.status}`;
-  return Promise.reject({ xhr, ajaxSettings, event, throwError });
+  return Promise.reject(new ResponseError({ xhr, ajaxSettings, event, throwError }));
+}
+
+
+/**
+ * Create a validation error from an ajax success with invalid data.
+ *
+ * @param success - The original success object.
+ *
+ * @param error - The error raised when the data was validated.
+ */
+export
+function makeValidationError(success: IAjaxSuccess, error: Error): Promise<any> {
+  let xhr = success.xhr;
+  let ajaxSettings = success.ajaxSettings;
+  let event = success.event;
+  let throwError = error.message;
+  return Promise.reject(new ValidationError(throwError, { xhr, ajaxSettings, event, throwError }));
 }
 
 
@@ -502,6 +2062,71 @@ class PromiseDelegate<T> {
 }
 
 
+/**
+ * A token used to cancel requests.
+ *
+ * #### Notes
+ * Pass the token as the `cancelToken` of the [[IRequestOptions]], or to
+ * the methods of the service managers.  A single token may be used to
+ * cancel several requests.
+ */
+export
+class CancellationToken {
+  /**
+   * A signal emitted when the token is cancelled.
+   *
+   * #### Notes
+   * The args are the reason given for the cancellation.
+   */
+  cancelled: ISignal<CancellationToken, string>;
+
+  /**
+   * Test whether the token has been cancelled.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isCancelled(): boolean {
+    return this._isCancelled;
+  }
+
+  /**
+   * The reason given for the cancellation, if any.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get reason(): string {
+    return this._reason;
+  }
+
+  /**
+   * Cancel the requests using the token.
+   *
+   * @param reason - The optional reason for the cancellation.
+   *
+   * #### Notes
+   * This is a no-op if the token is already cancelled.
+   */
+  cancel(reason = ''): void {
+    if (this._isCancelled) {
+      return;
+    }
+    this._isCancelled = true;
+    this._reason = reason;
+    this.cancelled.emit(reason);
+    clearSignalData(this);
+  }
+
+  private _isCancelled = false;
+  private _reason = '';
+}
+
+
+// Define the signals for the `CancellationToken` class.
+defineSignal(CancellationToken.prototype, 'cancelled');
+
+
 
 /**
  * Global config data for the Jupyter application.
@@ -515,6 +2140,88 @@ let configData: any = null;
 declare var process: any;
 
 
+/**
+ * Declare a stub for the node Buffer class.
+ */
+declare var Buffer: any;
+
+
+/**
+ * Declare a stub for the global fetch function.
+ */
+declare var fetch: (url: string, init?: any) => Promise<any>;
+
+
+/**
+ * Declare a stub for the global AbortController class.
+ */
+declare var AbortController: any;
+
+
+/**
+ * Declare a stub for the global TextDecoder class.
+ */
+declare var TextDecoder: any;
+
+
+/**
+ * The request methods which do not need an XSRF token.
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+
+/**
+ * The default policy used to retry failed requests.
+ */
+const defaultRetryPolicy: IRetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  jitter: 0,
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  statusCodes: [408, 429, 502, 503, 504],
+  retryConnectionErrors: true
+};
+
+
+/**
+ * The registered request transports.
+ */
+const transports: { [key: string]: IRequestTransport } = {
+  'xhr': new XHRTransport(),
+  'fetch': new FetchTransport()
+};
+
+
+/**
+ * The metrics for the requests sent by `ajaxRequest`.
+ */
+const requestMetrics: IRequestMetrics = {
+  sent: 0,
+  coalesced: 0,
+  queued: 0,
+  active: 0
+};
+
+
+/**
+ * The `GET` requests in flight, keyed by their url and settings.
+ */
+const pendingRequests: { [key: string]: Promise<IAjaxSuccess> } = Object.create(null);
+
+
+/**
+ * The request slots in use for each server, keyed by host.
+ */
+const serverSlots: { [key: string]: { active: number, waiting: (() => void)[] } } = Object.create(null);
+
+
+/**
+ * The registered interceptor groups.
+ */
+const interceptorGroups: { [key: string]: IAjaxInterceptor[] } = Object.create(null);
+
+
 /**
  *  Make an object fully immutable by freezing each object in it.
  */
@@ -603,3 +2310,15 @@ function getWsUrl(baseUrl?: string): string {
   }
   return wsUrl;
 }
+
+
+/**
+ * Create a websocket connection using the global `WebSocket`.
+ *
+ * #### Notes
+ * This is the default socket factory for kernels and terminals.
+ */
+export
+function createWebSocket(url: string): WebSocket {
+  return new WebSocket(url);
+}
@@ -0,0 +1,231 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  AutosaveManager, Contents
+} from '../../../lib/contents';
+
+import {
+  MockContentsManager
+} from '../../../lib/mockcontents';
+
+import {
+  IRequestOptions
+} from '../../../lib/utils';
+
+import {
+  expectRejection
+} from '../utils';
+
+
+/**
+ * Wait for a number of milliseconds.
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise<void>(resolve => { setTimeout(resolve, ms); });
+}
+
+
+/**
+ * A contents manager which takes some time to save a file.
+ */
+class SlowContentsManager extends MockContentsManager {
+  save(path: string, options: Contents.IModel = {}, requestOptions?: IRequestOptions): Promise<Contents.IModel> {
+    return delay(20).then(() => super.save(path, options));
+  }
+}
+
+
+/**
+ * Create an autosave manager which saves a text file.
+ */
+function createAutosave(manager: Contents.IManager, options: { [key: string]: number } = {}): AutosaveManager {
+  let count = 0;
+  return new AutosaveManager({
+    manager,
+    path: 'foo.txt',
+    getModel: () => {
+      return { type: 'file', format: 'text', content: String(++count) };
+    },
+    saveInterval: options['saveInterval'] || 10,
+    checkpointInterval: options['checkpointInterval'],
+    maxCheckpoints: options['maxCheckpoints']
+  });
+}
+
+
+describe('autosave', () => {
+
+  describe('AutosaveManager', () => {
+
+    describe('#constructor()', () => {
+
+      it('should create a clean manager', () => {
+        let autosave = createAutosave(new MockContentsManager());
+        expect(autosave).to.be.an(AutosaveManager);
+        expect(autosave.path).to.be('foo.txt');
+        expect(autosave.isDirty).to.be(false);
+        expect(autosave.isSaving).to.be(false);
+      });
+
+    });
+
+    describe('#markDirty()', () => {
+
+      it('should save once after the last change', (done) => {
+        let manager = new MockContentsManager();
+        let autosave = createAutosave(manager);
+        let dirty: boolean[] = [];
+        autosave.dirtyChanged.connect((sender, value) => { dirty.push(value); });
+        autosave.markDirty();
+        autosave.markDirty();
+        expect(autosave.isDirty).to.be(true);
+        delay(5).then(() => {
+          autosave.markDirty();
+          return delay(30);
+        }).then(() => {
+          expect(manager.methods.filter(name => name === 'save').length).to.be(1);
+          expect(dirty).to.eql([true, false]);
+          expect(autosave.isDirty).to.be(false);
+          autosave.dispose();
+        }).then(done, done);
+      });
+
+      it('should save again after a change during a save', (done) => {
+        let manager = new SlowContentsManager();
+        let autosave = createAutosave(manager);
+        let saved: string[] = [];
+        autosave.saved.connect((sender, model) => { saved.push(model.content); });
+        autosave.markDirty();
+        delay(15).then(() => {
+          expect(autosave.isSaving).to.be(true);
+          autosave.markDirty();
+          return delay(30);
+        }).then(() => {
+          // The second save is not started while the first is in flight.
+          expect(saved).to.eql(['1']);
+          expect(autosave.isDirty).to.be(true);
+          return delay(40);
+        }).then(() => {
+          expect(saved).to.eql(['1', '2']);
+          expect(autosave.isDirty).to.be(false);
+          autosave.dispose();
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#save()', () => {
+
+      it('should save once after the save in flight', (done) => {
+        let manager = new SlowContentsManager();
+        let autosave = createAutosave(manager);
+        autosave.markDirty();
+        let first = autosave.save();
+        let others = [autosave.save(), autosave.save(), autosave.save()];
+        expect(others[1]).to.be(others[0]);
+        expect(others[2]).to.be(others[0]);
+        Promise.all([first].concat(others)).then(() => delay(40)).then(() => {
+          let saves = manager.methods.filter(method => method === 'save');
+          expect(saves.length).to.be(2);
+          expect(autosave.isDirty).to.be(false);
+          autosave.dispose();
+        }).then(done, done);
+      });
+
+      it('should create a checkpoint after the first save', (done) => {
+        let manager = new MockContentsManager();
+        let autosave = createAutosave(manager);
+        autosave.save().then(model => {
+          expect(model.content).to.be('1');
+          return autosave.save();
+        }).then(() => {
+          expect(manager.methods).to.eql([
+            'save', 'createCheckpoint', 'listCheckpoints', 'save'
+          ]);
+        }).then(done, done);
+      });
+
+      it('should emit a failed save and stay dirty', (done) => {
+        let manager = new MockContentsManager();
+        manager.save = () => Promise.reject(new Error('foo'));
+        let autosave = createAutosave(manager);
+        let errors: string[] = [];
+        autosave.saveFailed.connect((sender, error) => {
+          errors.push(error.message);
+        });
+        autosave.markDirty();
+        autosave.save().catch(error => {
+          expect(error.message).to.be('foo');
+          expect(errors).to.eql(['foo']);
+          expect(autosave.isDirty).to.be(true);
+          autosave.dispose();
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#checkpoint()', () => {
+
+      it('should delete the oldest checkpoints', (done) => {
+        let manager = new MockContentsManager();
+        let autosave = createAutosave(manager, { maxCheckpoints: 2 });
+        autosave.save().then(() => {
+          return autosave.checkpoint();
+        }).then(() => {
+          return autosave.checkpoint();
+        }).then(checkpoint => {
+          expect(checkpoint.id).to.be('2');
+          return manager.listCheckpoints('foo.txt');
+        }).then(checkpoints => {
+          expect(checkpoints.map(model => model.id)).to.eql(['1', '2']);
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#dispose()', () => {
+
+      it('should cancel a scheduled save', (done) => {
+        let manager = new MockContentsManager();
+        let autosave = createAutosave(manager);
+        autosave.markDirty();
+        autosave.dispose();
+        expect(autosave.isDisposed).to.be(true);
+        delay(20).then(() => {
+          expect(manager.methods).to.eql([]);
+        }).then(done, done);
+      });
+
+      it('should cancel a save waiting for the save in flight', (done) => {
+        let manager = new SlowContentsManager();
+        let autosave = createAutosave(manager);
+        autosave.save();
+        let waiting = autosave.save();
+        autosave.dispose();
+        expectRejection(waiting).then(error => {
+          expect(error.message).to.be('Autosave manager is disposed');
+          expect(manager.methods).to.eql(['save']);
+        }).then(done, done);
+      });
+
+      it('should reject a save and a checkpoint after it', (done) => {
+        let manager = new MockContentsManager();
+        let autosave = createAutosave(manager);
+        autosave.dispose();
+        expectRejection(autosave.save()).then(error => {
+          expect(error.message).to.be('Autosave manager is disposed');
+          return expectRejection(autosave.checkpoint());
+        }).then(error => {
+          expect(error.message).to.be('Autosave manager is disposed');
+          expect(manager.methods).to.eql([]);
+        }).then(done, done);
+      });
+
+    });
+
+  });
+
+});
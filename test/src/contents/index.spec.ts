@@ -8,7 +8,28 @@ import {
 } from '../../../lib/contents';
 
 import {
-  DEFAULT_FILE, RequestHandler, ajaxSettings, expectFailure, expectAjaxError
+  LocalDrive, MemoryStore
+} from '../../../lib/contents/localdrive';
+
+import {
+  CancellationError, ConflictError, ValidationError
+} from '../../../lib/errors';
+
+import {
+  MockContentsManager
+} from '../../../lib/mockcontents';
+
+import {
+  MockXMLHttpRequest
+} from '../../../lib/mockxhr';
+
+import {
+  CancellationToken, IAjaxProgress, IRetryPolicy
+} from '../../../lib/utils';
+
+import {
+  ContentsServer, DEFAULT_FILE, DEFAULT_NOTEBOOK, RequestHandler, ajaxSettings, expectFailure,
+  expectAjaxError, expectRejection, readZip, V3_NOTEBOOK
 } from '../utils';
 
 
@@ -30,6 +51,38 @@ let DEFAULT_CP: Contents.ICheckpointModel = {
 };
 
 
+/**
+ * Wait for a number of milliseconds.
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise<void>(resolve => { setTimeout(resolve, ms); });
+}
+
+
+/**
+ * Get a promise which resolves with the next change of a manager.
+ */
+function nextChange(contents: ContentsManager): Promise<Contents.IChangedArgs> {
+  return new Promise<Contents.IChangedArgs>(resolve => {
+    let onChanged = (sender: ContentsManager, args: Contents.IChangedArgs) => {
+      contents.fileChanged.disconnect(onChanged);
+      resolve(args);
+    };
+    contents.fileChanged.connect(onChanged);
+  });
+}
+
+
+/**
+ * A mock drive with a name.
+ */
+class MockDrive extends MockContentsManager implements Contents.IDrive {
+  constructor(public name: string) {
+    super();
+  }
+}
+
+
 describe('contents', () => {
 
   describe('#constructor()', () => {
@@ -90,6 +143,53 @@ describe('contents', () => {
       });
     });
 
+    it('should report the progress of the request', (done) => {
+      let contents = new ContentsManager();
+      let handler = new RequestHandler(() => {
+        handler.respond(200, DEFAULT_FILE);
+      });
+      let loaded = 0;
+      let onProgress = (progress: IAjaxProgress) => {
+        expect(progress.direction).to.be('download');
+        loaded = progress.loaded;
+      };
+      let get = contents.get('/foo', { type: 'file' }, { onProgress });
+      get.then(() => {
+        expect(loaded).to.be(JSON.stringify(DEFAULT_FILE).length);
+      }).then(done, done);
+    });
+
+    it('should retry according to the retry policy', (done) => {
+      let retryPolicy: IRetryPolicy = { baseDelay: 0 };
+      let contents = new ContentsManager({ ajaxSettings: { retryPolicy } });
+      let count = 0;
+      let handler = new RequestHandler(() => {
+        count++;
+        if (count === 1) {
+          handler.respond(502, '');
+        } else {
+          handler.respond(200, DEFAULT_FILE);
+        }
+      });
+      contents.get('/foo', { type: 'file' }).then(model => {
+        expect(count).to.be(2);
+        expect(model.path).to.be(DEFAULT_FILE.path);
+      }).then(done, done);
+    });
+
+    it('should accept a cancellation token', (done) => {
+      let contents = new ContentsManager();
+      let token = new CancellationToken();
+      let handler = new RequestHandler(() => {
+        token.cancel('foo');
+      });
+      let get = contents.get('/foo', { type: 'file' }, { cancelToken: token });
+      expectRejection(get).then(error => {
+        expect(error).to.be.a(CancellationError);
+        expect(error.message).to.be('foo');
+      }).then(done, done);
+    });
+
     it('should fail for an incorrect response', (done) => {
       let contents = new ContentsManager();
       let handler = new RequestHandler(() => {
@@ -99,6 +199,18 @@ describe('contents', () => {
       expectAjaxError(get, done, 'Invalid Status: 201');
     });
 
+    it('should fail with a validation error for an invalid model', (done) => {
+      let contents = new ContentsManager();
+      let handler = new RequestHandler(() => {
+        handler.respond(200, { name: 'foo' });
+      });
+      expectRejection(contents.get('/foo')).then(error => {
+        expect(error).to.be.a(ValidationError);
+        expect(error.message).to.be("Missing property 'path'");
+        expect(error.xhr.status).to.be(200);
+      }).then(done, done);
+    });
+
   });
 
   describe('.getAbsolutePath()', () => {
@@ -158,6 +270,142 @@ describe('contents', () => {
       expect(path).to.be('http://../foo.txt');
     });
 
+    it('should resolve a drive path from the root of the drive', () => {
+      let path = ContentsManager.getAbsolutePath('mem:/fizz/../bar.txt', 'baz');
+      expect(path).to.be('mem:bar.txt');
+    });
+
+    it('should keep the drive of the current directory', () => {
+      let path = ContentsManager.getAbsolutePath('../bar.txt', 'mem:fizz/buzz');
+      expect(path).to.be('mem:fizz/bar.txt');
+      path = ContentsManager.getAbsolutePath('/bar.txt', 'mem:fizz');
+      expect(path).to.be('mem:bar.txt');
+    });
+
+    it('should return `null` if not contained in the drive', () => {
+      let path = ContentsManager.getAbsolutePath('..', 'mem:');
+      expect(path).to.be(null);
+    });
+
+  });
+
+  describe('.driveName()', () => {
+
+    it('should get the name of the drive of a path', () => {
+      expect(ContentsManager.driveName('mem:foo/bar.txt')).to.be('mem');
+      expect(ContentsManager.driveName('foo/bar.txt')).to.be('');
+      expect(ContentsManager.driveName('http://foo/bar.txt')).to.be('');
+    });
+
+  });
+
+  describe('.localPath()', () => {
+
+    it('should remove the drive prefix of a path', () => {
+      expect(ContentsManager.localPath('mem:foo/bar.txt')).to.be('foo/bar.txt');
+      expect(ContentsManager.localPath('foo/bar.txt')).to.be('foo/bar.txt');
+    });
+
+  });
+
+  describe('.basename()', () => {
+
+    it('should ignore the drive prefix', () => {
+      expect(ContentsManager.basename('mem:bar.txt')).to.be('bar.txt');
+      expect(ContentsManager.basename('mem:foo/bar.txt')).to.be('bar.txt');
+    });
+
+  });
+
+  describe('.dirname()', () => {
+
+    it('should keep the drive prefix', () => {
+      expect(ContentsManager.dirname('mem:foo/bar.txt')).to.be('mem:foo');
+      expect(ContentsManager.dirname('mem:bar.txt')).to.be('mem:');
+      expect(ContentsManager.dirname('foo/bar.txt')).to.be('foo');
+    });
+
+  });
+
+  describe('#addDrive()', () => {
+
+    it('should route drive paths to the drive', (done) => {
+      let contents = new ContentsManager();
+      let drive = new MockDrive('mem');
+      drive.createFile('foo.txt');
+      contents.addDrive(drive);
+      contents.get('mem:foo.txt').then(model => {
+        expect(drive.methods).to.eql(['get']);
+        expect(model.path).to.be('mem:foo.txt');
+        expect(model.content).to.be(drive.DEFAULT_TEXT);
+      }).then(done, done);
+    });
+
+    it('should pass paths relative to the drive root', (done) => {
+      let contents = new ContentsManager();
+      let drive = new MockDrive('mem');
+      contents.addDrive(drive);
+      let options: Contents.IModel = { path: 'bar.txt', type: 'file', content: 'hi' };
+      contents.save('mem:/bar.txt', options).then(model => {
+        expect(model.path).to.be('mem:bar.txt');
+        return drive.get('bar.txt');
+      }).then(model => {
+        expect(model.content).to.be('hi');
+      }).then(done, done);
+    });
+
+    it('should report the upload progress with the drive path', (done) => {
+      let contents = new ContentsManager();
+      let drive = new MockDrive('mem');
+      contents.addDrive(drive);
+      let paths: string[] = [];
+      contents.upload('mem:bar', new Uint8Array([104, 105]), {
+        onProgress: progress => { paths.push(progress.path); }
+      }).then(model => {
+        expect(model.path).to.be('mem:bar');
+        expect(paths).to.eql(['mem:bar']);
+      }).then(done, done);
+    });
+
+    it('should pass other paths to the server', (done) => {
+      let contents = new ContentsManager();
+      let drive = new MockDrive('mem');
+      contents.addDrive(drive);
+      let handler = new RequestHandler(() => {
+        handler.respond(200, DEFAULT_FILE);
+      });
+      contents.get('other:foo.txt').then(model => {
+        expect(model.path).to.be(DEFAULT_FILE.path);
+        expect(drive.methods).to.eql([]);
+      }).then(done, done);
+    });
+
+    it('should reject a rename between drives', (done) => {
+      let contents = new ContentsManager();
+      contents.addDrive(new MockDrive('mem'));
+      contents.rename('mem:foo.txt', 'foo.txt').catch(error => {
+        expect(error.message).to.contain('Cannot rename between drives');
+      }).then(done, done);
+    });
+
+    it('should remove the drive when disposed', (done) => {
+      let contents = new ContentsManager();
+      let drive = new MockDrive('mem');
+      let disposable = contents.addDrive(drive);
+      disposable.dispose();
+      let handler = new RequestHandler(() => {
+        handler.respond(200, DEFAULT_FILE);
+      });
+      contents.get('mem:foo.txt').then(() => {
+        expect(drive.methods).to.eql([]);
+      }).then(done, done);
+    });
+
+    it('should throw for an invalid drive name', () => {
+      let contents = new ContentsManager();
+      expect(() => { contents.addDrive(new MockDrive('a/b')); }).to.throwError();
+    });
+
   });
 
   describe('.normalizeExtension()', () => {
@@ -184,6 +432,163 @@ describe('contents', () => {
 
   });
 
+  describe('#fileChanged', () => {
+
+    it('should be emitted for the changes made by the manager', (done) => {
+      let server = new ContentsServer();
+      server.add('foo.txt', 'file', 'hi', 'text');
+      let contents = new ContentsManager();
+      let changes: string[] = [];
+      contents.fileChanged.connect((sender, args) => {
+        changes.push(`${args.type} ${args.path}`);
+      });
+      let model: Contents.IModel = { type: 'file', format: 'text', content: 'a' };
+      contents.save('/foo.txt', model).then(() => {
+        return contents.rename('foo.txt', 'bar.txt');
+      }).then(() => {
+        return contents.delete('/bar.txt');
+      }).then(() => {
+        expect(changes).to.eql([
+          'modified foo.txt', 'deleted foo.txt', 'created bar.txt',
+          'deleted bar.txt'
+        ]);
+      }).then(done, done);
+    });
+
+    it('should be emitted for the changes made in a drive', (done) => {
+      let contents = new ContentsManager();
+      contents.addDrive(new LocalDrive({ name: 'mem', store: new MemoryStore() }));
+      let changes: string[] = [];
+      contents.fileChanged.connect((sender, args) => {
+        changes.push(`${args.type} ${args.path}`);
+      });
+      contents.newUntitled({ path: 'mem:', ext: '.txt' }).then(model => {
+        expect(model.path).to.be('mem:untitled.txt');
+        return contents.copy('mem:untitled.txt', 'mem:');
+      }).then(() => {
+        expect(changes).to.eql([
+          'created mem:untitled.txt', 'created mem:untitled-Copy1.txt'
+        ]);
+      }).then(done, done);
+    });
+
+    it('should not be emitted for the chunks before the last', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      let changes: string[] = [];
+      contents.fileChanged.connect((sender, args) => {
+        changes.push(`${args.type} ${args.path}`);
+      });
+      let data = new Uint8Array([104, 105, 33]);
+      contents.upload('foo', data, { chunkSize: 2 }).then(() => {
+        expect(server.requests).to.eql(['PUT foo', 'PUT foo']);
+        expect(changes).to.eql(['modified foo']);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#watch()', () => {
+
+    it('should emit the changes of a watched file', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      let watch = contents.watch('/foo.txt', { interval: 1, maxInterval: 1 });
+      delay(20).then(() => {
+        server.add('foo.txt', 'file', 'hi', 'text');
+        return nextChange(contents);
+      }).then(args => {
+        expect(args.type).to.be('created');
+        expect(args.path).to.be('foo.txt');
+        server.models['foo.txt'].last_modified = 'later';
+        return nextChange(contents);
+      }).then(args => {
+        expect(args.type).to.be('modified');
+        expect(args.model.last_modified).to.be('later');
+        delete server.models['foo.txt'];
+        return nextChange(contents);
+      }).then(args => {
+        expect(args.type).to.be('deleted');
+        expect(args.model).to.be(null);
+        watch.dispose();
+      }).then(done, done);
+    });
+
+    it('should poll less often while the file is unchanged', (done) => {
+      let server = new ContentsServer();
+      server.add('foo.txt', 'file', 'hi', 'text');
+      let contents = new ContentsManager();
+      let watch = contents.watch('foo.txt', { interval: 10, maxInterval: 1000 });
+      delay(100).then(() => {
+        watch.dispose();
+        // Polls at 0, 20 and 60 milliseconds, instead of every 10.
+        expect(server.requests.length).to.be.within(2, 4);
+      }).then(done, done);
+    });
+
+    it('should stop polling when disposed', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      let watch = contents.watch('foo.txt', { interval: 1 });
+      watch.dispose();
+      delay(20).then(() => {
+        expect(server.requests.length).to.be(1);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#getNotebook()', () => {
+
+    it('should get a notebook with its content', (done) => {
+      let server = new ContentsServer();
+      server.add('foo.ipynb', 'notebook', DEFAULT_NOTEBOOK, 'json');
+      let contents = new ContentsManager();
+      contents.getNotebook('foo.ipynb').then(model => {
+        expect(model.type).to.be('notebook');
+        expect(model.content.cells.length).to.be(3);
+        expect(model.content.metadata.kernelspec.name).to.be('python3');
+      }).then(done, done);
+    });
+
+    it('should upgrade an nbformat v3 notebook', (done) => {
+      let server = new ContentsServer();
+      server.add('foo.ipynb', 'notebook', V3_NOTEBOOK, 'json');
+      let contents = new ContentsManager();
+      contents.getNotebook('foo.ipynb').then(model => {
+        expect(model.content.nbformat).to.be(4);
+        expect(model.content.metadata.orig_nbformat).to.be(3);
+        expect(model.content.cells[1].source).to.be('x = 1\nx');
+      }).then(done, done);
+    });
+
+    it('should reject an invalid notebook', (done) => {
+      let server = new ContentsServer();
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      content.cells[0].cell_type = 'heading';
+      server.add('foo.ipynb', 'notebook', content, 'json');
+      let contents = new ContentsManager();
+      contents.getNotebook('foo.ipynb').then(() => {
+        throw new Error('Should not resolve');
+      }, error => {
+        expect(error).to.be.a(ValidationError);
+        expect(error.message).to.be("cells[0]: Invalid cell type 'heading'");
+      }).then(done, done);
+    });
+
+    it('should get a notebook from a drive', (done) => {
+      let contents = new ContentsManager();
+      contents.addDrive(new LocalDrive({ name: 'mem', store: new MemoryStore() }));
+      contents.newUntitled({ path: 'mem:', type: 'notebook' }).then(model => {
+        return contents.getNotebook(model.path);
+      }).then(model => {
+        expect(model.path).to.be('mem:Untitled.ipynb');
+        expect(model.content.cells).to.eql([]);
+      }).then(done, done);
+    });
+
+  });
+
   describe('#getDownloadUrl()', () => {
 
     it('should get the url of a file', () => {
@@ -223,6 +628,20 @@ describe('contents', () => {
       });
     });
 
+    it('should not be retried by default', (done) => {
+      let retryPolicy: IRetryPolicy = { baseDelay: 0 };
+      let contents = new ContentsManager({ ajaxSettings: { retryPolicy } });
+      let count = 0;
+      let handler = new RequestHandler(() => {
+        count++;
+        handler.respond(503, '');
+      });
+      contents.newUntitled({ path: '/foo' }).catch(error => {
+        expect(count).to.be(1);
+        expect(error.status).to.be(503);
+      }).then(done, done);
+    });
+
     it('should create a directory', (done) => {
       let contents = new ContentsManager();
       let handler = new RequestHandler(() => {
@@ -304,6 +723,17 @@ describe('contents', () => {
       });
     });
 
+    it('should accept a cancellation token', (done) => {
+      let contents = new ContentsManager();
+      let token = new CancellationToken();
+      let handler = new RequestHandler(() => {
+        token.cancel();
+      });
+      expectRejection(contents.delete('/foo/bar.txt', token)).then(error => {
+        expect(error).to.be.a(CancellationError);
+      }).then(done, done);
+    });
+
     it('should fail for an incorrect response', (done) => {
       let contents = new ContentsManager();
       let handler = new RequestHandler(() => {
@@ -395,6 +825,34 @@ describe('contents', () => {
       });
     });
 
+    it('should accept a cancellation token', (done) => {
+      let contents = new ContentsManager();
+      let token = new CancellationToken();
+      let handler = new RequestHandler(() => {
+        token.cancel();
+      });
+      let save = contents.save('/foo', { type: 'file', name: 'test' }, { cancelToken: token });
+      expectRejection(save).then(error => {
+        expect(error).to.be.a(CancellationError);
+      }).then(done, done);
+    });
+
+    it('should report the progress of the request', (done) => {
+      let contents = new ContentsManager();
+      let handler = new RequestHandler(() => {
+        handler.respond(200, DEFAULT_FILE);
+      });
+      let directions: string[] = [];
+      let model: Contents.IModel = { type: 'file', name: 'test' };
+      let onProgress = (progress: IAjaxProgress) => {
+        directions.push(progress.direction);
+      };
+      let save = contents.save('/foo', model, { onProgress });
+      save.then(() => {
+        expect(directions).to.eql(['upload', 'download']);
+      }).then(done, done);
+    });
+
     it('should create a new file', (done) => {
       let contents = new ContentsManager();
       let handler = new RequestHandler(() => {
@@ -439,6 +897,262 @@ describe('contents', () => {
       expectAjaxError(save, done, 'Invalid Status: 204');
     });
 
+    it('should save a file which is unchanged since it was loaded', (done) => {
+      let server = new ContentsServer();
+      server.add('foo.txt', 'file', 'hi', 'text');
+      let contents = new ContentsManager();
+      let lastModified = server.models['foo.txt'].last_modified;
+      let model: Contents.IModel = { type: 'file', format: 'text', content: 'a' };
+      contents.save('foo.txt', model, { lastModified }).then(() => {
+        expect(server.requests).to.eql(['GET foo.txt', 'PUT foo.txt']);
+        expect(server.models['foo.txt'].content).to.be('a');
+      }).then(done, done);
+    });
+
+    it('should compare the timestamps as dates', (done) => {
+      let server = new ContentsServer();
+      server.add('foo.txt', 'file', 'hi', 'text');
+      server.models['foo.txt'].last_modified = '2016-08-01T12:00:00.000000+00:00';
+      let contents = new ContentsManager();
+      let model: Contents.IModel = { type: 'file', format: 'text', content: 'a' };
+      let lastModified = '2016-08-01T12:00:00Z';
+      contents.save('foo.txt', model, { lastModified }).then(() => {
+        expect(server.models['foo.txt'].content).to.be('a');
+      }).then(done, done);
+    });
+
+    it('should reject a file which was changed since it was loaded', (done) => {
+      let server = new ContentsServer();
+      server.add('foo.txt', 'file', 'hi', 'text');
+      server.models['foo.txt'].last_modified = 'later';
+      let contents = new ContentsManager();
+      let model: Contents.IModel = { type: 'file', format: 'text', content: 'a' };
+      let save = contents.save('foo.txt', model, { lastModified: 'earlier' });
+      expectRejection(save).then(error => {
+        expect(error).to.be.a(ConflictError);
+        expect(error.path).to.be('foo.txt');
+        expect(error.model).to.be(model);
+        expect(error.currentModel.last_modified).to.be('later');
+        expect(server.requests).to.eql(['GET foo.txt']);
+        expect(server.models['foo.txt'].content).to.be('hi');
+      }).then(done, done);
+    });
+
+    it('should reject a file which was deleted since it was loaded', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      let model: Contents.IModel = { type: 'file', format: 'text', content: 'a' };
+      let save = contents.save('foo.txt', model, { lastModified: 'earlier' });
+      expectRejection(save).then(error => {
+        expect(error).to.be.a(ConflictError);
+        expect(error.message).to.be('File deleted since it was loaded: foo.txt');
+        expect(error.currentModel).to.be(null);
+        expect(server.requests).to.eql(['GET foo.txt']);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#saveNotebook()', () => {
+
+    it('should save a notebook as json', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      contents.saveNotebook('foo.ipynb', DEFAULT_NOTEBOOK).then(model => {
+        expect(model.type).to.be('notebook');
+        expect(server.models['foo.ipynb'].format).to.be('json');
+        expect(server.models['foo.ipynb'].content).to.eql(DEFAULT_NOTEBOOK);
+      }).then(done, done);
+    });
+
+    it('should not save an invalid notebook', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      delete content.metadata;
+      contents.saveNotebook('foo.ipynb', content).then(() => {
+        throw new Error('Should not resolve');
+      }, error => {
+        expect(error).to.be.a(ValidationError);
+        expect(error.message).to.be("Missing property 'metadata'");
+        expect(server.requests).to.eql([]);
+      }).then(done, done);
+    });
+
+    it('should reject a conflicting save', (done) => {
+      let server = new ContentsServer();
+      server.add('foo.ipynb', 'notebook', DEFAULT_NOTEBOOK, 'json');
+      let contents = new ContentsManager();
+      let options: Contents.ISaveOptions = { lastModified: 'yesterday' };
+      let save = contents.saveNotebook('foo.ipynb', DEFAULT_NOTEBOOK, options);
+      expectRejection(save).then(error => {
+        expect(error).to.be.a(ConflictError);
+        expect(server.requests).to.eql(['GET foo.ipynb']);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#upload()', () => {
+
+    it('should save small data in a single request', (done) => {
+      let contents = new ContentsManager();
+      let models: Contents.IModel[] = [];
+      let handler = new RequestHandler(request => {
+        models.push(JSON.parse(request.data));
+        request.respond(201, DEFAULT_FILE);
+      });
+      let data = new Uint8Array([104, 105, 33]);
+      contents.upload('/foo', data).then(model => {
+        expect(model.path).to.be(DEFAULT_FILE.path);
+        expect(models).to.eql([
+          { type: 'file', format: 'base64', content: 'aGkh' }
+        ]);
+      }).then(done, done);
+    });
+
+    it('should save large data in chunks', (done) => {
+      let contents = new ContentsManager();
+      let requests: MockXMLHttpRequest[] = [];
+      let handler = new RequestHandler(request => {
+        requests.push(request);
+        request.respond(200, DEFAULT_FILE);
+      });
+      let progress: Contents.IUploadProgress[] = [];
+      let data = new Uint8Array([104, 105, 33, 104, 105]);
+      contents.upload('/foo', data, {
+        chunkSize: 2,
+        onProgress: value => { progress.push(value); }
+      }).then(() => {
+        let models = requests.map(request => JSON.parse(request.data));
+        expect(requests[0].method).to.be('PUT');
+        expect(models.map(model => model.chunk)).to.eql([1, 2, -1]);
+        expect(models.map(model => model.content)).to.eql([
+          'aGk=', 'IWg=', 'aQ=='
+        ]);
+        expect(progress.map(value => value.loaded)).to.eql([2, 4, 5]);
+        expect(progress[2]).to.eql({
+          path: '/foo', chunk: 3, chunks: 3, loaded: 5, total: 5
+        });
+      }).then(done, done);
+    });
+
+    it('should resume from the start chunk', (done) => {
+      let contents = new ContentsManager();
+      let chunks: number[] = [];
+      let handler = new RequestHandler(request => {
+        chunks.push(JSON.parse(request.data).chunk);
+        request.respond(200, DEFAULT_FILE);
+      });
+      let data = new Uint8Array([104, 105, 33, 104, 105]);
+      contents.upload('/foo', data, { chunkSize: 2, startChunk: 2 }).then(() => {
+        expect(chunks).to.eql([2, -1]);
+      }).then(done, done);
+    });
+
+    it('should stop at a failed chunk', (done) => {
+      let contents = new ContentsManager();
+      let count = 0;
+      let handler = new RequestHandler(request => {
+        count++;
+        request.respond(count === 2 ? 500 : 200, DEFAULT_FILE);
+      });
+      let chunks: number[] = [];
+      let data = new Uint8Array([104, 105, 33, 104, 105]);
+      contents.upload('/foo', data, {
+        chunkSize: 2,
+        onProgress: value => { chunks.push(value.chunk); }
+      }).catch(error => {
+        expect(error.xhr.status).to.be(500);
+        expect(count).to.be(2);
+        expect(chunks).to.eql([1]);
+      }).then(done, done);
+    });
+
+    it('should not retry an appended chunk', (done) => {
+      let retryPolicy: IRetryPolicy = { baseDelay: 0 };
+      let contents = new ContentsManager({ ajaxSettings: { retryPolicy } });
+      let chunks: number[] = [];
+      let handler = new RequestHandler(request => {
+        let chunk = JSON.parse(request.data).chunk;
+        chunks.push(chunk);
+        let status = chunk === 1 && chunks.length === 2 ? 200 : 502;
+        request.respond(status, DEFAULT_FILE);
+      });
+      let data = new Uint8Array([104, 105, 33]);
+      contents.upload('/foo', data, { chunkSize: 2 }).catch(error => {
+        expect(error.xhr.status).to.be(502);
+        expect(chunks).to.eql([1, 1, -1]);
+      }).then(done, done);
+    });
+
+    it('should reject an invalid start chunk', (done) => {
+      let contents = new ContentsManager();
+      let data = new Uint8Array([104, 105, 33]);
+      contents.upload('/foo', data, { startChunk: 2 }).catch(error => {
+        expect(error.message).to.be('Invalid start chunk: 2');
+      }).then(done, done);
+    });
+
+    it('should accept a cancellation token', (done) => {
+      let contents = new ContentsManager();
+      let token = new CancellationToken();
+      let handler = new RequestHandler(() => {
+        token.cancel();
+      });
+      let data = new Uint8Array([104, 105, 33]);
+      expectRejection(contents.upload('/foo', data, { cancelToken: token })).then(error => {
+        expect(error).to.be.a(CancellationError);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#archive()', () => {
+
+    it('should archive a directory as a zip file', (done) => {
+      let server = new ContentsServer();
+      server.add('foo/a/b.txt', 'file', 'hello');
+      server.add('foo/c.bin', 'file', 'AP8=', 'base64');
+      server.add('foo/d.ipynb', 'notebook', { cells: [] }, 'json');
+      server.add('foo/e', 'directory');
+      let contents = new ContentsManager();
+      contents.archive('/foo').then(buffer => {
+        let entries = readZip(buffer);
+        let decode = (path: string) => {
+          return String.fromCharCode.apply(null, entries[path]);
+        };
+        expect(Object.keys(entries)).to.eql([
+          'foo/a/', 'foo/a/b.txt', 'foo/c.bin', 'foo/d.ipynb', 'foo/e/'
+        ]);
+        expect(decode('foo/a/b.txt')).to.be('hello');
+        expect(decode('foo/c.bin')).to.be('\x00\xff');
+        expect(decode('foo/d.ipynb')).to.be('{\n "cells": []\n}\n');
+      }).then(done, done);
+    });
+
+    it('should reject if a file cannot be fetched', (done) => {
+      let server = new ContentsServer();
+      server.add('foo/a.txt', 'file', 'hello');
+      server.failures = ['foo/a.txt'];
+      let contents = new ContentsManager();
+      contents.archive('foo').catch(error => {
+        expect(error.xhr.status).to.be(500);
+      }).then(done, done);
+    });
+
+    it('should accept a cancellation token', (done) => {
+      let server = new ContentsServer();
+      server.add('foo/a.txt', 'file', 'hello');
+      let contents = new ContentsManager();
+      let token = new CancellationToken();
+      expectRejection(contents.archive('foo', token)).then(error => {
+        expect(error).to.be.a(CancellationError);
+        expect(server.requests.length).to.be(0);
+      }).then(done, done);
+      token.cancel();
+    });
+
   });
 
   describe('#copy()', () => {
@@ -0,0 +1,425 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  Contents, ContentsManager, copyTree
+} from '../../../lib/contents';
+
+import {
+  FileSystemStore, LocalDrive, MemoryStore
+} from '../../../lib/contents/localdrive';
+
+import {
+  CancellationToken
+} from '../../../lib/utils';
+
+
+/**
+ * Create a memory drive with a file and a directory.
+ */
+function createDrive(): Promise<LocalDrive> {
+  let drive = new LocalDrive({ name: 'mem', store: new MemoryStore() });
+  let text: Contents.IModel = { type: 'file', format: 'text', content: 'hi' };
+  return drive.save('foo.txt', text).then(() => {
+    return drive.save('dir', { type: 'directory' });
+  }).then(() => drive);
+}
+
+
+/**
+ * Expect a promise to be rejected with a status and message.
+ */
+function expectStatus(promise: Promise<any>, status: number, message: string): Promise<void> {
+  return promise.then(() => {
+    throw new Error('Promise should have been rejected');
+  }, error => {
+    expect(error.status).to.be(status);
+    expect(error.message).to.be(message);
+  });
+}
+
+
+describe('localdrive', () => {
+
+  describe('LocalDrive', () => {
+
+    describe('#constructor()', () => {
+
+      it('should default the name to `local`', () => {
+        let drive = new LocalDrive({ store: new MemoryStore() });
+        expect(drive.name).to.be('local');
+      });
+
+    });
+
+    describe('#get()', () => {
+
+      it('should list a directory without hidden files', (done) => {
+        createDrive().then(drive => {
+          return drive.save('.hidden', { type: 'directory' }).then(() => {
+            return drive.get('');
+          });
+        }).then(model => {
+          expect(model.type).to.be('directory');
+          expect(model.format).to.be('json');
+          let content = model.content as Contents.IModel[];
+          expect(content.map(child => child.path)).to.eql(['dir', 'foo.txt']);
+          expect(content[1].content).to.be(null);
+        }).then(done, done);
+      });
+
+      it('should get a text file', (done) => {
+        createDrive().then(drive => drive.get('/foo.txt')).then(model => {
+          expect(model.name).to.be('foo.txt');
+          expect(model.path).to.be('foo.txt');
+          expect(model.format).to.be('text');
+          expect(model.mimetype).to.be('text/plain');
+          expect(model.content).to.be('hi');
+        }).then(done, done);
+      });
+
+      it('should get a binary file as base64', (done) => {
+        createDrive().then(drive => {
+          let model: Contents.IModel = {
+            type: 'file', format: 'base64', content: '/w=='
+          };
+          return drive.save('bin', model).then(() => {
+            return expectStatus(
+              drive.get('bin', { format: 'text' }), 400,
+              'bin is not UTF-8 encoded'
+            );
+          }).then(() => drive.get('bin'));
+        }).then(model => {
+          expect(model.format).to.be('base64');
+          expect(model.content).to.be('/w==');
+        }).then(done, done);
+      });
+
+      it('should get a notebook', (done) => {
+        createDrive().then(drive => {
+          let content = { cells: [] as any[], metadata: {}, nbformat: 4, nbformat_minor: 1 };
+          return drive.save('a.ipynb', { type: 'notebook', content }).then(() => {
+            return drive.get('a.ipynb');
+          });
+        }).then(model => {
+          expect(model.type).to.be('notebook');
+          expect(model.format).to.be('json');
+          expect(model.content.nbformat).to.be(4);
+        }).then(done, done);
+      });
+
+      it('should omit the content', (done) => {
+        createDrive().then(drive => {
+          return drive.get('foo.txt', { content: false });
+        }).then(model => {
+          expect(model.content).to.be(null);
+          expect(model.format).to.be(null);
+        }).then(done, done);
+      });
+
+      it('should reject a missing file or a wrong type', (done) => {
+        createDrive().then(drive => {
+          return expectStatus(
+            drive.get('bar'), 404, 'No such file or directory: bar'
+          ).then(() => expectStatus(
+            drive.get('dir', { type: 'file' }), 400,
+            'dir is a directory, not a file'
+          )).then(() => expectStatus(
+            drive.get('foo.txt', { type: 'directory' }), 400,
+            'foo.txt is not a directory'
+          ));
+        }).then(done, done);
+      });
+
+      it('should reject with a cancelled token', (done) => {
+        let token = new CancellationToken();
+        token.cancel('stop');
+        createDrive().then(drive => {
+          return drive.get('foo.txt', {}, { cancelToken: token });
+        }).catch(error => {
+          expect(error.name).to.be('CancellationError');
+          expect(error.message).to.be('stop');
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#newUntitled()', () => {
+
+      it('should name files like the server', (done) => {
+        let names: string[] = [];
+        createDrive().then(drive => {
+          let add = (options: Contents.ICreateOptions) => {
+            return drive.newUntitled(options).then(model => {
+              names.push(model.path);
+            });
+          };
+          return add({ path: 'dir', ext: '.txt' })
+            .then(() => add({ path: 'dir', ext: '.txt' }))
+            .then(() => add({ path: 'dir', type: 'notebook' }))
+            .then(() => add({ path: 'dir', ext: '.ipynb' }))
+            .then(() => add({ path: 'dir', type: 'directory' }))
+            .then(() => add({ path: 'dir', type: 'directory' }));
+        }).then(() => {
+          expect(names).to.eql([
+            'dir/untitled.txt', 'dir/untitled1.txt', 'dir/Untitled.ipynb',
+            'dir/Untitled1.ipynb', 'dir/Untitled Folder',
+            'dir/Untitled Folder 1'
+          ]);
+        }).then(done, done);
+      });
+
+      it('should create an empty notebook', (done) => {
+        createDrive().then(drive => {
+          return drive.newUntitled({ type: 'notebook' }).then(model => {
+            return drive.get(model.path);
+          });
+        }).then(model => {
+          expect(model.content.cells).to.eql([]);
+        }).then(done, done);
+      });
+
+      it('should reject a missing directory', (done) => {
+        createDrive().then(drive => {
+          return expectStatus(
+            drive.newUntitled({ path: 'bar' }), 404, 'No such directory: bar'
+          );
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#save()', () => {
+
+      it('should reject an incomplete model', (done) => {
+        createDrive().then(drive => {
+          return expectStatus(
+            drive.save('a', {}), 400, 'No file type provided'
+          ).then(() => expectStatus(
+            drive.save('a', { type: 'file' }), 400, 'No file content provided'
+          )).then(() => expectStatus(
+            drive.save('a', { type: 'file', content: 'x' }), 400,
+            "Must specify format of file contents as 'text' or 'base64'"
+          )).then(() => expectStatus(
+            drive.save('bar/a', { type: 'directory' }), 404,
+            'No such directory: bar'
+          ));
+        }).then(done, done);
+      });
+
+      it('should append chunks after the first', (done) => {
+        createDrive().then(drive => {
+          let model: Contents.IModel = {
+            type: 'file', format: 'base64', content: 'aGk=', chunk: 1
+          };
+          return drive.save('a', model).then(() => {
+            model.chunk = -1;
+            return drive.save('a', model);
+          }).then(saved => {
+            expect(saved.content).to.be(null);
+            return drive.get('a');
+          });
+        }).then(model => {
+          expect(model.content).to.be('hihi');
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#upload()', () => {
+
+      it('should save the data in chunks', (done) => {
+        let chunks: number[] = [];
+        createDrive().then(drive => {
+          let data = new Uint8Array([104, 105, 33, 104, 105]);
+          return drive.upload('a', data, {
+            chunkSize: 2,
+            onProgress: progress => { chunks.push(progress.chunk); }
+          }).then(() => drive.get('a'));
+        }).then(model => {
+          expect(chunks).to.eql([1, 2, 3]);
+          expect(model.content).to.be('hi!hi');
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#delete()', () => {
+
+      it('should delete a file and its checkpoint', (done) => {
+        createDrive().then(drive => {
+          return drive.createCheckpoint('foo.txt').then(() => {
+            return drive.delete('foo.txt');
+          }).then(() => drive.get('', { type: 'directory' })).then(model => {
+            expect(model.content.length).to.be(1);
+            return drive.save('foo.txt', { type: 'file', format: 'text', content: '' });
+          }).then(() => drive.listCheckpoints('foo.txt'));
+        }).then(checkpoints => {
+          expect(checkpoints).to.eql([]);
+        }).then(done, done);
+      });
+
+      it('should not delete a directory which is not empty', (done) => {
+        createDrive().then(drive => {
+          return drive.copy('foo.txt', 'dir').then(() => {
+            return expectStatus(drive.delete('dir'), 400, 'Directory dir not empty');
+          });
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#rename()', () => {
+
+      it('should move a file with its checkpoint', (done) => {
+        createDrive().then(drive => {
+          return drive.createCheckpoint('foo.txt').then(() => {
+            return drive.rename('foo.txt', 'dir/bar.txt');
+          }).then(model => {
+            expect(model.path).to.be('dir/bar.txt');
+            return drive.listCheckpoints('dir/bar.txt');
+          });
+        }).then(checkpoints => {
+          expect(checkpoints.length).to.be(1);
+        }).then(done, done);
+      });
+
+      it('should not replace an existing file', (done) => {
+        createDrive().then(drive => {
+          return expectStatus(
+            drive.rename('dir', 'foo.txt'), 409, 'File already exists: foo.txt'
+          );
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#copy()', () => {
+
+      it('should name copies like the server', (done) => {
+        createDrive().then(drive => {
+          return drive.copy('foo.txt', '').then(model => {
+            expect(model.path).to.be('foo-Copy1.txt');
+            return drive.copy('foo-Copy1.txt', '');
+          }).then(model => {
+            expect(model.path).to.be('foo-Copy2.txt');
+            return drive.copy('foo.txt', 'dir');
+          }).then(model => {
+            expect(model.path).to.be('dir/foo.txt');
+            return drive.copy('foo.txt', 'dir/bar.txt');
+          }).then(model => {
+            expect(model.path).to.be('dir/bar.txt');
+          });
+        }).then(done, done);
+      });
+
+      it('should not copy a directory', (done) => {
+        createDrive().then(drive => {
+          return expectStatus(drive.copy('dir', ''), 400, "Can't copy directories");
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#restoreCheckpoint()', () => {
+
+      it('should restore the content of the checkpoint', (done) => {
+        createDrive().then(drive => {
+          let text: Contents.IModel = { type: 'file', format: 'text', content: 'bye' };
+          return drive.createCheckpoint('foo.txt').then(checkpoint => {
+            expect(checkpoint.id).to.be('checkpoint');
+            return drive.save('foo.txt', text);
+          }).then(() => {
+            return drive.restoreCheckpoint('foo.txt', 'checkpoint');
+          }).then(() => drive.get('foo.txt'));
+        }).then(model => {
+          expect(model.content).to.be('hi');
+        }).then(done, done);
+      });
+
+      it('should reject a missing checkpoint', (done) => {
+        createDrive().then(drive => {
+          return expectStatus(
+            drive.restoreCheckpoint('foo.txt', 'checkpoint'), 404,
+            'Checkpoint does not exist: foo.txt@checkpoint'
+          );
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#deleteCheckpoint()', () => {
+
+      it('should delete the checkpoint', (done) => {
+        createDrive().then(drive => {
+          return drive.createCheckpoint('foo.txt').then(() => {
+            return drive.deleteCheckpoint('foo.txt', 'checkpoint');
+          }).then(() => drive.listCheckpoints('foo.txt'));
+        }).then(checkpoints => {
+          expect(checkpoints).to.eql([]);
+        }).then(done, done);
+      });
+
+    });
+
+    it('should be usable as a drive of a contents manager', (done) => {
+      let contents = new ContentsManager();
+      createDrive().then(drive => {
+        contents.addDrive(drive);
+        return copyTree(contents, 'mem:dir', 'mem:copy');
+      }).then(report => {
+        expect(report.errors).to.eql([]);
+        return contents.get('mem:');
+      }).then(model => {
+        let content = model.content as Contents.IModel[];
+        expect(content.map(child => child.path)).to.eql([
+          'mem:copy', 'mem:dir', 'mem:foo.txt'
+        ]);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('FileSystemStore', () => {
+
+    let fs = require('fs');
+    let os = require('os');
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(`${os.tmpdir()}/localdrive-`);
+    });
+
+    afterEach(() => {
+      new FileSystemStore({ root, fs }).remove('');
+    });
+
+    it('should keep the files of a drive in a directory', (done) => {
+      let drive = new LocalDrive({ store: new FileSystemStore({ root, fs }) });
+      let text: Contents.IModel = { type: 'file', format: 'text', content: 'hi' };
+      drive.save('foo.txt', text).then(() => {
+        return drive.createCheckpoint('foo.txt');
+      }).then(() => {
+        return drive.rename('foo.txt', 'bar.txt');
+      }).then(model => {
+        expect(model.writable).to.be(true);
+        expect(fs.readFileSync(`${root}/bar.txt`, 'utf8')).to.be('hi');
+        let checkpoint = `${root}/.ipynb_checkpoints/bar-checkpoint.txt`;
+        expect(fs.readFileSync(checkpoint, 'utf8')).to.be('hi');
+        return drive.get('');
+      }).then(model => {
+        expect(model.content.length).to.be(1);
+      }).then(done, done);
+    });
+
+    it('should report a missing file', () => {
+      let store = new FileSystemStore({ root, fs });
+      expect(store.stat('foo')).to.be(null);
+      expect(store.stat('').type).to.be('directory');
+    });
+
+  });
+
+});
@@ -0,0 +1,413 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  Contents, ContentsManager, ITreeProgress, copyTree, deleteTree, downloadTree,
+  moveTree, uploadTree
+} from '../../../lib/contents';
+
+import {
+  CancellationError
+} from '../../../lib/errors';
+
+import {
+  MockXMLHttpRequest
+} from '../../../lib/mockxhr';
+
+import {
+  CancellationToken
+} from '../../../lib/utils';
+
+import {
+  ContentsServer, expectRejection
+} from '../utils';
+
+
+describe('contents/tree', () => {
+
+  describe('uploadTree()', () => {
+
+    it('should create the directories before the files', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      let data = new Uint8Array([104, 105]);
+      uploadTree(contents, 'dest', [
+        { path: 'a/b/foo.txt', data },
+        { path: 'bar.txt', data },
+        { path: 'c' }
+      ]).then(result => {
+        expect(server.requests).to.eql([
+          'PUT dest', 'PUT dest/a', 'PUT dest/a/b', 'PUT dest/c',
+          'PUT dest/a/b/foo.txt', 'PUT dest/bar.txt'
+        ]);
+        expect(server.models['dest/a/b/foo.txt'].content).to.be('aGk=');
+        expect(result.models.length).to.be(6);
+        expect(result.errors).to.eql([]);
+      }).then(done, done);
+    });
+
+    it('should report the errors of each failed entry', (done) => {
+      let server = new ContentsServer();
+      server.failures = ['dest/foo.txt'];
+      let contents = new ContentsManager();
+      let data = new Uint8Array([104, 105]);
+      uploadTree(contents, 'dest', [
+        { path: 'foo.txt', data },
+        { path: 'bar.txt', data }
+      ]).then(result => {
+        expect(result.models.map(model => model.path)).to.eql([
+          'dest', 'dest/bar.txt'
+        ]);
+        expect(result.errors.length).to.be(1);
+        expect(result.errors[0].path).to.be('dest/foo.txt');
+        expect(result.errors[0].error.message).to.be('Failed: dest/foo.txt');
+      }).then(done, done);
+    });
+
+    it('should stop when the upload is cancelled', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      let token = new CancellationToken();
+      let data = new Uint8Array([104, 105]);
+      let promise = uploadTree(contents, 'dest', [
+        { path: 'foo.txt', data },
+        { path: 'bar.txt', data }
+      ], { cancelToken: token });
+      token.cancel();
+      expectRejection(promise).then(error => {
+        expect(error).to.be.a(CancellationError);
+        expect(server.requests.length).to.be(0);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('downloadTree()', () => {
+
+    it('should get the models of the tree', (done) => {
+      let server = new ContentsServer();
+      server.add('src/a/foo.txt', 'file', 'foo');
+      server.add('src/bar.txt', 'file', 'bar');
+      let contents = new ContentsManager();
+      downloadTree(contents, 'src').then(result => {
+        let models = result.models;
+        expect(models.map(model => model.path)).to.eql([
+          'src/a', 'src/a/foo.txt', 'src/bar.txt'
+        ]);
+        expect(models[0].content).to.be(null);
+        expect(models[1].content).to.be('foo');
+        expect(models[2].content).to.be('bar');
+        expect(result.errors).to.eql([]);
+      }).then(done, done);
+    });
+
+    it('should give each model to the entry function as it is downloaded', (done) => {
+      let server = new ContentsServer();
+      server.add('src/a/foo.txt', 'file', 'foo');
+      server.add('src/bar.txt', 'file', 'bar');
+      let contents = new ContentsManager();
+      let entries: string[] = [];
+      let onEntry = (model: Contents.IModel) => {
+        let requests = server.requests;
+        entries.push(`${model.path} after ${requests[requests.length - 1]}`);
+      };
+      downloadTree(contents, 'src', { onEntry }).then(result => {
+        expect(entries).to.eql([
+          'src/a after GET src/a',
+          'src/a/foo.txt after GET src/a/foo.txt',
+          'src/bar.txt after GET src/bar.txt'
+        ]);
+        expect(result.models).to.eql([]);
+        expect(result.errors).to.eql([]);
+      }).then(done, done);
+    });
+
+    it('should report the errors of each failed entry', (done) => {
+      let server = new ContentsServer();
+      server.add('src/a/foo.txt', 'file', 'foo');
+      server.add('src/bar.txt', 'file', 'bar');
+      server.failures = ['src/a'];
+      let contents = new ContentsManager();
+      downloadTree(contents, 'src').then(result => {
+        expect(result.models.map(model => model.path)).to.eql(['src/bar.txt']);
+        expect(result.errors.length).to.be(1);
+        expect(result.errors[0].path).to.be('src/a');
+      }).then(done, done);
+    });
+
+    it('should reject if the directory cannot be fetched', (done) => {
+      let server = new ContentsServer();
+      let contents = new ContentsManager();
+      downloadTree(contents, 'src').catch(error => {
+        expect(error.xhr.status).to.be(404);
+        expect(server.requests).to.eql(['GET src']);
+      }).then(done, done);
+    });
+
+    it('should stop when the download is cancelled', (done) => {
+      let server = new ContentsServer();
+      server.add('src/foo.txt', 'file', 'foo');
+      server.add('src/bar.txt', 'file', 'bar');
+      let contents = new ContentsManager();
+      let token = new CancellationToken();
+      let onRequest = MockXMLHttpRequest.onRequest;
+      server.onRequest = request => {
+        onRequest(request);
+        if (request.url.indexOf('foo.txt') !== -1) {
+          token.cancel();
+        }
+      };
+      expectRejection(downloadTree(contents, 'src', { cancelToken: token })).then(error => {
+        expect(error).to.be.a(CancellationError);
+        expect(server.requests).to.eql(['GET src', 'GET src/foo.txt']);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('copyTree()', () => {
+
+    it('should copy the tree to a new path', (done) => {
+      let server = new ContentsServer();
+      server.add('src/a/foo.txt', 'file', 'foo');
+      server.add('src/bar.bin', 'file', 'AP8=', 'base64');
+      let contents = new ContentsManager();
+      copyTree(contents, 'src', 'dest').then(report => {
+        expect(report.actions).to.eql([
+          { type: 'directory', path: 'dest' },
+          { type: 'directory', path: 'dest/a' },
+          { type: 'copy', source: 'src/bar.bin', path: 'dest/bar.bin' },
+          { type: 'copy', source: 'src/a/foo.txt', path: 'dest/a/foo.txt' }
+        ]);
+        expect(report.models.length).to.be(4);
+        expect(report.errors).to.eql([]);
+        expect(server.models['dest/a/foo.txt'].content).to.be('foo');
+        expect(server.models['dest/bar.bin'].format).to.be('base64');
+        expect(server.models['src/a/foo.txt'].content).to.be('foo');
+      }).then(done, done);
+    });
+
+    it('should plan the actions for a dry run', (done) => {
+      let server = new ContentsServer();
+      server.add('src/foo.txt', 'file', 'foo');
+      let contents = new ContentsManager();
+      copyTree(contents, 'src', 'dest', { dryRun: true }).then(report => {
+        expect(report.actions.length).to.be(2);
+        expect(report.models).to.eql([]);
+        expect(server.requests).to.eql(['GET src', 'GET ']);
+      }).then(done, done);
+    });
+
+    it('should skip existing files by default', (done) => {
+      let server = new ContentsServer();
+      server.add('src/foo.txt', 'file', 'foo');
+      server.add('src/bar.txt', 'file', 'bar');
+      server.add('dest/foo.txt', 'file', 'old');
+      let contents = new ContentsManager();
+      copyTree(contents, 'src', 'dest').then(report => {
+        expect(report.actions).to.eql([
+          { type: 'skip', source: 'src/foo.txt', path: 'dest/foo.txt' },
+          { type: 'copy', source: 'src/bar.txt', path: 'dest/bar.txt' }
+        ]);
+        expect(server.models['dest/foo.txt'].content).to.be('old');
+        expect(server.models['dest/bar.txt'].content).to.be('bar');
+      }).then(done, done);
+    });
+
+    it('should overwrite existing files', (done) => {
+      let server = new ContentsServer();
+      server.add('src/foo.txt', 'file', 'foo');
+      server.add('dest/foo.txt', 'file', 'old');
+      let contents = new ContentsManager();
+      copyTree(contents, 'src', 'dest', { conflict: 'overwrite' }).then(report => {
+        expect(report.actions).to.eql([
+          { type: 'copy', source: 'src/foo.txt', path: 'dest/foo.txt' }
+        ]);
+        expect(server.models['dest/foo.txt'].content).to.be('foo');
+      }).then(done, done);
+    });
+
+    it('should rename an existing destination', (done) => {
+      let server = new ContentsServer();
+      server.add('src/foo.txt', 'file', 'foo');
+      server.add('dest/foo.txt', 'file', 'old');
+      server.add('dest-Copy1', 'directory');
+      let contents = new ContentsManager();
+      copyTree(contents, 'src', 'dest', { conflict: 'rename' }).then(report => {
+        expect(report.actions).to.eql([
+          { type: 'directory', path: 'dest-Copy2' },
+          { type: 'copy', source: 'src/foo.txt', path: 'dest-Copy2/foo.txt' }
+        ]);
+        expect(server.models['dest/foo.txt'].content).to.be('old');
+        expect(server.models['dest-Copy2/foo.txt'].content).to.be('foo');
+      }).then(done, done);
+    });
+
+    it('should report the progress of the copy', (done) => {
+      let server = new ContentsServer();
+      server.add('src/foo.txt', 'file', 'foo');
+      let contents = new ContentsManager();
+      let progress: ITreeProgress[] = [];
+      copyTree(contents, 'src', 'dest', {
+        onProgress: value => { progress.push(value); }
+      }).then(report => {
+        expect(progress.map(value => value.completed)).to.eql([1, 2]);
+        expect(progress[1].total).to.be(2);
+        expect(progress[1].action).to.be(report.actions[1]);
+      }).then(done, done);
+    });
+
+    it('should report the errors of each failed action', (done) => {
+      let server = new ContentsServer();
+      server.add('src/foo.txt', 'file', 'foo');
+      server.add('src/bar.txt', 'file', 'bar');
+      server.failures = ['dest/foo.txt'];
+      let contents = new ContentsManager();
+      copyTree(contents, 'src', 'dest').then(report => {
+        expect(report.errors.length).to.be(1);
+        expect(report.errors[0].path).to.be('dest/foo.txt');
+        expect(server.models['dest/bar.txt'].content).to.be('bar');
+      }).then(done, done);
+    });
+
+  });
+
+  describe('moveTree()', () => {
+
+    it('should rename the tree to a new path', (done) => {
+      let server = new ContentsServer();
+      server.add('src/a/foo.txt', 'file', 'foo');
+      let contents = new ContentsManager();
+      moveTree(contents, '/src', 'dest').then(report => {
+        expect(report.actions).to.eql([
+          { type: 'rename', source: 'src', path: 'dest' }
+        ]);
+        expect(server.models['dest/a/foo.txt'].content).to.be('foo');
+        expect(server.models['src']).to.be(void 0);
+      }).then(done, done);
+    });
+
+    it('should merge the tree with an existing directory', (done) => {
+      let server = new ContentsServer();
+      server.add('src/a/foo.txt', 'file', 'foo');
+      server.add('src/b/baz.txt', 'file', 'baz');
+      server.add('src/bar.txt', 'file', 'bar');
+      server.add('dest/a/x.txt', 'file', 'x');
+      server.add('dest/bar.txt', 'file', 'old');
+      let contents = new ContentsManager();
+      moveTree(contents, 'src', 'dest').then(report => {
+        expect(report.actions).to.eql([
+          { type: 'rename', source: 'src/b', path: 'dest/b' },
+          { type: 'skip', source: 'src/bar.txt', path: 'dest/bar.txt' },
+          { type: 'rename', source: 'src/a/foo.txt', path: 'dest/a/foo.txt' },
+          { type: 'delete', path: 'src/a' }
+        ]);
+        expect(report.errors).to.eql([]);
+        expect(Object.keys(server.models).sort()).to.eql([
+          'dest', 'dest/a', 'dest/a/foo.txt', 'dest/a/x.txt', 'dest/b',
+          'dest/b/baz.txt', 'dest/bar.txt', 'src', 'src/bar.txt'
+        ]);
+      }).then(done, done);
+    });
+
+    it('should reject a destination which is a file', (done) => {
+      let server = new ContentsServer();
+      server.add('src/bar.txt', 'file', 'bar');
+      server.add('dest', 'file', 'old');
+      let contents = new ContentsManager();
+      expectRejection(moveTree(contents, 'src', 'dest')).then(error => {
+        expect(error.message).to.be('Cannot merge a directory with the file: dest');
+        expect(server.requests.filter(r => r.indexOf('GET') !== 0)).to.eql([]);
+        expect(server.models['src/bar.txt'].content).to.be('bar');
+      }).then(done, done);
+    });
+
+    it('should reject a directory which would be merged with a file', (done) => {
+      let server = new ContentsServer();
+      server.add('src/bar.txt', 'file', 'bar');
+      server.add('src/a/foo.txt', 'file', 'foo');
+      server.add('dest/a', 'file', 'old');
+      let contents = new ContentsManager();
+      let move = moveTree(contents, 'src', 'dest', { conflict: 'overwrite' });
+      expectRejection(move).then(error => {
+        expect(error.message).to.be('Cannot merge a directory with the file: dest/a');
+        expect(server.requests.filter(r => r.indexOf('GET') !== 0)).to.eql([]);
+        expect(server.models['dest/a'].content).to.be('old');
+      }).then(done, done);
+    });
+
+    it('should overwrite existing files', (done) => {
+      let server = new ContentsServer();
+      server.add('src/bar.txt', 'file', 'bar');
+      server.add('dest/bar.txt', 'file', 'old');
+      let contents = new ContentsManager();
+      moveTree(contents, 'src', 'dest', { conflict: 'overwrite' }).then(report => {
+        expect(report.actions).to.eql([
+          { type: 'delete', path: 'dest/bar.txt' },
+          { type: 'rename', source: 'src/bar.txt', path: 'dest/bar.txt' },
+          { type: 'delete', path: 'src' }
+        ]);
+        expect(server.models['dest/bar.txt'].content).to.be('bar');
+        expect(server.models['src']).to.be(void 0);
+      }).then(done, done);
+    });
+
+    it('should plan the actions for a dry run', (done) => {
+      let server = new ContentsServer();
+      server.add('src/bar.txt', 'file', 'bar');
+      let contents = new ContentsManager();
+      moveTree(contents, 'src', 'dest', { dryRun: true }).then(report => {
+        expect(report.actions.length).to.be(1);
+        expect(server.models['src/bar.txt'].content).to.be('bar');
+      }).then(done, done);
+    });
+
+  });
+
+  describe('deleteTree()', () => {
+
+    it('should delete the entries before their directories', (done) => {
+      let server = new ContentsServer();
+      server.add('src/a/foo.txt', 'file', 'foo');
+      server.add('src/bar.txt', 'file', 'bar');
+      server.add('other.txt', 'file', 'other');
+      let contents = new ContentsManager();
+      deleteTree(contents, 'src').then(report => {
+        expect(report.actions.map(action => action.path)).to.eql([
+          'src/a/foo.txt', 'src/bar.txt', 'src/a', 'src'
+        ]);
+        expect(report.errors).to.eql([]);
+        expect(Object.keys(server.models)).to.eql(['other.txt']);
+      }).then(done, done);
+    });
+
+    it('should plan the actions for a dry run', (done) => {
+      let server = new ContentsServer();
+      server.add('src/bar.txt', 'file', 'bar');
+      let contents = new ContentsManager();
+      deleteTree(contents, 'src', { dryRun: true }).then(report => {
+        expect(report.actions.length).to.be(2);
+        expect(server.requests).to.eql(['GET src']);
+      }).then(done, done);
+    });
+
+    it('should stop when the deletion is cancelled', (done) => {
+      let server = new ContentsServer();
+      server.add('src/bar.txt', 'file', 'bar');
+      let contents = new ContentsManager();
+      let token = new CancellationToken();
+      let promise = deleteTree(contents, 'src', {
+        cancelToken: token,
+        onProgress: () => { token.cancel(); }
+      });
+      expectRejection(promise).then(error => {
+        expect(error).to.be.a(CancellationError);
+        expect(server.models['src']).to.be.ok();
+      }).then(done, done);
+    });
+
+  });
+
+});
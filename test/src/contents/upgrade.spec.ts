@@ -0,0 +1,122 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  JSONObject
+} from 'phosphor/lib/algorithm/json';
+
+import {
+  convertNotebookV3, normalizeNotebook, upgradeNotebook
+} from '../../../lib/contents/upgrade';
+
+import {
+  validateNotebook
+} from '../../../lib/contents/validate';
+
+import {
+  DEFAULT_NOTEBOOK, V3_NOTEBOOK
+} from '../utils';
+
+
+describe('upgrade', () => {
+
+  describe('convertNotebookV3()', () => {
+
+    it('should join the cells of the worksheets', () => {
+      let content = convertNotebookV3(V3_NOTEBOOK);
+      expect(content.nbformat).to.be(4);
+      expect(content.nbformat_minor).to.be(0);
+      expect(content.metadata).to.eql({
+        kernelspec: { name: 'python2', display_name: 'Python 2' },
+        orig_nbformat: 3
+      });
+      expect(content.cells.map(cell => cell.cell_type)).to.eql([
+        'markdown', 'code', 'markdown', 'raw'
+      ]);
+    });
+
+    it('should convert heading cells to markdown', () => {
+      let content = convertNotebookV3(V3_NOTEBOOK);
+      expect(content.cells[0]).to.eql({
+        cell_type: 'markdown', metadata: {}, source: '## A heading'
+      });
+    });
+
+    it('should convert code cells and their outputs', () => {
+      let content = convertNotebookV3(V3_NOTEBOOK);
+      expect(content.cells[1]).to.eql({
+        cell_type: 'code',
+        metadata: { collapsed: false },
+        source: ['x = 1\n', 'x'],
+        execution_count: 2,
+        outputs: [
+          { output_type: 'stream', name: 'stdout', text: ['hi\n'] },
+          {
+            output_type: 'execute_result',
+            execution_count: 2,
+            data: { 'text/plain': ['1'], 'application/json': { a: 1 } },
+            metadata: {}
+          },
+          {
+            output_type: 'display_data',
+            data: { 'image/png': 'iVBORw0KGgo=' },
+            metadata: { 'image/png': { width: 10 } }
+          },
+          {
+            output_type: 'error',
+            ename: 'NameError',
+            evalue: 'y',
+            traceback: ['NameError: y']
+          }
+        ]
+      });
+    });
+
+    it('should not modify the notebook', () => {
+      let copy = JSON.parse(JSON.stringify(V3_NOTEBOOK));
+      convertNotebookV3(V3_NOTEBOOK);
+      expect(V3_NOTEBOOK).to.eql(copy);
+    });
+
+  });
+
+  describe('normalizeNotebook()', () => {
+
+    it('should join the multiline strings', () => {
+      let content = normalizeNotebook(DEFAULT_NOTEBOOK);
+      expect(content.cells[0].source).to.be('# Title\n![dot](attachment:dot.png)');
+      let outputs = (content.cells[1] as any).outputs;
+      expect(outputs[0].text).to.be('1\n');
+      expect(outputs[1].data['application/json']).to.eql({ value: 1 });
+      expect(DEFAULT_NOTEBOOK.cells[0].source).to.be.an('array');
+    });
+
+    it('should raise the minor version', () => {
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      content.nbformat_minor = 0;
+      expect(normalizeNotebook(content).nbformat_minor).to.be(1);
+      content.nbformat_minor = 4;
+      expect(normalizeNotebook(content).nbformat_minor).to.be(4);
+    });
+
+  });
+
+  describe('upgradeNotebook()', () => {
+
+    it('should upgrade a v3 notebook to a valid v4 notebook', () => {
+      let content = upgradeNotebook(V3_NOTEBOOK);
+      validateNotebook(content);
+      expect(content.nbformat_minor).to.be(1);
+      expect(content.cells[1].source).to.be('x = 1\nx');
+    });
+
+    it('should return an unknown version as is', () => {
+      let content: JSONObject = { nbformat: 2, worksheets: [] };
+      expect(upgradeNotebook(content)).to.be(content);
+    });
+
+  });
+
+});
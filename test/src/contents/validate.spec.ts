@@ -4,11 +4,15 @@
 import expect = require('expect.js');
 
 import {
-  validateContentsModel, validateCheckpointModel
+  ValidationError
+} from '../../../lib/errors';
+
+import {
+  validateContentsModel, validateCheckpointModel, validateNotebook
 } from '../../../lib/contents/validate';
 
 import {
-  DEFAULT_FILE
+  DEFAULT_FILE, DEFAULT_NOTEBOOK
 } from '../utils';
 
 
@@ -32,6 +36,15 @@ describe('validate', () => {
       expect(() => validateContentsModel(model)).to.throwError();
     });
 
+    it('should throw a validation error', () => {
+      let model = JSON.parse(JSON.stringify(DEFAULT_FILE));
+      delete model['path'];
+      expect(() => validateContentsModel(model)).to.throwError((error: any) => {
+        expect(error).to.be.a(ValidationError);
+        expect(error.message).to.be("Missing property 'path'");
+      });
+    });
+
   });
 
   describe('validateCheckpointModel()', () => {
@@ -52,4 +65,78 @@ describe('validate', () => {
 
   });
 
+  describe('validateNotebook()', () => {
+
+    /**
+     * Get the validation error message of a notebook.
+     */
+    function getError(content: any): string {
+      try {
+        validateNotebook(content);
+      } catch (error) {
+        expect(error).to.be.a(ValidationError);
+        return error.message;
+      }
+      return null;
+    }
+
+    it('should pass with valid data', () => {
+      validateNotebook(DEFAULT_NOTEBOOK);
+    });
+
+    it('should fail on another major version', () => {
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      content.nbformat = 3;
+      expect(getError(content)).to.be("Unsupported nbformat version '3'");
+    });
+
+    it('should fail on a missing notebook property', () => {
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      delete content.cells;
+      expect(getError(content)).to.be("Missing property 'cells'");
+      expect(getError(null)).to.be("Property 'notebook' is not of type 'object'");
+    });
+
+    it('should give the location of an invalid cell', () => {
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      content.cells[2].cell_type = 'heading';
+      expect(getError(content)).to.be("cells[2]: Invalid cell type 'heading'");
+      content.cells[2] = { cell_type: 'raw', metadata: {}, source: [1] };
+      expect(getError(content)).to.be(
+        "cells[2]: Property 'source' is not a multiline string"
+      );
+    });
+
+    it('should give the location of an invalid output', () => {
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      content.cells[1].outputs[1].data['text/plain'] = 1;
+      expect(getError(content)).to.be(
+        "cells[1]: outputs[1]: data: Property 'text/plain' is not a multiline string"
+      );
+      content.cells[1].outputs[1] = { output_type: 'pyout' };
+      expect(getError(content)).to.be(
+        "cells[1]: outputs[1]: Invalid output type 'pyout'"
+      );
+    });
+
+    it('should fail on an invalid execution count', () => {
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      content.cells[1].execution_count = null;
+      expect(getError(content)).to.be(null);
+      content.cells[1].execution_count = 1.5;
+      expect(getError(content)).to.be(
+        "cells[1]: Property 'execution_count' is not an integer or null"
+      );
+    });
+
+    it('should fail on invalid attachments', () => {
+      let content = JSON.parse(JSON.stringify(DEFAULT_NOTEBOOK));
+      content.cells[0].attachments['dot.png'] = 'foo';
+      expect(getError(content)).to.be(
+        "cells[0]: Property 'attachments['dot.png']' is not of type 'object'"
+      );
+    });
+
+  });
+
 });
@@ -0,0 +1,90 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  ZipWriter, crc32
+} from '../../../lib/contents/zip';
+
+import {
+  encodeUtf8
+} from '../../../lib/utils';
+
+import {
+  readZip
+} from '../utils';
+
+
+/**
+ * Get the values of bytes as an array.
+ */
+function toArray(bytes: Uint8Array): number[] {
+  return Array.prototype.slice.call(bytes);
+}
+
+
+describe('contents/zip', () => {
+
+  describe('crc32()', () => {
+
+    it('should compute the checksum of bytes', () => {
+      expect(crc32(encodeUtf8('hello'))).to.be(0x3610a686);
+      expect(crc32(new Uint8Array(0))).to.be(0);
+    });
+
+  });
+
+  describe('ZipWriter', () => {
+
+    describe('#finish()', () => {
+
+      it('should create an empty archive', () => {
+        let buffer = new ZipWriter().finish();
+        expect(buffer.byteLength).to.be(22);
+        expect(readZip(buffer)).to.eql({});
+      });
+
+      it('should create an archive of the entries', () => {
+        let writer = new ZipWriter();
+        let date = new Date(2016, 4, 6, 12, 30, 10);
+        writer.add({ path: 'foo/', data: null, date });
+        writer.add({ path: 'foo/bar.txt', data: encodeUtf8('hello'), date });
+        writer.add({ path: 'foo/é.bin', data: new Uint8Array([0, 255]), date });
+        let entries = readZip(writer.finish());
+        expect(Object.keys(entries)).to.eql([
+          'foo/', 'foo/bar.txt', 'foo/é.bin'
+        ]);
+        expect(entries['foo/'].length).to.be(0);
+        expect(toArray(entries['foo/bar.txt'])).to.eql(toArray(encodeUtf8('hello')));
+        expect(toArray(entries['foo/é.bin'])).to.eql([0, 255]);
+      });
+
+    });
+
+    describe('#add()', () => {
+
+      it('should reject more than 65535 entries', () => {
+        let writer = new ZipWriter();
+        let date = new Date();
+        for (let i = 0; i < 65535; i++) {
+          writer.add({ path: `${i}/`, data: null, date });
+        }
+        expect(() => {
+          writer.add({ path: 'foo/', data: null, date });
+        }).to.throwError(/Too many entries for a zip archive: foo\//);
+      });
+
+      it('should reject more than 4 GiB of data', () => {
+        let writer = new ZipWriter();
+        let data = { length: 0x100000000 } as Uint8Array;
+        expect(() => {
+          writer.add({ path: 'foo.bin', data, date: new Date() });
+        }).to.throwError(/Too much data for a zip archive: foo.bin/);
+      });
+
+    });
+
+  });
+
+});
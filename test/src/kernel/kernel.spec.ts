@@ -15,12 +15,21 @@ import {
   IKernel, KernelManager, Kernel, KernelMessage
 } from '../../../lib/kernel';
 
+import {
+  ResponseError, ValidationError
+} from '../../../lib/errors';
+
 import {
   KERNELSPECS
 } from '../../../lib/mockkernel';
 
+import {
+  deserialize
+} from '../../../lib/kernel/serialize';
+
 import {
   RequestHandler, ajaxSettings, doLater, expectFailure, expectAjaxError,
+  expectRejection,
   createKernel, KernelTester,
   KERNEL_OPTIONS, AJAX_KERNEL_OPTIONS, EXAMPLE_KERNEL_INFO,
   PYTHON_SPEC
@@ -94,6 +103,18 @@ describe('kernel', () => {
       expectAjaxError(promise, done, 'Invalid kernel list');
     });
 
+    it('should throw a validation error for an invalid kernel model', (done) => {
+      let handler = new RequestHandler(() => {
+        handler.respond(200, [{ id: uuid() }]);
+      });
+      let promise = Kernel.listRunning({ baseUrl: 'http://localhost:8888' });
+      expectRejection(promise).then(error => {
+        expect(error).to.be.a(ValidationError);
+        expect(error.message).to.be("Missing property 'name'");
+        expect(error.xhr.status).to.be(200);
+      }).then(done, done);
+    });
+
     it('should throw an error for an invalid response', (done) => {
       let handler = new RequestHandler(() => {
         handler.respond(201, { });
@@ -135,6 +156,52 @@ describe('kernel', () => {
       });
     });
 
+    it('should add the token to the websocket url', (done) => {
+      let tester = new KernelTester(() => {
+        tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+      });
+      let urls: string[] = [];
+      let options: Kernel.IOptions = {
+        baseUrl: KERNEL_OPTIONS.baseUrl,
+        name: KERNEL_OPTIONS.name,
+        ajaxSettings: { token: 'abc' },
+        socketFactory: (url: string) => {
+          urls.push(url);
+          return new WebSocket(url);
+        }
+      };
+      tester.onRequest = request => {
+        expect(request.requestHeaders['Authorization']).to.be('token abc');
+        tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+      };
+      Kernel.startNew(options).then(kernel => {
+        expect(urls[0]).to.contain('&token=abc');
+        kernel.dispose();
+        done();
+      }).catch(done);
+    });
+
+    it('should accept a socket factory', (done) => {
+      let tester = new KernelTester(() => {
+        tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+      });
+      let urls: string[] = [];
+      let options: Kernel.IOptions = {
+        baseUrl: KERNEL_OPTIONS.baseUrl,
+        name: KERNEL_OPTIONS.name,
+        socketFactory: (url: string) => {
+          urls.push(url);
+          return new WebSocket(url);
+        }
+      };
+      Kernel.startNew(options).then(kernel => {
+        expect(urls.length).to.be(1);
+        expect(urls[0]).to.contain(kernel.id);
+        kernel.dispose();
+        done();
+      }).catch(done);
+    });
+
     it('should still start if the kernel dies', (done) => {
       let tester = new KernelTester(() => {
         tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
@@ -184,18 +251,32 @@ describe('kernel', () => {
       expectFailure(kernelPromise, done, '');
     });
 
+    it('should reject with a response error when the kernel fails to start', (done) => {
+      let tester = new KernelTester(() => {
+        tester.respond(500, { message: 'No kernel', traceback: 'foo' });
+      });
+      Kernel.startNew(KERNEL_OPTIONS).then(() => {
+        throw new Error('Kernel should not start');
+      }, error => {
+        expect(error).to.be.a(ResponseError);
+        expect(error.status).to.be(500);
+        expect(error.traceback).to.be('foo');
+      }).then(done, done);
+    });
+
     it('should auto-reconnect on websocket error', (done) => {
       let tester = new KernelTester(() => {
         tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
       });
       Kernel.startNew(KERNEL_OPTIONS).then(kernel => {
         expect(kernel.status).to.be('unknown');
-        kernel.statusChanged.connect(() => {
-          if (kernel.status === 'reconnecting') {
+        kernel.connectionStatusChanged.connect(() => {
+          if (kernel.connectionStatus === 'disconnected') {
             done();
             kernel.dispose();
-            return;
           }
+        });
+        kernel.statusChanged.connect(() => {
           if (kernel.status === 'starting') {
             tester.triggerError('Error event');
           }
@@ -272,6 +353,21 @@ describe('kernel', () => {
       expectFailure(kernelPromise, done, 'No running kernel with id: ' + id);
     });
 
+    it('should keep the response error if no running kernel available', (done) => {
+      let id = uuid();
+      let tester = new KernelTester(() => {
+        tester.respond(404, { message: 'Not found' });
+      });
+      Kernel.connectTo(id, KERNEL_OPTIONS).then(() => {
+        throw new Error('Kernel should not connect');
+      }, error => {
+        expect(error).to.be.a(ResponseError);
+        expect(error.status).to.be(404);
+        expect(error.message).to.be('Not found');
+        expect(error.throwError).to.be('No running kernel with id: ' + id);
+      }).then(done, done);
+    });
+
   });
 
   describe('Kernel.shutdown()', () => {
@@ -303,6 +399,34 @@ describe('kernel', () => {
       });
     });
 
+    context('#connectionStatusChanged', () => {
+
+      it('should be a signal following the connection status', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          reconnectPolicy: { baseDelay: 10 }
+        };
+        Kernel.startNew(options).then(kernel => {
+          expect(kernel.connectionStatus).to.be('connected');
+          let states: Kernel.ConnectionStatus[] = [];
+          kernel.connectionStatusChanged.connect((sender, state) => {
+            states.push(state);
+            if (state === 'connected') {
+              expect(states).to.eql(['disconnected', 'connecting', 'connected']);
+              kernel.dispose();
+              done();
+            }
+          });
+          tester.triggerError('Error event');
+        });
+      });
+
+    });
+
     context('#iopubMessage', () => {
 
       it('should be emitted for an iopub message', (done) => {
@@ -405,6 +529,119 @@ describe('kernel', () => {
 
     });
 
+    context('#connectionAttempt', () => {
+
+      it('should be emitted when a reconnect is scheduled', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          reconnectPolicy: { baseDelay: 10 }
+        };
+        Kernel.startNew(options).then(kernel => {
+          kernel.connectionAttempt.connect((sender, args) => {
+            expect(kernel.connectionStatus).to.be('disconnected');
+            expect(args.attempt).to.be(1);
+            expect(args.delay).to.be(10);
+            kernel.dispose();
+            done();
+          });
+          tester.triggerError('Error event');
+        });
+      });
+
+      it('should respect the maximum delay', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          reconnectPolicy: { baseDelay: 50, maxDelay: 20 }
+        };
+        Kernel.startNew(options).then(kernel => {
+          kernel.connectionAttempt.connect((sender, args) => {
+            expect(args.delay).to.be(20);
+            kernel.dispose();
+            done();
+          });
+          tester.triggerError('Error event');
+        });
+      });
+
+      it('should apply jitter to the delay', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          reconnectPolicy: { baseDelay: 100, jitter: 0.5 }
+        };
+        Kernel.startNew(options).then(kernel => {
+          kernel.connectionAttempt.connect((sender, args) => {
+            expect(args.delay).to.not.be.greaterThan(100);
+            expect(args.delay).to.not.be.lessThan(50);
+            kernel.dispose();
+            done();
+          });
+          tester.triggerError('Error event');
+        });
+      });
+
+      it('should keep trying if the policy retries forever', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          reconnectPolicy: { maxAttempts: 0, retryForever: true }
+        };
+        Kernel.startNew(options).then(kernel => {
+          let failed = false;
+          kernel.connectionFailed.connect(() => {
+            failed = true;
+          });
+          kernel.connectionAttempt.connect((sender, args) => {
+            expect(failed).to.be(false);
+            expect(args.attempt).to.be(1);
+            kernel.dispose();
+            done();
+          });
+          tester.triggerError('Error event');
+        });
+      });
+
+    });
+
+    context('#connectionFailed', () => {
+
+      it('should be emitted when the reconnect policy is exhausted', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          reconnectPolicy: { maxAttempts: 0 }
+        };
+        Kernel.startNew(options).then(kernel => {
+          kernel.connectionFailed.connect(() => {
+            doLater(() => {
+              expect(kernel.status).to.be('dead');
+              expect(kernel.isDisposed).to.be(true);
+              done();
+            });
+          });
+          tester.triggerError('Error event');
+        });
+      });
+
+    });
+
     context('#id', () => {
 
       it('should be a read only string', (done) => {
@@ -507,16 +744,22 @@ describe('kernel', () => {
         });
       });
 
-      it('should get a reconnecting status', (done) => {
+      it('should keep the status when the connection is lost', (done) => {
         let tester = new KernelTester();
         createKernel(tester).then(kernel => {
-          kernel.statusChanged.connect(() => {
-            if (kernel.status === 'reconnecting') {
+          kernel.connectionStatusChanged.connect(() => {
+            if (kernel.connectionStatus === 'disconnected') {
+              expect(kernel.status).to.be('busy');
               kernel.dispose();
               done();
             }
           });
-          tester.triggerError('Error event');
+          kernel.statusChanged.connect(() => {
+            if (kernel.status === 'busy') {
+              tester.triggerError('Error event');
+            }
+          });
+          tester.sendStatus('busy');
         });
       });
 
@@ -548,6 +791,166 @@ describe('kernel', () => {
       });
     });
 
+    context('#ready', () => {
+
+      it('should resolve when the kernel is connected', (done) => {
+        createKernel().then(kernel => {
+          return kernel.ready.then(() => {
+            expect(kernel.info).to.not.be(null);
+            kernel.dispose();
+          });
+        }).then(done, done);
+      });
+
+      it('should be re-armed on reconnect', (done) => {
+        createKernel().then(kernel => {
+          return kernel.ready.then(() => {
+            let ready = kernel.ready;
+            let promise = kernel.reconnect();
+            expect(kernel.ready).to.not.be(ready);
+            expect(kernel.ready).to.be(promise);
+            return kernel.ready;
+          }).then(() => {
+            kernel.dispose();
+          });
+        }).then(done, done);
+      });
+
+      it('should be re-armed when the connection is lost', (done) => {
+        let tester = new KernelTester();
+        createKernel(tester).then(kernel => {
+          return kernel.ready.then(() => {
+            let ready = kernel.ready;
+            kernel.connectionStatusChanged.connect(() => {
+              if (kernel.connectionStatus === 'disconnected') {
+                expect(kernel.ready).to.not.be(ready);
+                kernel.dispose();
+                done();
+              }
+            });
+            tester.triggerError('Error event');
+          });
+        }).catch(done);
+      });
+
+      it('should be re-armed on restart', (done) => {
+        let tester = new KernelTester();
+        createKernel(tester).then(kernel => {
+          return kernel.ready.then(() => {
+            let ready = kernel.ready;
+            tester.onRequest = () => {
+              tester.respond(200, { id: kernel.id, name: kernel.name });
+              tester.sendStatus('starting');
+            };
+            kernel.restart();
+            expect(kernel.ready).to.not.be(ready);
+            return kernel.ready;
+          }).then(() => {
+            kernel.dispose();
+          });
+        }).then(done, done);
+      });
+
+    });
+
+    context('#latency', () => {
+
+      it('should be -1 by default', (done) => {
+        createKernel().then(kernel => {
+          expect(kernel.latency).to.be(-1);
+          kernel.dispose();
+        }).then(done, done);
+      });
+
+      it('should be set once the kernel is connected', (done) => {
+        let tester = new KernelTester();
+        createKernel(tester).then(kernel => {
+          return kernel.reconnect().then(() => {
+            expect(kernel.latency).to.not.be.lessThan(0);
+            kernel.dispose();
+          });
+        }).then(done, done);
+      });
+
+      it('should be updated by the liveness checks', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          heartbeatInterval: 10
+        };
+        Kernel.startNew(options).then(kernel => {
+          let count = 0;
+          tester.onConnect(server => {
+            server.onmessage = (msg: any) => {
+              let data = deserialize(msg.data);
+              if (data.header.msg_type === 'kernel_info_request') {
+                data.parent_header = data.header;
+                data.header.msg_type = 'kernel_info_reply';
+                data.content = EXAMPLE_KERNEL_INFO;
+                tester.send(data);
+                if (++count === 2) {
+                  doLater(() => {
+                    expect(kernel.latency).to.not.be.lessThan(0);
+                    kernel.dispose();
+                    done();
+                  });
+                }
+              }
+            };
+          });
+        });
+      });
+
+      it('should reconnect if a liveness check times out', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          heartbeatInterval: 10,
+          heartbeatTimeout: 10
+        };
+        Kernel.startNew(options).then(kernel => {
+          kernel.connectionAttempt.connect(() => {
+            expect(kernel.connectionStatus).to.be('disconnected');
+            kernel.dispose();
+            done();
+          });
+          tester.onConnect(server => {
+            server.onmessage = () => { /* no-op */ };
+          });
+        });
+      });
+
+      it('should reconnect if a busy kernel stops sending messages', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let options: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          heartbeatInterval: 10,
+          heartbeatTimeout: 10
+        };
+        Kernel.startNew(options).then(kernel => {
+          kernel.connectionAttempt.connect(() => {
+            expect(kernel.connectionStatus).to.be('disconnected');
+            kernel.dispose();
+            done();
+          });
+          tester.onConnect(server => {
+            server.onmessage = () => { /* no-op */ };
+            tester.sendStatus('busy');
+          });
+        });
+      });
+
+    });
+
     context('#info', () => {
 
       it('should be null by default', (done) => {
@@ -849,6 +1252,29 @@ describe('kernel', () => {
         });
       });
 
+      it('should restore the status and the ready promise on failure', (done) => {
+        let tester = new KernelTester();
+        createKernel(tester).then(kernel => {
+          return kernel.ready.then(() => {
+            let status = kernel.status;
+            tester.onRequest = () => {
+              tester.respond(500, {});
+            };
+            let restart = kernel.restart();
+            expect(kernel.status).to.be('restarting');
+            return restart.then(() => {
+              throw new Error('Restart should fail');
+            }, () => {
+              expect(kernel.status).to.be(status);
+              expect(kernel.connectionStatus).to.be('connected');
+              return kernel.ready;
+            });
+          }).then(() => {
+            kernel.dispose();
+          });
+        }).then(done, done);
+      });
+
       it('should throw an error for an invalid response', (done) => {
         let tester = new KernelTester();
         createKernel(tester).then(kernel => {
@@ -911,13 +1337,30 @@ describe('kernel', () => {
         });
       });
 
-      it("should emit a `'reconnecting'` status", (done) => {
+      it("should emit a `'connecting'` connection status", (done) => {
         let tester = new KernelTester();
         createKernel(tester).then(kernel => {
           kernel.reconnect().then(() => {
+            expect(kernel.connectionStatus).to.be('connected');
             done();
           });
-          expect(kernel.status).to.be('reconnecting');
+          expect(kernel.connectionStatus).to.be('connecting');
+        });
+      });
+
+      it('should use a given reconnect policy', (done) => {
+        let tester = new KernelTester();
+        createKernel(tester).then(kernel => {
+          let failed = false;
+          kernel.connectionFailed.connect(() => {
+            failed = true;
+          });
+          let promise = kernel.reconnect({ maxAttempts: 0 });
+          tester.triggerError('Error event');
+          expectFailure(promise, () => {
+            expect(failed).to.be(true);
+            done();
+          }, 'Kernel connection failed');
         });
       });
 
@@ -1052,9 +1495,16 @@ describe('kernel', () => {
         });
       });
 
-      it('should delay the promise if the kernel is reconnecting', (done) => {
-        let tester = new KernelTester();
-        createKernel(tester).then(kernel => {
+      it('should delay the promise if the kernel is disconnected', (done) => {
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        let kernelOptions: Kernel.IOptions = {
+          baseUrl: 'http://localhost:8888',
+          name: 'python',
+          reconnectPolicy: { baseDelay: 10 }
+        };
+        Kernel.startNew(kernelOptions).then(kernel => {
           let options: KernelMessage.IInspectRequest = {
             code: 'hello',
             cursor_pos: 4,
@@ -1069,11 +1519,13 @@ describe('kernel', () => {
             tester.send(msg);
           });
           let promise: Promise<KernelMessage.IInspectReplyMsg>;
-          kernel.statusChanged.connect(() => {
-            if (kernel.status === 'reconnecting') {
+          kernel.connectionStatusChanged.connect(() => {
+            if (kernel.connectionStatus === 'disconnected') {
               promise = kernel.inspect(options);
               tester.sendStatus('idle');
             }
+          });
+          kernel.statusChanged.connect(() => {
             if (kernel.status === 'idle') {
               expect(called).to.be(false);
               promise.then(() => {
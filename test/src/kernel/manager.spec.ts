@@ -8,9 +8,13 @@ import {
 } from 'phosphor/lib/algorithm/json';
 
 import {
-  uuid
+  CancellationToken, uuid
 } from '../../../lib/utils';
 
+import {
+  CancellationError
+} from '../../../lib/errors';
+
 import {
   KernelManager, Kernel
 } from '../../../lib/kernel';
@@ -20,7 +24,7 @@ import {
 } from '../../../lib/mockkernel';
 
 import {
-  RequestHandler, KernelTester, KERNEL_OPTIONS, PYTHON_SPEC
+  RequestHandler, KernelTester, KERNEL_OPTIONS, PYTHON_SPEC, expectRejection
 } from '../utils';
 
 
@@ -121,6 +125,32 @@ describe('kernel/manager', () => {
         });
       });
 
+      it('should share a request made by concurrent calls', (done) => {
+        let manager = new KernelManager(KERNEL_OPTIONS);
+        let data = [{ id: uuid(), name: 'test' }];
+        let count = 0;
+        let handler = new RequestHandler(() => {
+          count++;
+          handler.respond(200, data);
+        });
+        Promise.all([manager.listRunning(), manager.listRunning()]).then(responses => {
+          expect(count).to.be(1);
+          expect(responses[0]).to.eql(data);
+          expect(responses[1]).to.eql(data);
+        }).then(done, done);
+      });
+
+      it('should accept a cancellation token', (done) => {
+        let manager = new KernelManager(KERNEL_OPTIONS);
+        let token = new CancellationToken();
+        let handler = new RequestHandler(() => {
+          token.cancel();
+        });
+        expectRejection(manager.listRunning(null, token)).then(error => {
+          expect(error).to.be.a(CancellationError);
+        }).then(done, done);
+      });
+
     });
 
     describe('#startNew()', () => {
@@ -142,6 +172,26 @@ describe('kernel/manager', () => {
 
       });
 
+      it('should use the socket factory of the manager', (done) => {
+        let urls: string[] = [];
+        let manager = new KernelManager({
+          baseUrl: KERNEL_OPTIONS.baseUrl,
+          name: KERNEL_OPTIONS.name,
+          socketFactory: (url: string) => {
+            urls.push(url);
+            return new WebSocket(url);
+          }
+        });
+        let tester = new KernelTester(() => {
+          tester.respond(201, { id: uuid(), name: KERNEL_OPTIONS.name });
+        });
+        manager.startNew().then(kernel => {
+          expect(urls.length).to.be(1);
+          kernel.dispose();
+          done();
+        }).catch(done);
+      });
+
     });
 
     describe('#findById()', () => {
@@ -161,6 +211,17 @@ describe('kernel/manager', () => {
         });
       });
 
+      it('should reject with a cancellation error', (done) => {
+        let manager = new KernelManager(KERNEL_OPTIONS);
+        let token = new CancellationToken();
+        let handler = new RequestHandler(() => {
+          token.cancel();
+        });
+        expectRejection(manager.findById(uuid(), null, token)).then(error => {
+          expect(error).to.be.a(CancellationError);
+        }).then(done, done);
+      });
+
     });
 
     describe('#connectTo()', () => {
@@ -7,6 +7,10 @@ import {
   Kernel, KernelMessage
 } from '../../../lib/kernel';
 
+import {
+  ValidationError
+} from '../../../lib/errors';
+
 import {
   validateMessage, validateModel, validateSpecModel, validateSpecModels
 } from '../../../lib/kernel/validate';
@@ -35,6 +39,16 @@ describe('kernel/validate', () => {
       expect(() => validateMessage(msg)).to.throwError();
     });
 
+    it('should throw a validation error', () => {
+      let msg = KernelMessage.createMessage({
+        msgType: 'comm_msg', channel: 'iopub', session: 'baz'
+      });
+      delete msg.channel;
+      expect(() => validateMessage(msg)).to.throwError((error: any) => {
+        expect(error).to.be.a(ValidationError);
+      });
+    });
+
     it('should throw if a field is invalid', () => {
       let msg = KernelMessage.createMessage({
         msgType: 'comm_msg', channel: 'iopub', session: 'baz'
@@ -8,9 +8,13 @@ import {
 } from 'phosphor/lib/algorithm/json';
 
 import {
-  uuid
+  CancellationToken, uuid
 } from '../../../lib/utils';
 
+import {
+  CancellationError
+} from '../../../lib/errors';
+
 import {
   KERNELSPECS
 } from '../../../lib/mockkernel';
@@ -20,7 +24,7 @@ import {
 } from '../../../lib/session';
 
 import {
-  RequestHandler, KernelTester
+  RequestHandler, KernelTester, expectRejection
 } from '../utils';
 
 
@@ -115,6 +119,17 @@ describe('session', () => {
 
       });
 
+      it('should accept a cancellation token', (done) => {
+        let manager = new SessionManager(createSessionOptions());
+        let token = new CancellationToken();
+        let handler = new RequestHandler(() => {
+          token.cancel();
+        });
+        expectRejection(manager.listRunning(null, token)).then(error => {
+          expect(error).to.be.a(CancellationError);
+        }).then(done, done);
+      });
+
     });
 
     describe('#startNew()', () => {
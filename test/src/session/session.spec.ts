@@ -7,6 +7,10 @@ import {
   uuid, IAjaxError
 } from '../../../lib/utils';
 
+import {
+  ResponseError
+} from '../../../lib/errors';
+
 import {
   KernelMessage
 } from '../../../lib/kernel';
@@ -158,6 +162,30 @@ describe('session', () => {
       });
     });
 
+    it('should pass the socket factory to the kernel', (done) => {
+      let sessionModel = createSessionModel();
+      let tester = new KernelTester(request => {
+        if (request.method === 'POST') {
+          tester.respond(201, sessionModel);
+        } else {
+          tester.respond(200, { name: sessionModel.kernel.name,
+                                  id: sessionModel.kernel.id });
+        }
+      });
+      let urls: string[] = [];
+      let options = createSessionOptions(sessionModel);
+      options.socketFactory = (url: string) => {
+        urls.push(url);
+        return new WebSocket(url);
+      };
+      Session.startNew(options).then(session => {
+        expect(urls.length).to.be(1);
+        expect(urls[0]).to.contain(sessionModel.kernel.id);
+        session.dispose();
+        done();
+      }).catch(done);
+    });
+
     it('should be able connect to an existing kernel', (done) => {
       let sessionModel = createSessionModel();
       let tester = new KernelTester();
@@ -269,6 +297,40 @@ describe('session', () => {
       let sessionPromise = Session.startNew(options);
       expectFailure(sessionPromise, done, 'Session failed to start');
     });
+
+    it('should reject with a response error when the session fails to start', (done) => {
+      let tester = new KernelTester(() => {
+        tester.respond(500, { message: 'No session' });
+      });
+      let sessionModel = createSessionModel();
+      let options = createSessionOptions(sessionModel);
+      Session.startNew(options).then(() => {
+        throw new Error('Session should not start');
+      }, error => {
+        expect(error).to.be.a(ResponseError);
+        expect(error.status).to.be(500);
+      }).then(done, done);
+    });
+
+    it('should keep the response error when the kernel is not running', (done) => {
+      let sessionModel = createSessionModel();
+      let tester = new KernelTester(request => {
+        if (request.method === 'POST') {
+          tester.respond(201, sessionModel);
+        } else {
+          tester.respond(404, { message: 'Not found' });
+        }
+      });
+      let options = createSessionOptions(sessionModel);
+      Session.startNew(options).then(() => {
+        throw new Error('Session should not start');
+      }, error => {
+        expect(error).to.be.a(ResponseError);
+        expect(error.status).to.be(404);
+        expect(error.message).to.be('Not found');
+        expect(error.throwError).to.contain('Session failed to start');
+      }).then(done, done);
+    });
   });
 
   describe('Session.findByPath()', () => {
@@ -447,6 +509,24 @@ describe('session', () => {
       });
     });
 
+    context('#connectionStatusChanged', () => {
+
+      it('should emit when the kernel connection status changes', (done) => {
+        let tester = new KernelTester();
+        let sessionModel = createSessionModel();
+        startSession(sessionModel, tester).then(session => {
+          session.connectionStatusChanged.connect((s, status) => {
+            if (status === 'disconnected') {
+              expect(s.connectionStatus).to.be('disconnected');
+              s.dispose();
+              done();
+            }
+          });
+          tester.triggerError('Error event');
+        });
+      });
+    });
+
     context('#iopubMessage', () => {
 
       it('should be emitted for an iopub message', (done) => {
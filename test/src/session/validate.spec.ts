@@ -7,6 +7,10 @@ import {
   Session
 } from '../../../lib/session';
 
+import {
+  ValidationError
+} from '../../../lib/errors';
+
 import {
   validateModel
 } from '../../../lib/session/validate';
@@ -30,7 +34,9 @@ describe('session/validate', () => {
         id: 'foo',
         kernel: { name: 'foo', id: '123'},
       };
-      expect(() => validateModel(id)).to.throwError();
+      expect(() => validateModel(id)).to.throwError((error: any) => {
+        expect(error).to.be.a(ValidationError);
+      });
     });
 
   });
@@ -16,7 +16,15 @@ import {
 } from '../../../lib/terminal';
 
 import {
-  RequestHandler
+  CancellationError
+} from '../../../lib/errors';
+
+import {
+  CancellationToken
+} from '../../../lib/utils';
+
+import {
+  RequestHandler, expectRejection
 } from '../utils';
 
 
@@ -34,6 +42,35 @@ describe('terminals', () => {
       }).catch(done);
     });
 
+    it('should accept a socket factory', (done) => {
+      let urls: string[] = [];
+      let socketFactory = (url: string) => {
+        urls.push(url);
+        return new WebSocket(url);
+      };
+      TerminalSession.open({ name: 'bar', socketFactory }).then(session => {
+        expect(urls).to.eql([session.url]);
+        session.dispose();
+        done();
+      }).catch(done);
+    });
+
+    it('should add the token to the websocket url', (done) => {
+      let urls: string[] = [];
+      let socketFactory = (url: string) => {
+        urls.push(url);
+        return new WebSocket(url);
+      };
+      let options: TerminalSession.IOptions = {
+        name: 'token', ajaxSettings: { token: 'abc' }, socketFactory
+      };
+      TerminalSession.open(options).then(session => {
+        expect(urls).to.eql([session.url + '?token=abc']);
+        session.dispose();
+        done();
+      }).catch(done);
+    });
+
     it('should give back an existing session', (done) => {
       TerminalSession.open({ name: 'foo' }).then(session => {
         return TerminalSession.open({ name: 'foo' }).then(newSession => {
@@ -78,6 +115,33 @@ describe('terminals', () => {
         }).catch(done);
       });
 
+      it('should use the socket factory of the manager', (done) => {
+        let urls: string[] = [];
+        let manager = new TerminalManager({
+          socketFactory: (url: string) => {
+            urls.push(url);
+            return new WebSocket(url);
+          }
+        });
+        manager.create({ name: 'baz' }).then(session => {
+          expect(urls).to.eql([session.url]);
+          session.dispose();
+          done();
+        }).catch(done);
+      });
+
+      it('should not modify the options', (done) => {
+        let manager = new TerminalManager({
+          socketFactory: (url: string) => new WebSocket(url)
+        });
+        let options: TerminalSession.IOptions = { name: 'qux' };
+        manager.create(options).then(session => {
+          expect(options).to.eql({ name: 'qux' });
+          session.dispose();
+          done();
+        }).catch(done);
+      });
+
     });
 
     describe('#shutdown()', () => {
@@ -128,6 +192,17 @@ describe('terminals', () => {
         }).catch(done);
       });
 
+      it('should accept a cancellation token', (done) => {
+        let token = new CancellationToken();
+        let handler = new RequestHandler(() => {
+          token.cancel();
+        });
+        let manager = new TerminalManager();
+        expectRejection(manager.listRunning(token)).then(error => {
+          expect(error).to.be.a(CancellationError);
+        }).then(done, done);
+      });
+
     });
 
   });
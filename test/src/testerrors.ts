@@ -0,0 +1,204 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  Contents
+} from '../../lib/contents';
+
+import {
+  CancellationError, ConflictError, ResponseError, ServerConnectionError,
+  ValidationError
+} from '../../lib/errors';
+
+
+/**
+ * Create an object which stands in for a completed request.
+ */
+function createXhr(status: number, responseText: string): XMLHttpRequest {
+  return { status, responseText } as XMLHttpRequest;
+}
+
+
+describe('errors', () => {
+
+  describe('ServerConnectionError', () => {
+
+    describe('#constructor()', () => {
+
+      it('should create a server connection error', () => {
+        let error = new ServerConnectionError({
+          xhr: null, event: null, ajaxSettings: {}, throwError: 'foo'
+        });
+        expect(error).to.be.a(ServerConnectionError);
+        expect(error).to.be.an(Error);
+        expect(error.name).to.be('ServerConnectionError');
+        expect(error.message).to.be('foo');
+        expect(error.throwError).to.be('foo');
+        expect(error.stack).to.contain('foo');
+      });
+
+      it('should have a default message', () => {
+        let error = new ServerConnectionError({
+          xhr: null, event: null, ajaxSettings: {}
+        });
+        expect(error.message).to.be('Could not connect to the server');
+      });
+
+    });
+
+  });
+
+  describe('ResponseError', () => {
+
+    describe('#constructor()', () => {
+
+      it('should create a response error', () => {
+        let xhr = createXhr(400, '');
+        let error = new ResponseError({
+          xhr, event: null, ajaxSettings: {}, throwError: 'foo'
+        });
+        expect(error).to.be.a(ResponseError);
+        expect(error).to.be.an(Error);
+        expect(error.name).to.be('ResponseError');
+        expect(error.xhr).to.be(xhr);
+        expect(error.throwError).to.be('foo');
+      });
+
+    });
+
+    describe('#status', () => {
+
+      it('should be the status of the response', () => {
+        let error = new ResponseError({
+          xhr: createXhr(500, ''), event: null, ajaxSettings: {}
+        });
+        expect(error.status).to.be(500);
+      });
+
+    });
+
+    describe('#message', () => {
+
+      it('should be the message given by the server', () => {
+        let text = JSON.stringify({ message: 'bar' });
+        let error = new ResponseError({
+          xhr: createXhr(500, text), event: null, ajaxSettings: {},
+          throwError: 'foo'
+        });
+        expect(error.message).to.be('bar');
+      });
+
+      it('should default to the throw error', () => {
+        let error = new ResponseError({
+          xhr: createXhr(500, 'baz'), event: null, ajaxSettings: {},
+          throwError: 'foo'
+        });
+        expect(error.message).to.be('foo');
+      });
+
+      it('should default to the status', () => {
+        let error = new ResponseError({
+          xhr: createXhr(500, ''), event: null, ajaxSettings: {}
+        });
+        expect(error.message).to.be('Invalid Status: 500');
+      });
+
+    });
+
+    describe('#traceback', () => {
+
+      it('should be the traceback given by the server', () => {
+        let text = JSON.stringify({ message: 'bar', traceback: 'baz' });
+        let error = new ResponseError({
+          xhr: createXhr(500, text), event: null, ajaxSettings: {}
+        });
+        expect(error.traceback).to.be('baz');
+      });
+
+      it('should default to an empty string', () => {
+        let error = new ResponseError({
+          xhr: createXhr(500, ''), event: null, ajaxSettings: {}
+        });
+        expect(error.traceback).to.be('');
+      });
+
+    });
+
+  });
+
+  describe('CancellationError', () => {
+
+    describe('#constructor()', () => {
+
+      it('should create a cancellation error', () => {
+        let error = new CancellationError({
+          xhr: null, event: null, ajaxSettings: {}, throwError: 'foo'
+        });
+        expect(error).to.be.a(CancellationError);
+        expect(error).to.be.an(Error);
+        expect(error.name).to.be('CancellationError');
+        expect(error.message).to.be('foo');
+      });
+
+      it('should have a default message', () => {
+        let error = new CancellationError({
+          xhr: null, event: null, ajaxSettings: {}
+        });
+        expect(error.message).to.be('The request was cancelled');
+      });
+
+    });
+
+  });
+
+  describe('ValidationError', () => {
+
+    describe('#constructor()', () => {
+
+      it('should create a validation error', () => {
+        let error = new ValidationError('foo');
+        expect(error).to.be.a(ValidationError);
+        expect(error).to.be.an(Error);
+        expect(error.name).to.be('ValidationError');
+        expect(error.message).to.be('foo');
+      });
+
+      it('should keep the invalid response', () => {
+        let xhr = createXhr(200, '{}');
+        let error = new ValidationError('foo', {
+          xhr, event: null, ajaxSettings: {}, throwError: 'foo'
+        });
+        expect(error.message).to.be('foo');
+        expect(error.xhr).to.be(xhr);
+        expect(error.throwError).to.be('foo');
+      });
+
+    });
+
+  });
+
+  describe('ConflictError', () => {
+
+    describe('#constructor()', () => {
+
+      it('should create a conflict error with both models', () => {
+        let model: Contents.IModel = { type: 'file', content: 'a' };
+        let currentModel: Contents.IModel = { type: 'file', last_modified: 'later' };
+        let error = new ConflictError('foo', model, currentModel);
+        expect(error).to.be.a(ConflictError);
+        expect(error).to.be.an(Error);
+        expect(error.name).to.be('ConflictError');
+        expect(error.message).to.be('File changed since it was loaded: foo');
+        expect(error.path).to.be('foo');
+        expect(error.model).to.be(model);
+        expect(error.currentModel).to.be(currentModel);
+      });
+
+    });
+
+  });
+
+});
@@ -13,7 +13,7 @@ import {
 } from 'phosphor/lib/algorithm/json';
 
 import {
-  IServiceManager, createServiceManager
+  IServiceManager, ServiceManager, createServiceManager
 } from '../../lib/manager';
 
 import {
@@ -33,7 +33,15 @@ import {
 } from '../../lib/terminal';
 
 import {
-  RequestHandler
+  ConfigSection
+} from '../../lib/config';
+
+import {
+  IAjaxRequest, IAjaxSettings, IAjaxSuccess, registerTransport
+} from '../../lib/utils';
+
+import {
+  DEFAULT_FILE, RequestHandler
 } from './utils';
 
 
@@ -62,6 +70,186 @@ describe('manager', () => {
       }).catch(done);
     });
 
+    it('should use the given request transport', (done) => {
+      let urls: string[] = [];
+      let disposable = registerTransport('test', {
+        send: (url: string, ajaxSettings: IAjaxSettings) => {
+          urls.push(url);
+          let success: IAjaxSuccess = {
+            xhr: { status: 200 } as XMLHttpRequest,
+            event: null,
+            ajaxSettings,
+            data: KERNELSPECS
+          };
+          return Promise.resolve(success);
+        }
+      });
+      createServiceManager({ transport: 'test' }).then(manager => {
+        expect(urls.length).to.be(1);
+        expect(manager.kernelspecs).to.eql(KERNELSPECS);
+        return manager.kernels.getSpecs();
+      }).then(() => {
+        expect(urls.length).to.be(2);
+        disposable.dispose();
+        done();
+      }).catch(done);
+    });
+
+    it('should use the given token', (done) => {
+      let handler = new RequestHandler(request => {
+        expect(request.requestHeaders['Authorization']).to.be('token abc');
+        if (request.url.indexOf('api/terminals') !== -1) {
+          handler.respond(200, []);
+        } else {
+          handler.respond(200, KERNELSPECS);
+        }
+      });
+      createServiceManager({ token: 'abc' }).then(manager => {
+        expect(manager.kernelspecs).to.eql(KERNELSPECS);
+        return manager.terminals.listRunning();
+      }).then(() => {
+        done();
+      }).catch(done);
+    });
+
+    it('should use the given interceptors', (done) => {
+      let urls: string[] = [];
+      let interceptor = {
+        beforeRequest: (request: IAjaxRequest) => {
+          urls.push(request.url);
+          return request;
+        }
+      };
+      let handler = new RequestHandler(() => {
+        handler.respond(200, KERNELSPECS);
+      });
+      createServiceManager({ interceptors: [interceptor] }).then(manager => {
+        expect(urls.length).to.be(1);
+        expect(manager.kernelspecs).to.eql(KERNELSPECS);
+        manager.dispose();
+        done();
+      }).catch(done);
+    });
+
+    it('should pass the socket factory to the managers', (done) => {
+      let urls: string[] = [];
+      let options = {
+        kernelspecs: KERNELSPECS,
+        socketFactory: (url: string) => {
+          urls.push(url);
+          return new WebSocket(url);
+        }
+      };
+      createServiceManager(options).then(manager => {
+        return manager.terminals.create({ name: 'qux' });
+      }).then(session => {
+        expect(urls).to.eql([session.url]);
+        session.dispose();
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('ServiceManager', () => {
+
+    let manager: ServiceManager;
+    let urls: string[];
+
+    beforeEach(() => {
+      urls = [];
+      manager = new ServiceManager({ kernelspecs: KERNELSPECS });
+      manager.addInterceptor({
+        beforeRequest: request => {
+          urls.push(request.url);
+          return request;
+        }
+      });
+    });
+
+    afterEach(() => {
+      manager.dispose();
+    });
+
+    describe('#ajaxSettings', () => {
+
+      it('should select the interceptor group of the manager', () => {
+        expect(manager.ajaxSettings.interceptors).to.be.ok();
+      });
+
+      it('should be usable by config sections', (done) => {
+        let handler = new RequestHandler(() => {
+          handler.respond(200, {});
+        });
+        ConfigSection.create({
+          name: 'notebook',
+          baseUrl: 'http://localhost:8888',
+          ajaxSettings: manager.ajaxSettings
+        }).then(() => {
+          expect(urls[0]).to.contain('api/config/notebook');
+        }).then(done, done);
+      });
+
+    });
+
+    describe('#addInterceptor()', () => {
+
+      it('should intercept the requests of the kernel manager', (done) => {
+        let handler = new RequestHandler(() => {
+          handler.respond(200, KERNELSPECS);
+        });
+        manager.kernels.getSpecs().then(() => {
+          expect(urls[0]).to.contain('api/kernelspecs');
+        }).then(done, done);
+      });
+
+      it('should intercept the requests of the contents manager', (done) => {
+        let handler = new RequestHandler(() => {
+          handler.respond(200, DEFAULT_FILE);
+        });
+        manager.contents.get('/foo').then(() => {
+          expect(urls[0]).to.contain('api/contents/foo');
+        }).then(done, done);
+      });
+
+      it('should intercept the requests of the session manager', (done) => {
+        let handler = new RequestHandler(() => {
+          handler.respond(200, []);
+        });
+        manager.sessions.listRunning().then(() => {
+          expect(urls[0]).to.contain('api/sessions');
+        }).then(done, done);
+      });
+
+      it('should intercept the requests of the terminal manager', (done) => {
+        let handler = new RequestHandler(() => {
+          handler.respond(200, []);
+        });
+        manager.terminals.listRunning().then(() => {
+          expect(urls[0]).to.contain('api/terminals');
+        }).then(done, done);
+      });
+
+      it('should return a disposable which removes the interceptor', (done) => {
+        let count = 0;
+        let disposable = manager.addInterceptor({
+          beforeRequest: request => {
+            count++;
+            return request;
+          }
+        });
+        disposable.dispose();
+        let handler = new RequestHandler(() => {
+          handler.respond(200, []);
+        });
+        manager.terminals.listRunning().then(() => {
+          expect(count).to.be(0);
+          expect(urls.length).to.be(1);
+        }).then(done, done);
+      });
+
+    });
+
   });
 
   describe('SessionManager', () => {
@@ -154,6 +342,27 @@ describe('manager', () => {
 
     });
 
+    describe('#addInterceptor()', () => {
+
+      it('should intercept the requests of the managers', (done) => {
+        let urls: string[] = [];
+        let disposable = manager.addInterceptor({
+          beforeRequest: request => {
+            urls.push(request.url);
+            return request;
+          }
+        });
+        let handler = new RequestHandler(() => {
+          handler.respond(200, []);
+        });
+        manager.terminals.listRunning().then(() => {
+          expect(urls[0]).to.contain('api/terminals');
+          disposable.dispose();
+        }).then(done, done);
+      });
+
+    });
+
   });
 
 });
@@ -0,0 +1,64 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  Contents
+} from '../../lib/contents';
+
+import {
+  MockContentsManager
+} from '../../lib/mockcontents';
+
+
+describe('mockcontents', () => {
+
+  describe('MockContentsManager', () => {
+
+    describe('#upload()', () => {
+
+      it('should save the data in chunks', (done) => {
+        let manager = new MockContentsManager();
+        let progress: Contents.IUploadProgress[] = [];
+        let data = new Uint8Array([104, 105, 33, 104, 105]);
+        manager.upload('foo/bar', data, {
+          chunkSize: 2,
+          onProgress: value => { progress.push(value); }
+        }).then(model => {
+          expect(manager.methods).to.eql(['upload']);
+          expect(model.name).to.be('bar');
+          expect(model.format).to.be('base64');
+          expect(model.content).to.be('aGkhaGk=');
+          expect(progress.map(value => value.chunk)).to.eql([1, 2, 3]);
+          return manager.get('foo/bar');
+        }).then(model => {
+          expect(model.content).to.be('aGkhaGk=');
+        }).then(done, done);
+      });
+
+      it('should resume from the start chunk', (done) => {
+        let manager = new MockContentsManager();
+        let data = new Uint8Array([104, 105, 33, 104, 105]);
+        let first = new Uint8Array([104, 105]);
+        manager.upload('foo', first, { chunkSize: 2 }).then(() => {
+          return manager.upload('foo', data, { chunkSize: 2, startChunk: 2 });
+        }).then(model => {
+          expect(model.content).to.be('aGkhaGk=');
+        }).then(done, done);
+      });
+
+      it('should reject an invalid start chunk', (done) => {
+        let manager = new MockContentsManager();
+        let data = new Uint8Array([104]);
+        manager.upload('foo', data, { startChunk: 2 }).catch(error => {
+          expect(error.message).to.be('Invalid start chunk: 2');
+        }).then(done, done);
+      });
+
+    });
+
+  });
+
+});
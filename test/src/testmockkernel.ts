@@ -44,6 +44,28 @@ describe('mockkernel', () => {
 
     });
 
+    describe('#ready', () => {
+
+      it('should resolve when the kernel is idle', (done) => {
+        let kernel = new MockKernel();
+        kernel.ready.then(() => {
+          expect(kernel.status).to.be('idle');
+          done();
+        });
+      });
+
+      it('should be re-armed on restart', (done) => {
+        let kernel = new MockKernel();
+        kernel.ready.then(() => {
+          let ready = kernel.ready;
+          kernel.restart();
+          expect(kernel.ready).to.not.be(ready);
+          return kernel.ready;
+        }).then(done, done);
+      });
+
+    });
+
     describe('#restart()', () => {
 
       it('should change the status to restarting then idle', (done) => {
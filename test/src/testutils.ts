@@ -11,15 +11,28 @@ import {
 } from 'phosphor/lib/algorithm/json';
 
 import {
-  PromiseDelegate, extend, copy, uuid, urlPathJoin, urlEncodeParts,
-  jsonToQueryString, getConfigOption,
-  getBaseUrl, getWsUrl, ajaxRequest, loadObject
+  PromiseDelegate, extend, copy, copyOptions, uuid, urlPathJoin,
+  urlEncodeParts, jsonToQueryString, getConfigOption,
+  getBaseUrl, getWsUrl, ajaxRequest, loadObject, registerTransport,
+  getTransport, IAjaxSettings, IAjaxSuccess, FetchTransport, XHRTransport,
+  registerInterceptor, getInterceptors, getToken, addTokenParam,
+  CookieJar, cookieJar, login, CancellationToken, IRetryPolicy,
+  getRequestMetrics, resetRequestMetrics, IAjaxProgress, getByteLength,
+  readBytes, encodeBytes, encodeUtf8, decodeUtf8
 } from '../../lib/utils';
 
 import {
   MockXMLHttpRequest
 } from '../../lib/mockxhr';
 
+import {
+  CancellationError, ResponseError, ServerConnectionError
+} from '../../lib/errors';
+
+import {
+  expectRejection
+} from './utils';
+
 
 declare var global: any;
 global.requirejs = requirejs;
@@ -60,6 +73,28 @@ describe('jupyter-js-utils', () => {
 
   });
 
+  describe('copyOptions()', () => {
+
+    it('should get a deep copy of an options object', () => {
+      let source = {
+        foo: 'bar',
+        baz: { fizz: 0, buzz: [1, 2]}
+      };
+      let newObj = copyOptions(source);
+      expect(newObj.baz.buzz).to.eql([1, 2]);
+      newObj.baz.fizz = 4;
+      expect(source.baz.fizz).to.be(0);
+    });
+
+    it('should preserve function values', () => {
+      let factory = (url: string) => url;
+      let newObj = copyOptions({ factory, nested: { factory } });
+      expect(newObj.factory).to.be(factory);
+      expect(newObj.nested.factory).to.be(factory);
+    });
+
+  });
+
   describe('uuid()', () => {
 
     it('should generate a random 32 character hex string', () => {
@@ -72,6 +107,95 @@ describe('jupyter-js-utils', () => {
 
   });
 
+  describe('getByteLength()', () => {
+
+    it('should get the length of a buffer', () => {
+      expect(getByteLength(new ArrayBuffer(3))).to.be(3);
+      expect(getByteLength(new Uint8Array([1, 2]))).to.be(2);
+    });
+
+    it('should get the size of a blob', () => {
+      let blob = { size: 4 } as Blob;
+      expect(getByteLength(blob)).to.be(4);
+    });
+
+  });
+
+  describe('readBytes()', () => {
+
+    it('should read a range of bytes from a buffer', (done) => {
+      let buffer = new Uint8Array([1, 2, 3, 4]).buffer;
+      readBytes(buffer, 1, 3).then(bytes => {
+        expect(Array.prototype.slice.call(bytes)).to.eql([2, 3]);
+      }).then(done, done);
+    });
+
+    it('should read a range of bytes from a view', (done) => {
+      let view = new Uint8Array([1, 2, 3, 4]).subarray(1);
+      readBytes(view, 1).then(bytes => {
+        expect(Array.prototype.slice.call(bytes)).to.eql([3, 4]);
+      }).then(done, done);
+    });
+
+    it('should clamp the range to the data', (done) => {
+      readBytes(new Uint8Array([1, 2]), 1, 10).then(bytes => {
+        expect(Array.prototype.slice.call(bytes)).to.eql([2]);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('encodeBytes()', () => {
+
+    it('should encode bytes as base64', () => {
+      let bytes = new Uint8Array([104, 105, 33, 255]);
+      expect(encodeBytes(bytes)).to.be('aGkh/w==');
+    });
+
+    it('should encode bytes using btoa when available', () => {
+      global.btoa = (value: string) => {
+        return new global.Buffer(value, 'binary').toString('base64');
+      };
+      try {
+        let bytes = new Uint8Array([104, 105, 33, 255]);
+        expect(encodeBytes(bytes)).to.be('aGkh/w==');
+      } finally {
+        delete global.btoa;
+      }
+    });
+
+  });
+
+  describe('encodeUtf8()', () => {
+
+    it('should encode a string as UTF-8', () => {
+      let bytes = encodeUtf8('aé€');
+      expect(Array.prototype.slice.call(bytes)).to.eql([
+        97, 0xc3, 0xa9, 0xe2, 0x82, 0xac
+      ]);
+    });
+
+    it('should encode a surrogate pair as a single code point', () => {
+      let bytes = encodeUtf8('😀');
+      expect(Array.prototype.slice.call(bytes)).to.eql([0xf0, 0x9f, 0x98, 0x80]);
+    });
+
+  });
+
+  describe('decodeUtf8()', () => {
+
+    it('should decode UTF-8 bytes as a string', () => {
+      let bytes = new Uint8Array([97, 0xc3, 0xa9, 0xf0, 0x9f, 0x98, 0x80]);
+      expect(decodeUtf8(bytes)).to.be('aé😀');
+    });
+
+    it('should throw an error for invalid UTF-8 data', () => {
+      let bytes = new Uint8Array([0xc3]);
+      expect(() => { decodeUtf8(bytes); }).to.throwError(/Invalid UTF-8 data/);
+    });
+
+  });
+
   describe('#urlPathJoin()', () => {
 
     it('should join a sequence of url components', () => {
@@ -180,6 +304,57 @@ describe('jupyter-js-utils', () => {
 
   });
 
+  describe('CancellationToken', () => {
+
+    describe('#cancelled', () => {
+
+      it('should be emitted when the token is cancelled', () => {
+        let token = new CancellationToken();
+        let called = false;
+        token.cancelled.connect((sender, reason) => {
+          expect(sender).to.be(token);
+          expect(reason).to.be('foo');
+          called = true;
+        });
+        token.cancel('foo');
+        expect(called).to.be(true);
+      });
+
+      it('should only be emitted once', () => {
+        let token = new CancellationToken();
+        let count = 0;
+        token.cancelled.connect(() => { count++; });
+        token.cancel();
+        token.cancel();
+        expect(count).to.be(1);
+      });
+
+    });
+
+    describe('#isCancelled', () => {
+
+      it('should test whether the token is cancelled', () => {
+        let token = new CancellationToken();
+        expect(token.isCancelled).to.be(false);
+        token.cancel();
+        expect(token.isCancelled).to.be(true);
+      });
+
+    });
+
+    describe('#reason', () => {
+
+      it('should be the reason given for the cancellation', () => {
+        let token = new CancellationToken();
+        expect(token.reason).to.be('');
+        token.cancel('foo');
+        expect(token.reason).to.be('foo');
+      });
+
+    });
+
+  });
+
   describe('getBaseUrl()', () => {
 
     it('should get the default base url', () => {
@@ -254,6 +429,345 @@ describe('jupyter-js-utils', () => {
       }).then(done, done);
     });
 
+    it('should reject with a response error for a bad status', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(404, { message: 'Not found', traceback: 'foo' });
+      };
+      ajaxRequest('hello', {}).catch(error => {
+        expect(error).to.be.a(ResponseError);
+        expect(error.status).to.be(404);
+        expect(error.message).to.be('Not found');
+        expect(error.traceback).to.be('foo');
+      }).then(done, done);
+    });
+
+    it('should reject with a server connection error on an error', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        request.error(new Error('Denied!'));
+      };
+      ajaxRequest('hello', {}).catch(error => {
+        expect(error).to.be.a(ServerConnectionError);
+      }).then(done, done);
+    });
+
+    it('should not send a request with a cancelled token', (done) => {
+      MockXMLHttpRequest.requests = [];
+      let token = new CancellationToken();
+      token.cancel('foo');
+      expectRejection(ajaxRequest('hello', {}, { cancelToken: token })).then(error => {
+        expect(error).to.be.a(CancellationError);
+        expect(error.message).to.be('foo');
+        expect(MockXMLHttpRequest.requests.length).to.be(0);
+      }).then(done, done);
+    });
+
+    it('should abort a request when the token is cancelled', (done) => {
+      let token = new CancellationToken();
+      let xhr: MockXMLHttpRequest = null;
+      MockXMLHttpRequest.onRequest = request => {
+        xhr = request;
+        token.cancel();
+      };
+      expectRejection(ajaxRequest('hello', {}, { cancelToken: token })).then(error => {
+        expect(error).to.be.a(CancellationError);
+        expect(error.message).to.be('The request was cancelled');
+        expect(xhr.status).to.be(0);
+      }).then(done, done);
+    });
+
+    it('should cancel a request sent by a custom transport', (done) => {
+      let token = new CancellationToken();
+      let transport = {
+        send: (url: string, ajaxSettings: IAjaxSettings): Promise<IAjaxSuccess> => {
+          token.cancel();
+          return new Promise<IAjaxSuccess>(() => { /* no-op */ });
+        }
+      };
+      let disposable = registerTransport('test', transport);
+      let settings: IAjaxSettings = { transport: 'test' };
+      expectRejection(ajaxRequest('hello', settings, { cancelToken: token })).then(error => {
+        expect(error).to.be.a(CancellationError);
+        disposable.dispose();
+      }).then(done, done);
+    });
+
+    it('should retry a request according to the retry policy', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        if (requests.length < 3) {
+          request.respond(503, '');
+        } else {
+          request.respond(200, 'hello!');
+        }
+      };
+      let retryPolicy: IRetryPolicy = { baseDelay: 0 };
+      ajaxRequest('hello', { retryPolicy }).then(response => {
+        expect(requests.length).to.be(3);
+        expect(response.data).to.be('hello!');
+      }).then(done, done);
+    });
+
+    it('should not retry a request without a retry policy', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(503, '');
+      };
+      ajaxRequest('hello', {}).catch(error => {
+        expect(requests.length).to.be(1);
+        expect(error.status).to.be(503);
+      }).then(done, done);
+    });
+
+    it('should give up after the maximum number of attempts', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(502, '');
+      };
+      let retryPolicy: IRetryPolicy = { baseDelay: 0, maxAttempts: 2 };
+      ajaxRequest('hello', { retryPolicy }).catch(error => {
+        expect(requests.length).to.be(2);
+        expect(error).to.be.a(ResponseError);
+        expect(error.status).to.be(502);
+      }).then(done, done);
+    });
+
+    it('should not retry a status which is not retryable', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(404, '');
+      };
+      let retryPolicy: IRetryPolicy = { baseDelay: 0 };
+      ajaxRequest('hello', { retryPolicy }).catch(error => {
+        expect(requests.length).to.be(1);
+        expect(error.status).to.be(404);
+      }).then(done, done);
+    });
+
+    it('should retry a connection error', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        if (requests.length < 2) {
+          request.error(new Error('Denied!'));
+        } else {
+          request.respond(200, 'hello!');
+        }
+      };
+      let retryPolicy: IRetryPolicy = { baseDelay: 0 };
+      ajaxRequest('hello', { retryPolicy }).then(response => {
+        expect(requests.length).to.be(2);
+      }).then(done, done);
+    });
+
+    it('should not retry a non-idempotent method by default', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(503, '');
+      };
+      let retryPolicy: IRetryPolicy = { baseDelay: 0 };
+      ajaxRequest('hello', { method: 'POST', retryPolicy }).catch(error => {
+        expect(requests.length).to.be(1);
+        expect(error.status).to.be(503);
+      }).then(done, done);
+    });
+
+    it('should retry the methods given in the retry policy', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(requests.length < 2 ? 503 : 201, '');
+      };
+      let retryPolicy: IRetryPolicy = { baseDelay: 0, methods: ['post'] };
+      ajaxRequest('hello', { method: 'POST', retryPolicy }).then(() => {
+        expect(requests.length).to.be(2);
+      }).then(done, done);
+    });
+
+    it('should respect the Retry-After header', (done) => {
+      let times: number[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        times.push(Date.now());
+        if (times.length < 2) {
+          request.respond(429, '', { 'Retry-After': '0.1' });
+        } else {
+          request.respond(200, '');
+        }
+      };
+      let retryPolicy: IRetryPolicy = { baseDelay: 0 };
+      ajaxRequest('hello', { retryPolicy }).then(() => {
+        expect(times[1] - times[0]).to.be.greaterThan(90);
+      }).then(done, done);
+    });
+
+    it('should limit the Retry-After delay to the maximum delay', (done) => {
+      let times: number[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        times.push(Date.now());
+        if (times.length < 2) {
+          request.respond(503, '', { 'Retry-After': '3600' });
+        } else {
+          request.respond(200, '');
+        }
+      };
+      let retryPolicy: IRetryPolicy = { baseDelay: 0, maxDelay: 10 };
+      ajaxRequest('hello', { retryPolicy }).then(() => {
+        expect(times[1] - times[0]).to.be.lessThan(1000);
+      }).then(done, done);
+    });
+
+    it('should stop retrying when the request is cancelled', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(503, '');
+      };
+      let token = new CancellationToken();
+      let settings: IAjaxSettings = { retryPolicy: { baseDelay: 10000 } };
+      expectRejection(ajaxRequest('hello', settings, { cancelToken: token })).then(error => {
+        expect(error).to.be.a(CancellationError);
+        expect(requests.length).to.be(1);
+      }).then(done, done);
+      setTimeout(() => { token.cancel(); }, 50);
+    });
+
+    it('should share the response of identical concurrent requests', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(200, { foo: 'bar' });
+      };
+      Promise.all([
+        ajaxRequest('hello', {}), ajaxRequest('hello', {})
+      ]).then(responses => {
+        expect(requests.length).to.be(1);
+        expect(responses[0].data).to.eql({ foo: 'bar' });
+        expect(responses[1].data).to.eql({ foo: 'bar' });
+        expect(responses[0].data).to.not.be(responses[1].data);
+      }).then(done, done);
+    });
+
+    it('should not share the response of different requests', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(200, '');
+      };
+      Promise.all([
+        ajaxRequest('hello', {}),
+        ajaxRequest('world', {}),
+        ajaxRequest('hello', { method: 'POST' }),
+        ajaxRequest('hello', { method: 'POST' }),
+        ajaxRequest('hello', { requestHeaders: { foo: 'bar' } })
+      ]).then(() => {
+        expect(requests.length).to.be(5);
+      }).then(done, done);
+    });
+
+    it('should not share the response if coalesce is false', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(200, '');
+      };
+      Promise.all([
+        ajaxRequest('hello', { coalesce: false }),
+        ajaxRequest('hello', { coalesce: false })
+      ]).then(() => {
+        expect(requests.length).to.be(2);
+      }).then(done, done);
+    });
+
+    it('should limit the number of concurrent requests', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+      };
+      let settings: IAjaxSettings = { coalesce: false, maxConcurrentRequests: 1 };
+      let first = ajaxRequest('http://foo/hello', settings);
+      let second = ajaxRequest('http://foo/hello', settings);
+      setTimeout(() => {
+        expect(requests.length).to.be(1);
+        requests[0].respond(200, '');
+        first.then(() => {
+          return new Promise<void>(resolve => setTimeout(resolve, 10));
+        }).then(() => {
+          expect(requests.length).to.be(2);
+          requests[1].respond(200, '');
+          return second;
+        }).then(() => { done(); }).catch(done);
+      }, 10);
+    });
+
+    it('should not send a queued request which is cancelled', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+      };
+      let token = new CancellationToken();
+      let first = ajaxRequest('http://bar/hello', { maxConcurrentRequests: 1 });
+      let settings: IAjaxSettings = { maxConcurrentRequests: 1 };
+      expectRejection(ajaxRequest('http://bar/world', settings, { cancelToken: token })).then(error => {
+        expect(error).to.be.a(CancellationError);
+        setTimeout(() => {
+          requests[0].respond(200, '');
+        }, 0);
+        return first;
+      }).then(() => {
+        expect(requests.length).to.be(1);
+      }).then(done, done);
+      token.cancel();
+    });
+
+    it('should not be affected by a later cancellation', (done) => {
+      let token = new CancellationToken();
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(200, 'hello!');
+      };
+      ajaxRequest('hello', {}, { cancelToken: token }).then(response => {
+        token.cancel();
+        expect(response.data).to.be('hello!');
+      }).then(done, done);
+    });
+
+    it('should report the progress of the request', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(200, 'hello!');
+      };
+      let events: IAjaxProgress[] = [];
+      let settings: IAjaxSettings = { method: 'PUT', data: 'foo' };
+      let onProgress = (progress: IAjaxProgress) => {
+        events.push(progress);
+      };
+      ajaxRequest('hello', settings, { onProgress }).then(() => {
+        expect(events).to.eql([
+          { direction: 'upload', loaded: 3, total: 3, lengthComputable: true },
+          { direction: 'download', loaded: 6, total: 6, lengthComputable: true }
+        ]);
+      }).then(done, done);
+    });
+
+    it('should not share the response of requests with progress', (done) => {
+      let requests: MockXMLHttpRequest[] = [];
+      MockXMLHttpRequest.onRequest = request => {
+        requests.push(request);
+        request.respond(200, '');
+      };
+      let count = 0;
+      let onProgress = () => { count++; };
+      Promise.all([
+        ajaxRequest('hello', {}, { onProgress }),
+        ajaxRequest('hello', {}, { onProgress })
+      ]).then(() => {
+        expect(requests.length).to.be(2);
+        expect(count).to.be(2);
+      }).then(done, done);
+    });
+
     it('should reject the promise on an error', (done) => {
       MockXMLHttpRequest.onRequest = request => {
         request.error(new Error('Denied!'));
@@ -263,6 +777,605 @@ describe('jupyter-js-utils', () => {
       }).then(done, done);
     });
 
+    it('should send the token in an authorization header', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        expect(request.requestHeaders).to.eql({
+          'Authorization': 'token abc', foo: 'bar'
+        });
+        request.respond(200, 'hello!');
+      };
+      ajaxRequest('hello', {
+        token: 'abc',
+        requestHeaders: { foo: 'bar' }
+      }).then(() => { done(); }, done);
+    });
+
+    it('should not override a given authorization header', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        expect(request.requestHeaders).to.eql({ authorization: 'foo' });
+        request.respond(200, 'hello!');
+      };
+      ajaxRequest('hello', {
+        token: 'abc',
+        requestHeaders: { authorization: 'foo' }
+      }).then(() => { done(); }, done);
+    });
+
+    it('should use the transport given in the settings', (done) => {
+      let urls: string[] = [];
+      let disposable = registerTransport('test', {
+        send: (url: string, ajaxSettings: IAjaxSettings) => {
+          urls.push(url);
+          let success: IAjaxSuccess = {
+            xhr: null, event: null, ajaxSettings, data: 'hello!'
+          };
+          return Promise.resolve(success);
+        }
+      });
+      ajaxRequest('hello', { transport: 'test', cache: true }).then(response => {
+        expect(urls).to.eql(['hello']);
+        expect(response.data).to.be('hello!');
+        disposable.dispose();
+      }).then(done, done);
+    });
+
+    it('should reject the promise for an unknown transport', (done) => {
+      ajaxRequest('hello', { transport: 'foo' }).catch(response => {
+        expect(response.throwError).to.be('Unknown request transport: foo');
+      }).then(done, done);
+    });
+
+  });
+
+  describe('getRequestMetrics()', () => {
+
+    beforeEach(() => {
+      resetRequestMetrics();
+    });
+
+    it('should count the requests sent', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(200, '');
+      };
+      let active = getRequestMetrics().active;
+      let request = ajaxRequest('hello', {});
+      request.then(() => {
+        let metrics = getRequestMetrics();
+        expect(metrics.sent).to.be(1);
+        expect(metrics.active).to.be(active);
+      }).then(done, done);
+    });
+
+    it('should count the coalesced requests', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(200, '');
+      };
+      Promise.all([
+        ajaxRequest('hello', {}),
+        ajaxRequest('hello', {}),
+        ajaxRequest('hello', {})
+      ]).then(() => {
+        let metrics = getRequestMetrics();
+        expect(metrics.sent).to.be(1);
+        expect(metrics.coalesced).to.be(2);
+      }).then(done, done);
+    });
+
+    it('should count the queued requests', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(200, '');
+      };
+      let settings: IAjaxSettings = { maxConcurrentRequests: 1 };
+      Promise.all([
+        ajaxRequest('http://baz/hello', settings),
+        ajaxRequest('http://baz/world', settings)
+      ]).then(() => {
+        let metrics = getRequestMetrics();
+        expect(metrics.sent).to.be(2);
+        expect(metrics.queued).to.be(1);
+      }).then(done, done);
+    });
+
+    it('should return a copy of the metrics', () => {
+      let metrics = getRequestMetrics();
+      metrics.sent = 10;
+      expect(getRequestMetrics().sent).to.be(0);
+    });
+
+  });
+
+  describe('resetRequestMetrics()', () => {
+
+    it('should reset the request counts', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(200, '');
+      };
+      ajaxRequest('hello', {}).then(() => {
+        resetRequestMetrics();
+        expect(getRequestMetrics().sent).to.be(0);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('CookieJar', () => {
+
+    let url = 'http://localhost:8888/api';
+
+    describe('#get()', () => {
+
+      it('should get the value of a cookie for the host of a url', () => {
+        let jar = new CookieJar();
+        jar.set('http://localhost:8888/', 'foo', 'bar');
+        expect(jar.get(url, 'foo')).to.be('bar');
+        expect(jar.get('http://localhost:9999/', 'foo')).to.be(void 0);
+      });
+
+    });
+
+    describe('#remove()', () => {
+
+      it('should remove a cookie', () => {
+        let jar = new CookieJar();
+        jar.set(url, 'foo', 'bar');
+        jar.remove(url, 'foo');
+        expect(jar.get(url, 'foo')).to.be(void 0);
+      });
+
+    });
+
+    describe('#update()', () => {
+
+      it('should store the cookies of a set cookie header', () => {
+        let jar = new CookieJar();
+        jar.update(url, 'foo=1; Path=/, bar=2; expires=Wed, 21 Oct 2099 07:28:00 GMT; HttpOnly');
+        expect(jar.get(url, 'foo')).to.be('1');
+        expect(jar.get(url, 'bar')).to.be('2');
+      });
+
+      it('should remove expired cookies', () => {
+        let jar = new CookieJar();
+        jar.set(url, 'foo', '1');
+        jar.set(url, 'bar', '2');
+        jar.update(url, 'foo=; Max-Age=0, bar=; expires=Thu, 01 Jan 1970 00:00:00 GMT');
+        expect(jar.get(url, 'foo')).to.be(void 0);
+        expect(jar.get(url, 'bar')).to.be(void 0);
+      });
+
+    });
+
+    describe('#getCookieHeader()', () => {
+
+      it('should get the cookie header for a url', () => {
+        let jar = new CookieJar();
+        expect(jar.getCookieHeader(url)).to.be('');
+        jar.set(url, 'foo', '1');
+        jar.set(url, 'bar', '2');
+        expect(jar.getCookieHeader(url)).to.be('foo=1; bar=2');
+      });
+
+    });
+
+    describe('#clear()', () => {
+
+      it('should remove all of the cookies', () => {
+        let jar = new CookieJar();
+        jar.set(url, 'foo', '1');
+        jar.clear();
+        expect(jar.get(url, 'foo')).to.be(void 0);
+      });
+
+    });
+
+  });
+
+  describe('cookie handling', () => {
+
+    let url = 'http://localhost:8888/hello';
+
+    afterEach(() => {
+      cookieJar.clear();
+    });
+
+    it('should store the cookies set by a response', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(200, 'hello!', { 'Set-Cookie': 'foo=bar; Path=/' });
+      };
+      ajaxRequest(url, {}).then(() => {
+        expect(cookieJar.get(url, 'foo')).to.be('bar');
+      }).then(done, done);
+    });
+
+    it('should send the stored cookies', (done) => {
+      cookieJar.set(url, 'foo', 'bar');
+      MockXMLHttpRequest.onRequest = request => {
+        expect(request.requestHeaders['Cookie']).to.be('foo=bar');
+        request.respond(200, 'hello!');
+      };
+      ajaxRequest(url, {}).then(() => { done(); }, done);
+    });
+
+    it('should send the xsrf header for unsafe methods', (done) => {
+      cookieJar.set(url, '_xsrf', 'abc');
+      MockXMLHttpRequest.onRequest = request => {
+        if (request.method === 'GET') {
+          expect(request.requestHeaders['X-XSRFToken']).to.be(void 0);
+        } else {
+          expect(request.requestHeaders['X-XSRFToken']).to.be('abc');
+        }
+        request.respond(200, 'hello!');
+      };
+      ajaxRequest(url, {}).then(() => {
+        return ajaxRequest(url, { method: 'PATCH' });
+      }).then(() => { done(); }, done);
+    });
+
+  });
+
+  describe('login()', () => {
+
+    let baseUrl = 'http://localhost:8888/';
+
+    afterEach(() => {
+      cookieJar.clear();
+    });
+
+    it('should log in with a password', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        if (request.url.indexOf('api/kernelspecs') !== -1) {
+          expect(request.requestHeaders['Cookie']).to.contain('user=1');
+          request.respond(200, {});
+        } else if (request.method === 'GET') {
+          request.respond(200, 'login', { 'Set-Cookie': '_xsrf=abc' });
+        } else {
+          expect(request.data).to.be('password=a%26b&_xsrf=abc');
+          expect(request.requestHeaders['X-XSRFToken']).to.be('abc');
+          request.respond(302, '', { 'Set-Cookie': 'user=1; HttpOnly' });
+        }
+      };
+      login('a&b', { baseUrl }).then(() => {
+        expect(cookieJar.get(baseUrl, 'user')).to.be('1');
+      }).then(done, done);
+    });
+
+    it('should reject for an invalid password', (done) => {
+      MockXMLHttpRequest.onRequest = request => {
+        if (request.url.indexOf('api/kernelspecs') !== -1) {
+          request.respond(403, {});
+        } else {
+          request.respond(200, 'login');
+        }
+      };
+      login('foo', { baseUrl }).catch(error => {
+        expect(error.throwError).to.be('Invalid password');
+      }).then(done, done);
+    });
+
+  });
+
+  describe('getToken()', () => {
+
+    it('should get the token from the ajax settings', () => {
+      expect(getToken({ token: 'abc' })).to.be('abc');
+    });
+
+    it('should default to the token config option', () => {
+      expect(getToken()).to.be('');
+      expect(getToken({})).to.be('');
+    });
+
+  });
+
+  describe('addTokenParam()', () => {
+
+    it('should add the token to a url', () => {
+      expect(addTokenParam('ws://foo', 'a b')).to.be('ws://foo?token=a%20b');
+      expect(addTokenParam('ws://foo?bar=1', 'abc')).to.be('ws://foo?bar=1&token=abc');
+    });
+
+    it('should leave the url unchanged for an empty token', () => {
+      expect(addTokenParam('ws://foo', '')).to.be('ws://foo');
+    });
+
+  });
+
+  describe('registerInterceptor()', () => {
+
+    it('should call the before request hooks in order', (done) => {
+      let disposables = [
+        registerInterceptor('test', {
+          beforeRequest: request => {
+            request.url = request.url.replace('hello', 'world');
+            return request;
+          }
+        }),
+        registerInterceptor('test', {
+          beforeRequest: request => {
+            request.ajaxSettings.requestHeaders = { foo: 'bar' };
+            return Promise.resolve(request);
+          }
+        })
+      ];
+      MockXMLHttpRequest.onRequest = request => {
+        expect(request.url).to.be('world');
+        expect(request.requestHeaders).to.eql({ foo: 'bar' });
+        request.respond(200, 'hello!');
+      };
+      ajaxRequest('hello', { cache: true, interceptors: 'test' }).then(response => {
+        expect(response.data).to.be('hello!');
+        disposables.forEach(disposable => disposable.dispose());
+      }).then(done, done);
+    });
+
+    it('should call the after response hooks', (done) => {
+      let disposable = registerInterceptor('test', {
+        afterResponse: success => {
+          success.data = success.data.toUpperCase();
+          return success;
+        }
+      });
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(200, 'hello!');
+      };
+      ajaxRequest('hello', { interceptors: 'test' }).then(response => {
+        expect(response.data).to.be('HELLO!');
+        disposable.dispose();
+      }).then(done, done);
+    });
+
+    it('should allow an error hook to retry the request', (done) => {
+      let count = 0;
+      let disposable = registerInterceptor('test', {
+        beforeRequest: request => {
+          request.ajaxSettings.requestHeaders = { token: String(count) };
+          return request;
+        },
+        onError: (error, retry) => {
+          count++;
+          return retry();
+        }
+      });
+      MockXMLHttpRequest.onRequest = request => {
+        if (request.requestHeaders['token'] === '0') {
+          request.respond(403, 'denied!');
+        } else {
+          request.respond(200, 'hello!');
+        }
+      };
+      ajaxRequest('hello', { interceptors: 'test' }).then(response => {
+        expect(count).to.be(1);
+        expect(response.data).to.be('hello!');
+        disposable.dispose();
+      }).then(done, done);
+    });
+
+    it('should pass the error on if no hook recovers', (done) => {
+      let errors: string[] = [];
+      let disposable = registerInterceptor('test', {
+        onError: (error, retry) => {
+          errors.push(error.throwError);
+          return void 0;
+        }
+      });
+      MockXMLHttpRequest.onRequest = request => {
+        request.respond(400, 'denied!');
+      };
+      ajaxRequest('hello', { interceptors: 'test' }).catch(response => {
+        expect(errors).to.eql(['400 Bad Request']);
+        expect(response.throwError).to.be('400 Bad Request');
+        disposable.dispose();
+      }).then(done, done);
+    });
+
+    it('should return a disposable which removes the interceptor', () => {
+      let interceptor = {};
+      let disposable = registerInterceptor('test', interceptor);
+      expect(getInterceptors('test')).to.eql([interceptor]);
+      disposable.dispose();
+      expect(getInterceptors('test')).to.eql([]);
+    });
+
+  });
+
+  describe('registerTransport()', () => {
+
+    it('should return a disposable which unregisters the transport', () => {
+      let transport = new XHRTransport();
+      let disposable = registerTransport('test', transport);
+      expect(getTransport('test')).to.be(transport);
+      disposable.dispose();
+      expect(getTransport('test')).to.be(void 0);
+    });
+
+  });
+
+  describe('getTransport()', () => {
+
+    it('should get the built-in transports', () => {
+      expect(getTransport('xhr')).to.be.an(XHRTransport);
+      expect(getTransport('fetch')).to.be.a(FetchTransport);
+    });
+
+    it('should default to the xhr transport', () => {
+      expect(getTransport()).to.be(getTransport('xhr'));
+    });
+
+  });
+
+  describe('FetchTransport', () => {
+
+    let requests: { url: string, init: any }[];
+
+    function mockFetch(status: number, statusText: string, body: string): void {
+      requests = [];
+      global.fetch = (url: string, init: any) => {
+        requests.push({ url, init });
+        return Promise.resolve({
+          status,
+          statusText,
+          headers: { get: (name: string): string => 'application/json' },
+          text: (): Promise<string> => Promise.resolve(body)
+        });
+      };
+    }
+
+    afterEach(() => {
+      delete global.fetch;
+    });
+
+    describe('#send()', () => {
+
+      it('should send a request using fetch', (done) => {
+        mockFetch(200, 'OK', '{"foo": 1}');
+        let transport = new FetchTransport();
+        transport.send('hello', {
+          method: 'POST',
+          contentType: 'bar',
+          requestHeaders: { foo: 'bar' },
+          data: 'baz'
+        }).then(response => {
+          expect(requests[0].url).to.be('hello');
+          expect(requests[0].init.method).to.be('POST');
+          expect(requests[0].init.body).to.be('baz');
+          expect(requests[0].init.headers).to.eql({
+            'Content-Type': 'bar', foo: 'bar'
+          });
+          expect(response.data).to.eql({ foo: 1 });
+          expect(response.xhr.status).to.be(200);
+          expect(response.xhr.responseText).to.be('{"foo": 1}');
+          expect(response.xhr.getResponseHeader('Content-Type')).to.be('application/json');
+        }).then(done, done);
+      });
+
+      it('should send basic authorization', (done) => {
+        mockFetch(200, 'OK', '');
+        let transport = new FetchTransport();
+        transport.send('hello', { user: 'foo', password: 'bar' }).then(() => {
+          let auth = requests[0].init.headers['Authorization'];
+          expect(auth).to.be('Basic Zm9vOmJhcg==');
+        }).then(done, done);
+      });
+
+      it('should reject the promise for a bad status response', (done) => {
+        mockFetch(400, 'Bad Request', 'denied!');
+        let transport = new FetchTransport();
+        transport.send('hello', {}).catch(response => {
+          expect(response.xhr.status).to.be(400);
+          expect(response.throwError).to.be('Bad Request');
+        }).then(done, done);
+      });
+
+      it('should reject the promise on an error', (done) => {
+        global.fetch = () => Promise.reject(new Error('Denied!'));
+        let transport = new FetchTransport();
+        transport.send('hello', {}).catch(response => {
+          expect(response.xhr.status).to.be(0);
+          expect(response.throwError).to.be('Denied!');
+        }).then(done, done);
+      });
+
+      it('should abort the fetch when the token is cancelled', (done) => {
+        let aborted = false;
+        global.AbortController = function() {
+          this.signal = {};
+          this.abort = () => { aborted = true; };
+        };
+        global.fetch = (url: string, init: any) => {
+          expect(init.signal).to.be.ok();
+          return new Promise<any>(() => { /* no-op */ });
+        };
+        let token = new CancellationToken();
+        let transport = new FetchTransport();
+        transport.send('hello', {}, { cancelToken: token });
+        token.cancel();
+        delete global.AbortController;
+        expect(aborted).to.be(true);
+        done();
+      });
+
+      it('should abort the fetch when the request times out', (done) => {
+        let aborted = false;
+        global.AbortController = function() {
+          this.signal = {};
+          this.abort = () => { aborted = true; };
+        };
+        global.fetch = (url: string, init: any) => {
+          expect(init.signal).to.be.ok();
+          return new Promise<any>(() => { /* no-op */ });
+        };
+        let transport = new FetchTransport();
+        transport.send('hello', { timeout: 1 }).then(() => {
+          throw new Error('Request should time out');
+        }, response => {
+          expect(response.throwError).to.be('Request timed out');
+          expect(aborted).to.be(true);
+        }).then(() => {
+          delete global.AbortController;
+        }).then(done, done);
+      });
+
+      it('should report the progress of the request', (done) => {
+        mockFetch(200, 'OK', 'hello!');
+        let events: IAjaxProgress[] = [];
+        let settings: IAjaxSettings = { method: 'PUT', data: 'foo' };
+        let onProgress = (progress: IAjaxProgress) => {
+          events.push(progress);
+        };
+        let transport = new FetchTransport();
+        transport.send('hello', settings, { onProgress }).then(() => {
+          expect(events).to.eql([
+            { direction: 'upload', loaded: 3, total: 3, lengthComputable: true },
+            { direction: 'download', loaded: 6, total: 6, lengthComputable: true }
+          ]);
+        }).then(done, done);
+      });
+
+      it('should report the progress of a streamed response', (done) => {
+        let chunks = [[104, 105], [33]];
+        let decoder = global.TextDecoder;
+        global.TextDecoder = function() {
+          this.decode = (value?: number[]) => {
+            return value ? String.fromCharCode.apply(null, value) : '';
+          };
+        };
+        global.fetch = () => {
+          return Promise.resolve({
+            status: 200,
+            statusText: 'OK',
+            headers: { get: (name: string): string => '3' },
+            body: {
+              getReader: (): any => ({
+                read: (): Promise<any> => Promise.resolve(chunks.length ?
+                  { done: false, value: chunks.shift() } : { done: true })
+              })
+            }
+          });
+        };
+        let loaded: number[] = [];
+        let onProgress = (progress: IAjaxProgress) => {
+          if (progress.direction === 'download') {
+            expect(progress.total).to.be(3);
+            loaded.push(progress.loaded);
+          }
+        };
+        let transport = new FetchTransport();
+        transport.send('hello', {}, { onProgress }).then(response => {
+          global.TextDecoder = decoder;
+          expect(response.data).to.be('hi!');
+          expect(loaded).to.eql([2, 3]);
+        }).then(done, done);
+      });
+
+      it('should be used by ajaxRequest when selected', (done) => {
+        mockFetch(200, 'OK', 'hello!');
+        ajaxRequest('hello', { transport: 'fetch' }).then(response => {
+          expect(requests[0].url.indexOf('hello?')).to.be(0);
+          expect(response.data).to.be('hello!');
+        }).then(done, done);
+      });
+
+    });
+
   });
 
   describe('#loadObject()', () => {
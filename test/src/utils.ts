@@ -3,6 +3,10 @@
 
 import encoding = require('text-encoding');
 
+import {
+  JSONObject
+} from 'phosphor/lib/algorithm/json';
+
 import {
   IAjaxSettings, PromiseDelegate, uuid, IAjaxError
 } from '../../lib/utils';
@@ -16,13 +20,17 @@ import {
 } from '../../lib/mockxhr';
 
 import {
-  Contents, IKernel, Kernel, KernelMessage
+  Contents, IKernel, Kernel, KernelMessage, nbformat
 } from '../../lib';
 
 import {
   deserialize, serialize
 } from '../../lib/kernel/serialize';
 
+import {
+  crc32
+} from '../../lib/contents/zip';
+
 
 // stub for node global
 declare var global: any;
@@ -110,6 +118,109 @@ const DEFAULT_FILE: Contents.IModel = {
 };
 
 
+export
+const DEFAULT_NOTEBOOK: nbformat.INotebookContent = {
+  metadata: {
+    kernelspec: { name: 'python3', display_name: 'Python 3' },
+    language_info: { name: 'python' }
+  },
+  nbformat: 4,
+  nbformat_minor: 1,
+  cells: [
+    {
+      cell_type: 'markdown',
+      metadata: {},
+      source: ['# Title\n', '![dot](attachment:dot.png)'],
+      attachments: { 'dot.png': { 'image/png': 'iVBORw0KGgo=' } }
+    },
+    {
+      cell_type: 'code',
+      metadata: { collapsed: false },
+      source: 'print(1)\n1',
+      execution_count: 1,
+      outputs: [
+        { output_type: 'stream', name: 'stdout', text: ['1\n'] },
+        {
+          output_type: 'execute_result',
+          execution_count: 1,
+          data: { 'text/plain': '1', 'application/json': { value: 1 } },
+          metadata: {}
+        },
+        { output_type: 'display_data', data: {}, metadata: {} },
+        {
+          output_type: 'error',
+          ename: 'NameError',
+          evalue: 'foo',
+          traceback: ['NameError: foo']
+        }
+      ]
+    },
+    { cell_type: 'raw', metadata: {}, source: '' }
+  ]
+};
+
+
+export
+const V3_NOTEBOOK: JSONObject = {
+  metadata: {
+    name: 'old',
+    signature: 'sha256:0',
+    kernelspec: { name: 'python2', display_name: 'Python 2' }
+  },
+  nbformat: 3,
+  nbformat_minor: 0,
+  worksheets: [
+    {
+      metadata: {},
+      cells: [
+        {
+          cell_type: 'heading',
+          level: 2,
+          metadata: {},
+          source: ['A\n', 'heading']
+        },
+        {
+          cell_type: 'code',
+          collapsed: false,
+          input: ['x = 1\n', 'x'],
+          language: 'python',
+          metadata: {},
+          prompt_number: 2,
+          outputs: [
+            { output_type: 'stream', stream: 'stdout', text: ['hi\n'] },
+            {
+              output_type: 'pyout',
+              prompt_number: 2,
+              text: ['1'],
+              json: '{"a": 1}',
+              metadata: {}
+            },
+            {
+              output_type: 'display_data',
+              png: 'iVBORw0KGgo=',
+              metadata: { png: { width: 10 } }
+            },
+            {
+              output_type: 'pyerr',
+              ename: 'NameError',
+              evalue: 'y',
+              traceback: ['NameError: y']
+            }
+          ]
+        }
+      ]
+    },
+    {
+      metadata: {},
+      cells: [
+        { cell_type: 'html', metadata: {}, source: '<b>bold</b>' },
+        { cell_type: 'raw', metadata: {}, source: 'raw' }
+      ]
+    }
+  ]
+};
+
+
 export
 class RequestHandler {
   /**
@@ -142,6 +253,158 @@ class RequestHandler {
 }
 
 
+/**
+ * Create a contents model for a path.
+ */
+export
+function createModel(path: string, type: Contents.FileType, content: any = null, format?: Contents.FileFormat): Contents.IModel {
+  return {
+    name: path.split('/').pop(),
+    path,
+    type,
+    created: 'yesterday',
+    last_modified: 'today',
+    writable: true,
+    mimetype: null,
+    content,
+    format: content === null ? null : format || 'text'
+  };
+}
+
+
+/**
+ * A contents server test rig which stores models by path.
+ */
+export
+class ContentsServer extends RequestHandler {
+  constructor() {
+    super(request => { this._handle(request); });
+  }
+
+  /**
+   * The models stored by path.
+   */
+  models: { [key: string]: Contents.IModel } = Object.create(null);
+
+  /**
+   * The method and path of each request.
+   */
+  requests: string[] = [];
+
+  /**
+   * The paths which fail with a server error.
+   */
+  failures: string[] = [];
+
+  /**
+   * Add a model for a path, and for each of its parent directories.
+   */
+  add(path: string, type: Contents.FileType, content: any = null, format?: Contents.FileFormat): void {
+    let parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      let dir = parts.slice(0, i).join('/');
+      if (!(dir in this.models)) {
+        this.models[dir] = createModel(dir, 'directory');
+      }
+    }
+    this.models[path] = createModel(path, type, content, format);
+  }
+
+  private _handle(request: MockXMLHttpRequest): void {
+    let match = request.url.match(/api\/contents\/?([^?]*)/);
+    let path = match[1].split('/').map(decodeURIComponent).join('/');
+    this.requests.push(`${request.method} ${path}`);
+    if (this.failures.indexOf(path) !== -1) {
+      request.respond(500, { message: `Failed: ${path}` });
+      return;
+    }
+    if (request.method === 'PUT') {
+      let body = JSON.parse(request.data);
+      let content = body.type === 'directory' ? null : body.content;
+      this.add(path, body.type, content, body.format);
+      request.respond(201, this.models[path]);
+      return;
+    }
+    let model = path ? this.models[path] : createModel('', 'directory');
+    if (!model) {
+      request.respond(404, { message: 'Not found' });
+      return;
+    }
+    let children = Object.keys(this.models).filter(key => {
+      return key.indexOf(`${path}/`) === 0;
+    });
+    if (request.method === 'DELETE') {
+      if (children.length) {
+        request.respond(400, { message: `Directory not empty: ${path}` });
+        return;
+      }
+      delete this.models[path];
+      request.respond(204, {});
+      return;
+    }
+    if (request.method === 'PATCH') {
+      let newPath = JSON.parse(request.data).path;
+      if (newPath in this.models) {
+        request.respond(409, { message: `File already exists: ${newPath}` });
+        return;
+      }
+      for (let key of [path].concat(children)) {
+        let moved = this.models[key];
+        delete this.models[key];
+        this.add(newPath + key.slice(path.length), moved.type, moved.content, moved.format);
+      }
+      request.respond(200, this.models[newPath]);
+      return;
+    }
+    if (model.type === 'directory') {
+      model = createModel(path, 'directory', Object.keys(this.models).filter(key => {
+        return key.split('/').slice(0, -1).join('/') === path;
+      }).map(key => createModel(key, this.models[key].type)));
+      model.format = 'json';
+    }
+    request.respond(200, model);
+  }
+}
+
+
+/**
+ * Read the entries of a zip archive by path.
+ *
+ * #### Notes
+ * Only stored entries are supported.  Throws an error if an entry has an
+ * invalid checksum.
+ */
+export
+function readZip(buffer: ArrayBuffer): { [key: string]: Uint8Array } {
+  let bytes = new Uint8Array(buffer);
+  let view = new DataView(buffer);
+  let end = bytes.length - 22;
+  if (view.getUint32(end, true) !== 0x06054b50) {
+    throw new Error('Invalid end of central directory');
+  }
+  let count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  let entries: { [key: string]: Uint8Array } = Object.create(null);
+  for (let i = 0; i < count; i++) {
+    let crc = view.getUint32(offset + 16, true);
+    let size = view.getUint32(offset + 24, true);
+    let nameLength = view.getUint16(offset + 28, true);
+    let local = view.getUint32(offset + 42, true);
+    let name = new encoding.TextDecoder().decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    let start = local + 30 + view.getUint16(local + 26, true);
+    let data = bytes.subarray(start, start + size);
+    if (crc32(data) !== crc) {
+      throw new Error(`Invalid checksum: ${name}`);
+    }
+    entries[name] = data;
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+
 /**
  * Kernel class test rig.
  */
@@ -269,6 +532,17 @@ function expectFailure(promise: Promise<any>, done: () => void, message?: string
 }
 
 
+/**
+ * Expect a promise to be rejected, and get a promise for the error.
+ */
+export
+function expectRejection(promise: Promise<any>): Promise<any> {
+  return promise.then<any>((msg: any) => {
+    throw Error('Expected failure did not occur');
+  }, (error: Error) => error);
+}
+
+
 /**
  * Expect an Ajax failure with a given throwError.
  */